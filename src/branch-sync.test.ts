@@ -0,0 +1,132 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test";
+import { syncConflictMessage, syncWithMain } from "./branch-sync.ts";
+import {
+  addAgentWorktree,
+  cloneForAgent,
+  commitAll,
+  createGitignore,
+  gitExec,
+  initRepo,
+} from "./git-manager.ts";
+import type { ReviewPayload } from "./types.ts";
+
+let tmpDir: string;
+let leaderDir: string;
+let agentDir: string;
+
+beforeEach(async () => {
+  tmpDir = `/tmp/sealteam-sync-test-${crypto.randomUUID()}`;
+  leaderDir = `${tmpDir}/bob`;
+  agentDir = `${tmpDir}/alice`;
+  await initRepo(leaderDir);
+  await createGitignore(leaderDir);
+  await Bun.write(`${leaderDir}/app.ts`, "export const greeting = 'hi';\n");
+  await commitAll(leaderDir, "Initial commit");
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+async function log(dir: string): Promise<string> {
+  return (await gitExec(dir, ["log", "--format=%s"])).stdout;
+}
+
+describe("syncWithMain", () => {
+  test("merges main from origin into a clone", async () => {
+    await cloneForAgent(leaderDir, agentDir, "alice");
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+    await Bun.write(`${leaderDir}/ui.ts`, "export const ui = true;\n");
+    await commitAll(leaderDir, "Merge carol's UI");
+
+    const report = await syncWithMain(agentDir, "merge");
+
+    expect(report).toEqual({ status: "synced", upstream: "origin/main" });
+    expect(await Bun.file(`${agentDir}/ui.ts`).exists()).toBe(true);
+    expect(await log(agentDir)).toContain("Merge remote-tracking branch 'origin/main' into agent/alice");
+  });
+
+  test("rebases a worktree's branch onto the leader's main", async () => {
+    await addAgentWorktree(leaderDir, agentDir, "alice");
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+    await Bun.write(`${leaderDir}/ui.ts`, "export const ui = true;\n");
+    await commitAll(leaderDir, "Merge carol's UI");
+
+    const report = await syncWithMain(agentDir, "rebase");
+
+    expect(report).toEqual({ status: "synced", upstream: "main" });
+    expect(await log(agentDir)).toBe("Add API\nMerge carol's UI\nInitial commit");
+  });
+
+  test("reports up-to-date when the branch contains main", async () => {
+    await cloneForAgent(leaderDir, agentDir, "alice");
+    expect(await syncWithMain(agentDir, "merge")).toEqual({ status: "up-to-date", upstream: "origin/main" });
+  });
+
+  test("aborts on conflict and reports the hunks", async () => {
+    await cloneForAgent(leaderDir, agentDir, "alice");
+    await Bun.write(`${agentDir}/app.ts`, "export const greeting = 'hello';\n");
+    await commitAll(agentDir, "Alice's greeting");
+    await Bun.write(`${leaderDir}/app.ts`, "export const greeting = 'howdy';\n");
+    await commitAll(leaderDir, "Bob's greeting");
+    const head = (await gitExec(agentDir, ["rev-parse", "HEAD"])).stdout;
+
+    const report = await syncWithMain(agentDir, "merge");
+
+    expect(report.status).toBe("conflict");
+    expect(report.conflicts).toEqual([{
+      file: "app.ts",
+      kind: "both modified",
+      regions: 1,
+      hunks: [{
+        file: "app.ts",
+        line: 1,
+        ours: { text: "export const greeting = 'hello';" },
+        base: "export const greeting = 'hi';",
+        theirs: { text: "export const greeting = 'howdy';" },
+      }],
+    }]);
+    expect((await gitExec(agentDir, ["rev-parse", "HEAD"])).stdout).toBe(head);
+    expect((await gitExec(agentDir, ["status", "--porcelain"])).stdout).toBe("");
+  });
+
+  test("skips a working tree with uncommitted changes", async () => {
+    await cloneForAgent(leaderDir, agentDir, "alice");
+    await Bun.write(`${agentDir}/app.ts`, "work in progress\n");
+    await Bun.write(`${leaderDir}/ui.ts`, "export const ui = true;\n");
+    await commitAll(leaderDir, "Merge carol's UI");
+
+    const report = await syncWithMain(agentDir, "merge");
+
+    expect(report).toEqual({ status: "skipped", reason: "uncommitted changes" });
+    expect(await Bun.file(`${agentDir}/app.ts`).text()).toBe("work in progress\n");
+    expect(await Bun.file(`${agentDir}/ui.ts`).exists()).toBe(false);
+  });
+});
+
+describe("syncConflictMessage", () => {
+  test("is a review of the hunks addressed to the agent", async () => {
+    const report = {
+      status: "conflict" as const,
+      upstream: "origin/main",
+      conflicts: [{
+        file: "app.ts",
+        kind: "both modified",
+        regions: 1,
+        hunks: [{ file: "app.ts", line: 1, ours: { text: "a" }, base: null, theirs: { text: "b" } }],
+      }],
+    };
+
+    const message = syncConflictMessage("alice", "merge", report);
+
+    expect(message).toMatchObject({ from: "alice", to: "alice", type: "review" });
+    expect(message.content).toContain("conflicts in app.ts");
+    expect(message.content).toContain("Run `git merge origin/main`");
+    expect(message.content).toContain('"ours" is your branch');
+    const payload = message.payload as ReviewPayload;
+    expect(payload.verdict).toBe("request-changes");
+    expect(payload.comments).toEqual([{ comment: "app.ts:1\n--- ours\na\n--- theirs\nb", file: "app.ts", line: 1 }]);
+  });
+});
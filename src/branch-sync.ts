@@ -0,0 +1,83 @@
+import type { QueueMessage, SyncMode } from "./types.ts";
+import { gitExec } from "./git-manager.ts";
+import { conflictReview, readConflicts } from "./conflict-resolver.ts";
+import type { MergeConflict } from "./conflict-resolver.ts";
+
+/**
+ * - "synced": main was merged in, or the branch rebased onto it
+ * - "up-to-date": the branch already contains main
+ * - "conflict": the merge or rebase was aborted; the branch is as it was
+ * - "skipped": syncing was not attempted or git turned it down (see
+ *   `reason`), e.g. because of uncommitted changes
+ */
+export type SyncStatus = "synced" | "up-to-date" | "conflict" | "skipped";
+
+export interface SyncReport {
+  status: SyncStatus;
+  /** What the branch was synced with: "origin/main" in a clone, "main" in a worktree. */
+  upstream?: string;
+  conflicts?: MergeConflict[];
+  reason?: string;
+}
+
+/**
+ * Bring the leader's main branch into the agent's branch checked out in
+ * `workDir`: merge it in, or rebase the branch onto it. A clone fetches
+ * main from origin first; a worktree shares the leader's branches. Never
+ * leaves a merge or rebase half done, and never touches a working tree
+ * with uncommitted changes.
+ */
+export async function syncWithMain(workDir: string, mode: Exclude<SyncMode, "off">): Promise<SyncReport> {
+  const dirty = await gitExec(workDir, ["status", "--porcelain", "--untracked-files=no"]);
+  if (dirty.exitCode !== 0) return { status: "skipped", reason: `not a git repository: ${dirty.stderr}` };
+  if (dirty.stdout) return { status: "skipped", reason: "uncommitted changes" };
+
+  const origin = await gitExec(workDir, ["remote", "get-url", "origin"]);
+  const upstream = origin.exitCode === 0 ? "origin/main" : "main";
+  if (origin.exitCode === 0) {
+    const fetched = await gitExec(workDir, ["fetch", "origin", "main"]);
+    if (fetched.exitCode !== 0) return { status: "skipped", upstream, reason: fetched.stderr };
+  }
+
+  const ancestor = await gitExec(workDir, ["merge-base", "--is-ancestor", upstream, "HEAD"]);
+  if (ancestor.exitCode === 0) return { status: "up-to-date", upstream };
+  if (ancestor.exitCode !== 1) return { status: "skipped", upstream, reason: ancestor.stderr };
+
+  const args = mode === "rebase" ? ["rebase", upstream] : ["merge", "--no-edit", upstream];
+  const result = await gitExec(workDir, ["-c", "merge.conflictStyle=diff3", ...args]);
+  if (result.exitCode === 0) return { status: "synced", upstream };
+
+  const conflicts = await readConflicts(workDir);
+  await gitExec(workDir, [mode, "--abort"]);
+  if (conflicts.length === 0) return { status: "skipped", upstream, reason: result.stderr || result.stdout };
+  return { status: "conflict", upstream, conflicts };
+}
+
+/**
+ * The review an agent finds among its messages when syncing hit
+ * conflicts: what to run to reproduce them, and each hunk.
+ */
+export function syncConflictMessage(
+  agentName: string,
+  mode: Exclude<SyncMode, "off">,
+  report: SyncReport,
+): QueueMessage {
+  const hunks = (report.conflicts ?? []).flatMap((c) => c.hunks);
+  const files = (report.conflicts ?? []).map((c) => c.file).join(", ");
+  // A rebase replays the agent's commits onto main, so the sides swap
+  const sides = mode === "rebase"
+    ? `"ours" is ${report.upstream}, "theirs" your commit`
+    : `"ours" is your branch, "theirs" ${report.upstream}`;
+  const command = mode === "rebase" ? `git rebase ${report.upstream}` : `git merge ${report.upstream}`;
+  return {
+    id: crypto.randomUUID(),
+    from: agentName,
+    to: agentName,
+    type: "review",
+    content:
+      `Syncing your branch with ${report.upstream} conflicts in ${files}; it was left as it was. ` +
+      `Run \`${command}\`, resolve the conflicts keeping both sides' work, and commit before you continue (${sides}).`,
+    payload: conflictReview(hunks),
+    timestamp: Date.now(),
+  };
+}
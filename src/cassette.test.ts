@@ -0,0 +1,188 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import {
+  Cassette,
+  CASSETTE_FILE,
+  ReplayDivergenceError,
+  cassetteOptionsFromEnv,
+  normalizeRequest,
+} from "./cassette.ts";
+import { ClaudeClient } from "./claude-client.ts";
+import { FakeProvider, fakeText } from "./providers/fake.ts";
+import { ProviderHttpError } from "./providers/provider.ts";
+import type { ProviderRequest } from "./providers/provider.ts";
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = `/tmp/sealteam-cassette-test-${crypto.randomUUID()}`;
+  await Bun.$`mkdir -p ${tmpDir}`.quiet();
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+function request(content: string, workspace: string = "/work/a"): ProviderRequest {
+  return {
+    model: "claude-sonnet-4-6",
+    systemPrompt: `You work in ${workspace}/alice`,
+    messages: [{ role: "user", content }],
+    maxTokens: 1000,
+  };
+}
+
+describe("normalizeRequest", () => {
+  test("masks workspace path, UUIDs, timestamps and SHAs", () => {
+    const text = normalizeRequest(
+      request(
+        "msg 3f2b8c1e-9a4d-4e7f-b123-0123456789ab at 2026-01-02T03:04:05.678Z " +
+        "(1767323045678) commit 4e1a9c2",
+      ),
+      "/work/a",
+    );
+    expect(text).toContain("You work in <workspace>/alice");
+    expect(text).toContain("msg <uuid> at <time> (<timestamp>) commit <sha>");
+  });
+
+  test("leaves ordinary words and numbers alone", () => {
+    const text = normalizeRequest(request("decade 42 cafe feed"), "/work/a");
+    expect(text).toContain("decade 42 cafe feed");
+  });
+});
+
+describe("Cassette", () => {
+  test("replays recorded responses in order", async () => {
+    const dir = `${tmpDir}/alice/recordings`;
+    const recorder = new Cassette({ mode: "record", dir, workspacePath: "/work/a" });
+    recorder.record(request("one"), fakeText("first"));
+    recorder.record(request("two"), fakeText("second"));
+
+    const lines = (await Bun.file(`${dir}/${CASSETTE_FILE}`).text()).trim().split("\n");
+    expect(lines).toHaveLength(2);
+
+    // Replay from a different workspace path
+    const player = new Cassette({ mode: "replay", dir, workspacePath: "/work/b" });
+    const first = await player.replay(request("one", "/work/b"));
+    const second = await player.replay(request("two", "/work/b"));
+    expect(first.response.content[0]).toMatchObject({ type: "text", text: "first" });
+    expect(second.response.content[0]).toMatchObject({ type: "text", text: "second" });
+    expect(first.fallbacks).toBeUndefined();
+  });
+
+  test("throws ReplayDivergenceError when the prompt differs", async () => {
+    const dir = `${tmpDir}/recordings`;
+    new Cassette({ mode: "record", dir, workspacePath: "/work/a" })
+      .record(request("original"), fakeText("ok"));
+
+    const player = new Cassette({ mode: "replay", dir, workspacePath: "/work/a" });
+    try {
+      await player.replay(request("edited"));
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ReplayDivergenceError);
+      expect((err as Error).message).toContain("call 0");
+      expect((err as Error).message).toContain("original");
+      expect((err as Error).message).toContain("edited");
+    }
+  });
+
+  test("throws ReplayDivergenceError when calls run past the recording", async () => {
+    const dir = `${tmpDir}/recordings`;
+    new Cassette({ mode: "record", dir, workspacePath: "/work/a" })
+      .record(request("one"), fakeText("ok"));
+
+    const player = new Cassette({ mode: "replay", dir, workspacePath: "/work/a" });
+    await player.replay(request("one"));
+    await expect(player.replay(request("two"))).rejects.toThrow(ReplayDivergenceError);
+  });
+
+  test("throws ReplayDivergenceError when there is no cassette", async () => {
+    const player = new Cassette({ mode: "replay", dir: `${tmpDir}/missing`, workspacePath: "/w" });
+    await expect(player.replay(request("one"))).rejects.toThrow("No cassette found");
+  });
+});
+
+describe("cassetteOptionsFromEnv", () => {
+  test("returns undefined when neither recording nor replaying", () => {
+    expect(cassetteOptionsFromEnv("alice", "/work", {})).toBeUndefined();
+  });
+
+  test("records into the agent's own directory", () => {
+    expect(cassetteOptionsFromEnv("alice", "/work", { SEALTEAM_RECORD: "1" })).toEqual({
+      mode: "record",
+      dir: "/work/alice/recordings",
+      workspacePath: "/work",
+    });
+  });
+
+  test("replays from the source workspace", () => {
+    const opts = cassetteOptionsFromEnv("alice", "/replay", { SEALTEAM_REPLAY_FROM: "/work" });
+    expect(opts).toEqual({
+      mode: "replay",
+      dir: "/work/alice/recordings",
+      workspacePath: "/replay",
+    });
+  });
+});
+
+describe("ClaudeClient with a cassette", () => {
+  test("records live calls and replays them without the provider", async () => {
+    const dir = `${tmpDir}/bob/recordings`;
+    const live = new FakeProvider([fakeText("hello", { input: 10, output: 5 })]);
+    const recorder = new ClaudeClient({
+      providers: { anthropic: live },
+      cassette: { mode: "record", dir, workspacePath: "/work/a" },
+    });
+    const params = {
+      model: "claude-sonnet-4-6",
+      systemPrompt: "You are bob",
+      messages: [{ role: "user" as const, content: "hi" }],
+    };
+    await recorder.call(params);
+
+    const offline = new FakeProvider();
+    const player = new ClaudeClient({
+      providers: { anthropic: offline },
+      cassette: { mode: "replay", dir, workspacePath: "/work/b" },
+    });
+    const { response, tokensUsed } = await player.call(params);
+
+    expect(response.content[0]).toMatchObject({ type: "text", text: "hello" });
+    expect(tokensUsed).toMatchObject({ input: 10, output: 5 });
+    expect(player.getTokenUsage().total).toBe(15);
+    expect(offline.requests).toHaveLength(0);
+  });
+
+  test("replays a call a fallback model answered", async () => {
+    const dir = `${tmpDir}/bob/recordings`;
+    const overloaded = () => {
+      throw new ProviderHttpError(529, "overloaded", new Headers({ "retry-after": "0" }));
+    };
+    const live = new FakeProvider([overloaded, fakeText("from sonnet", { input: 1000, output: 0 })]);
+    const recorder = new ClaudeClient({
+      providers: { anthropic: live },
+      cassette: { mode: "record", dir, workspacePath: "/work/a" },
+    });
+    const params = {
+      model: "claude-opus-4-6",
+      systemPrompt: "You are bob",
+      messages: [{ role: "user" as const, content: "hi" }],
+      fallbackModels: ["claude-sonnet-4-6"],
+    };
+    const recorded = await recorder.call(params);
+    expect(live.requests.map((r) => r.model)).toEqual(["claude-opus-4-6", "claude-sonnet-4-6"]);
+
+    const offline = new FakeProvider();
+    const player = new ClaudeClient({
+      providers: { anthropic: offline },
+      cassette: { mode: "replay", dir, workspacePath: "/work/b" },
+    });
+    const replayed = await player.call(params);
+
+    expect(replayed.response.content[0]).toMatchObject({ type: "text", text: "from sonnet" });
+    expect(replayed.fallbacks).toEqual(recorded.fallbacks!);
+    // Priced as the model that answered, as when recording
+    expect(replayed.tokensUsed.cost).toBeCloseTo(recorded.tokensUsed.cost!, 9);
+    expect(offline.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,193 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import type { Message } from "./claude-client.ts";
+import type { ProviderRequest } from "./providers/provider.ts";
+import type { ModelFallback } from "./types.ts";
+
+/** File name of the cassette inside an agent's recordings/ directory. */
+export const CASSETTE_FILE = "cassette.jsonl";
+
+export type CassetteMode = "record" | "replay";
+
+export interface CassetteOptions {
+  mode: CassetteMode;
+  /** Directory holding cassette.jsonl (workspace/<agent>/recordings). */
+  dir: string;
+  /** Workspace path of the running session, masked out of requests. */
+  workspacePath: string;
+}
+
+/**
+ * One recorded model call. The request is stored normalized (see
+ * normalizeRequest) so it can be compared against a replayed session
+ * running in a different workspace at a different time. Its model is the
+ * one the agent asked for; when a fallback model answered instead,
+ * `fallbacks` records the chain, the last `to` being the answering model.
+ */
+export interface CassetteEntry {
+  seq: number;
+  request: Record<string, unknown>;
+  response: Message;
+  fallbacks?: ModelFallback[];
+}
+
+/** A replayed call: the recorded response and the fallbacks it took. */
+export interface ReplayedCall {
+  response: Message;
+  fallbacks?: ModelFallback[];
+}
+
+/**
+ * Build cassette options for an agent from the environment set by the
+ * main process: SEALTEAM_RECORD=1 records into the agent's own
+ * recordings/ directory, SEALTEAM_REPLAY_FROM=<workspace> replays the
+ * agent's recordings from that workspace.
+ */
+export function cassetteOptionsFromEnv(
+  agentName: string,
+  workspacePath: string,
+  env: Record<string, string | undefined> = process.env,
+): CassetteOptions | undefined {
+  if (env.SEALTEAM_REPLAY_FROM) {
+    return {
+      mode: "replay",
+      dir: `${env.SEALTEAM_REPLAY_FROM}/${agentName}/recordings`,
+      workspacePath,
+    };
+  }
+  if (env.SEALTEAM_RECORD === "1") {
+    return {
+      mode: "record",
+      dir: `${workspacePath}/${agentName}/recordings`,
+      workspacePath,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Raised when a replayed session assembles a different prompt than the
+ * recorded one, or makes more calls than were recorded.
+ */
+export class ReplayDivergenceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReplayDivergenceError";
+  }
+}
+
+/**
+ * Records model calls to, or replays them from, a JSONL cassette.
+ * Calls are matched strictly by order.
+ */
+export class Cassette {
+  readonly mode: CassetteMode;
+  private path: string;
+  private workspacePath: string;
+  private seq = 0;
+  private entries: CassetteEntry[] | null = null;
+
+  constructor(options: CassetteOptions) {
+    this.mode = options.mode;
+    this.path = `${options.dir}/${CASSETTE_FILE}`;
+    this.workspacePath = options.workspacePath;
+    if (this.mode === "record") {
+      mkdirSync(options.dir, { recursive: true });
+    }
+  }
+
+  /**
+   * Append a completed call to the cassette. `request` carries the model
+   * asked for, even if one of `fallbacks` answered.
+   */
+  record(request: ProviderRequest, response: Message, fallbacks: ModelFallback[] = []): void {
+    const entry: CassetteEntry = {
+      seq: this.seq++,
+      request: JSON.parse(normalizeRequest(request, this.workspacePath)),
+      response,
+      ...(fallbacks.length > 0 ? { fallbacks } : {}),
+    };
+    appendFileSync(this.path, JSON.stringify(entry) + "\n");
+  }
+
+  /**
+   * Return the recorded response for the next call, and the fallbacks it
+   * took, after checking that the request matches the recording. Throws
+   * ReplayDivergenceError otherwise.
+   */
+  async replay(request: ProviderRequest): Promise<ReplayedCall> {
+    const entries = await this.load();
+    const seq = this.seq++;
+    const entry = entries[seq];
+    if (!entry) {
+      throw new ReplayDivergenceError(
+        `Replay diverged: call ${seq} was not recorded (cassette has ${entries.length} calls) in ${this.path}`,
+      );
+    }
+
+    const actual = normalizeRequest(request, this.workspacePath);
+    const expected = JSON.stringify(entry.request);
+    if (actual !== expected) {
+      throw new ReplayDivergenceError(
+        `Replay diverged at call ${seq} in ${this.path}:\n${describeDifference(expected, actual)}`,
+      );
+    }
+
+    return entry.fallbacks ? { response: entry.response, fallbacks: entry.fallbacks } : { response: entry.response };
+  }
+
+  private async load(): Promise<CassetteEntry[]> {
+    if (this.entries) return this.entries;
+    let text: string;
+    try {
+      text = await Bun.file(this.path).text();
+    } catch {
+      throw new ReplayDivergenceError(`No cassette found at ${this.path}`);
+    }
+    this.entries = text
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as CassetteEntry);
+    return this.entries;
+  }
+}
+
+// ─── Normalization ───────────────────────────────────────────────
+
+const UUID_PATTERN = /\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi;
+const EPOCH_MS_PATTERN = /\b1\d{12}\b/g;
+const ISO_TIME_PATTERN = /\b\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z\b/g;
+// Hex runs that mix digits and letters, i.e. git object ids
+const SHA_PATTERN = /\b(?=[0-9a-f]*\d)(?=[0-9a-f]*[a-f])[0-9a-f]{7,40}\b/g;
+
+/**
+ * Serialize a request with run-specific values masked: the workspace
+ * path, message UUIDs, timestamps and git object ids. Everything else
+ * must match byte for byte between recording and replay.
+ */
+export function normalizeRequest(
+  request: ProviderRequest,
+  workspacePath: string,
+): string {
+  let text = JSON.stringify(request);
+  if (workspacePath) {
+    text = text.split(JSON.stringify(workspacePath).slice(1, -1)).join("<workspace>");
+  }
+  return text
+    .replace(UUID_PATTERN, "<uuid>")
+    .replace(ISO_TIME_PATTERN, "<time>")
+    .replace(EPOCH_MS_PATTERN, "<timestamp>")
+    .replace(SHA_PATTERN, "<sha>");
+}
+
+function describeDifference(expected: string, actual: string): string {
+  let i = 0;
+  while (i < expected.length && i < actual.length && expected[i] === actual[i]) {
+    i++;
+  }
+  const from = Math.max(0, i - 80);
+  return [
+    `  first difference at offset ${i}`,
+    `  recorded: …${expected.slice(from, i + 80)}…`,
+    `  replayed: …${actual.slice(from, i + 80)}…`,
+  ].join("\n");
+}
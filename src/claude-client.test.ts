@@ -1,13 +1,20 @@
 import { test, expect, describe } from "bun:test";
 import {
   ClaudeClient,
+  checkModelProvider,
+  effectiveTokens,
   getContextLimit,
   isToolUse,
   isTextBlock,
   getTextContent,
   getToolUseBlocks,
+  retryAfterMs,
 } from "./claude-client.ts";
 import type { Message, ContentBlock, ToolUnion } from "./claude-client.ts";
+import { FakeProvider, fakeText, fakeToolUse } from "./providers/fake.ts";
+import { parseModelSpec, CallAbortedError, ProviderHttpError } from "./providers/provider.ts";
+import { CACHE_READ_RATE, CACHE_WRITE_RATE } from "./pricing.ts";
+import type { LLMProvider } from "./providers/provider.ts";
 
 const hasApiKey = !!process.env.ANTHROPIC_API_KEY;
 
@@ -54,6 +61,289 @@ describe("ClaudeClient unit tests", () => {
   test("getContextLimit returns default for unknown model", () => {
     expect(getContextLimit("claude-unknown-99")).toBe(200000);
   });
+
+  test("getContextLimit ignores the provider prefix", () => {
+    expect(getContextLimit("anthropic:claude-opus-4-6")).toBe(200000);
+    expect(getContextLimit("openai:gpt-x")).toBe(200000);
+  });
+});
+
+describe("provider routing", () => {
+  test("parseModelSpec splits provider prefix", () => {
+    expect(parseModelSpec("openai:gpt-x")).toEqual({ provider: "openai", model: "gpt-x" });
+    expect(parseModelSpec("local:llama")).toEqual({ provider: "local", model: "llama" });
+    expect(parseModelSpec("claude-sonnet-4-6")).toEqual({ provider: "anthropic", model: "claude-sonnet-4-6" });
+  });
+
+  test("routes calls to the provider named by the model prefix", async () => {
+    const fake = new FakeProvider([fakeText("from fake", { input: 10, output: 5 })]);
+    const client = new ClaudeClient({ providers: { fake } });
+
+    const result = await client.call({
+      model: "fake:scripted-1",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    expect(getTextContent(result.response)).toBe("from fake");
+    expect(fake.requests).toHaveLength(1);
+    expect(fake.requests[0]!.model).toBe("scripted-1");
+    expect(client.getTokenUsage()).toEqual({ input: 10, output: 5, cacheRead: 0, cacheWrite: 0, cost: 0, total: 15 });
+  });
+
+  test("unprefixed models use the anthropic provider slot", async () => {
+    const fake = new FakeProvider([fakeText("ok")]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+
+    await client.call({
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+    });
+    expect(fake.requests[0]!.model).toBe("claude-sonnet-4-6");
+  });
+
+  test("unknown provider prefix throws without retrying", async () => {
+    const client = new ClaudeClient();
+    expect(
+      client.call({
+        model: "nope:model",
+        systemPrompt: "sys",
+        messages: [{ role: "user", content: "hi" }],
+      }),
+    ).rejects.toThrow("Unknown model provider");
+  });
+
+  test("checkModelProvider reports unknown providers and missing keys", () => {
+    const saved = process.env.OPENAI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    try {
+      expect(checkModelProvider("nope:x")).toContain("Unknown model provider");
+      expect(checkModelProvider("openai:gpt-x")).toContain("OPENAI_API_KEY");
+      expect(checkModelProvider("local:llama")).toBeNull();
+    } finally {
+      if (saved !== undefined) process.env.OPENAI_API_KEY = saved;
+    }
+  });
+});
+
+describe("streaming and abort", () => {
+  test("reports text and tool-use deltas while streaming", async () => {
+    const fake = new FakeProvider([
+      fakeText("thinking aloud"),
+      fakeToolUse("bash", { command: "ls" }),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const events: string[] = [];
+    const stream = {
+      onText: (d: string) => events.push(`text:${d}`),
+      onToolUseStart: (name: string) => events.push(`tool:${name}`),
+      onToolInputDelta: (d: string) => events.push(`input:${d}`),
+    };
+    const params = {
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user" as const, content: "hi" }],
+      stream,
+    };
+
+    await client.call(params);
+    await client.call(params);
+    expect(events).toEqual(["text:thinking aloud", "tool:bash", 'input:{"command":"ls"}']);
+  });
+
+  test("abort throws CallAbortedError, counts partial usage and does not retry", async () => {
+    let calls = 0;
+    const provider: LLMProvider = {
+      name: "anthropic",
+      createMessage: () => Promise.reject(new Error("unused")),
+      stream: (_request, _handlers, signal) => {
+        calls++;
+        return new Promise((_resolve, reject) => {
+          signal!.addEventListener("abort", () =>
+            reject(new CallAbortedError({ input: 40, output: 7 })));
+        });
+      },
+    };
+    const client = new ClaudeClient({ providers: { anthropic: provider } });
+    const controller = new AbortController();
+
+    const pending = client.call({
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+      stream: {},
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CallAbortedError);
+    expect(calls).toBe(1);
+    expect(client.getTokenUsage()).toMatchObject({ input: 40, output: 7, cacheRead: 0, cacheWrite: 0, total: 47 });
+    // Partial usage is priced too: 40 × $3 + 7 × $15 per million
+    expect(client.getTokenUsage().cost).toBeCloseTo(0.000225, 9);
+  });
+
+  test("providers without partial usage still surface an abort", async () => {
+    const fake = new FakeProvider([() => new Promise(() => {})]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const controller = new AbortController();
+
+    const pending = client.call({
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(CallAbortedError);
+    expect(client.getTokenUsage().total).toBe(0);
+  });
+});
+
+describe("model fallback", () => {
+  // retry-after: 0 keeps the tests from sleeping through the backoff
+  const failWith = (status: number) => () => {
+    throw new ProviderHttpError(status, `error ${status}`, new Headers({ "retry-after": "0" }));
+  };
+  const params = {
+    model: "claude-opus-4-6",
+    systemPrompt: "sys",
+    messages: [{ role: "user" as const, content: "hi" }],
+    fallbackModels: ["claude-opus-4-6", "claude-sonnet-4-6", "claude-haiku-4-5"],
+  };
+
+  test("moves to the next model at once when overloaded", async () => {
+    const fake = new FakeProvider([failWith(529), fakeText("from sonnet", { input: 1000, output: 0 })]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+
+    const result = await client.call(params);
+
+    expect(fake.requests.map((r) => r.model)).toEqual(["claude-opus-4-6", "claude-sonnet-4-6"]);
+    expect(getTextContent(result.response)).toBe("from sonnet");
+    expect(result.fallbacks).toEqual([
+      { from: "claude-opus-4-6", to: "claude-sonnet-4-6", status: 529, timestamp: expect.any(Number) },
+    ]);
+    // Priced as the model that answered
+    expect(result.tokensUsed.cost).toBeCloseTo(0.003, 9);
+  });
+
+  test("falls back after repeated rate limits and walks the whole chain", async () => {
+    const fake = new FakeProvider([
+      failWith(429), failWith(429), failWith(429),
+      failWith(529),
+      fakeText("from haiku"),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+
+    const result = await client.call(params);
+
+    expect(fake.requests.map((r) => r.model)).toEqual([
+      "claude-opus-4-6", "claude-opus-4-6", "claude-opus-4-6", "claude-sonnet-4-6", "claude-haiku-4-5",
+    ]);
+    expect(result.fallbacks!.map((f) => [f.to, f.status])).toEqual([
+      ["claude-sonnet-4-6", 429],
+      ["claude-haiku-4-5", 529],
+    ]);
+  });
+
+  test("a rate limit that asks to wait too long falls back without waiting", async () => {
+    const fake = new FakeProvider([
+      () => {
+        throw new ProviderHttpError(429, "slow down", new Headers({ "retry-after": "3600" }));
+      },
+      fakeText("from sonnet"),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+
+    const result = await client.call(params);
+    expect(result.fallbacks![0]!.status).toBe(429);
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  test("without a chain, retries the same model and then throws", async () => {
+    const fake = new FakeProvider([failWith(529), failWith(529), failWith(529)]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+
+    await expect(client.call({ ...params, fallbackModels: undefined })).rejects.toThrow("error 529");
+    expect(fake.requests.map((r) => r.model)).toEqual(Array(3).fill("claude-opus-4-6"));
+  });
+
+  test("retryAfterMs reads seconds, milliseconds and HTTP dates", () => {
+    const withHeaders = (init: Record<string, string>) =>
+      new ProviderHttpError(429, "x", new Headers(init));
+    expect(retryAfterMs(withHeaders({ "retry-after": "2" }))).toBe(2000);
+    expect(retryAfterMs(withHeaders({ "retry-after-ms": "250", "retry-after": "2" }))).toBe(250);
+    const inFiveSeconds = new Date(Date.now() + 5000).toUTCString();
+    expect(retryAfterMs(withHeaders({ "retry-after": inFiveSeconds }))).toBeGreaterThan(3000);
+    expect(retryAfterMs(withHeaders({}))).toBeUndefined();
+    expect(retryAfterMs(new Error("no headers"))).toBeUndefined();
+  });
+});
+
+describe("prompt cache accounting", () => {
+  test("passes the cache prefix to the provider and tracks cache tokens", async () => {
+    const fake = new FakeProvider([
+      fakeText("first", { input: 20, output: 10, cacheWrite: 1000 }),
+      fakeText("second", { input: 20, output: 10, cacheRead: 1000 }),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const params = {
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user" as const, content: "hi" }],
+      cachePrefixLength: 1,
+    };
+
+    const first = await client.call(params);
+    const second = await client.call(params);
+
+    expect(fake.requests[0]!.cachePrefixLength).toBe(1);
+    expect(first.tokensUsed).toMatchObject({ input: 20, output: 10, cacheWrite: 1000 });
+    expect(second.tokensUsed).toMatchObject({ input: 20, output: 10, cacheRead: 1000 });
+    expect(second.tokensUsed).not.toHaveProperty("cacheWrite");
+    expect(client.getTokenUsage()).toMatchObject({
+      input: 40,
+      output: 20,
+      cacheRead: 1000,
+      cacheWrite: 1000,
+      total: 60 + 1000 * CACHE_READ_RATE + 1000 * CACHE_WRITE_RATE,
+    });
+  });
+
+  test("prices each call and reports cumulative usage after every call", async () => {
+    const reports: unknown[] = [];
+    const fake = new FakeProvider([
+      fakeText("a", { input: 1000, output: 100 }),
+      fakeText("b", { input: 1000, output: 100 }),
+    ]);
+    const client = new ClaudeClient({
+      providers: { anthropic: fake },
+      onUsage: (usage) => reports.push(usage),
+    });
+    const params = {
+      model: "claude-opus-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user" as const, content: "hi" }],
+    };
+
+    const { tokensUsed } = await client.call(params);
+    await client.call(params);
+
+    // 1000 × $5 + 100 × $25 per million
+    expect(tokensUsed.cost).toBeCloseTo(0.0075, 9);
+    expect(reports).toHaveLength(2);
+    expect(reports[1]).toMatchObject({ input: 2000, output: 200, cacheRead: 0, cacheWrite: 0 });
+    expect((reports[1] as { cost: number }).cost).toBeCloseTo(0.015, 9);
+    expect(client.getTokenUsage().cost).toBeCloseTo(0.015, 9);
+  });
+
+  test("effectiveTokens discounts cache reads and surcharges cache writes", () => {
+    expect(effectiveTokens({ input: 100, output: 50 })).toBe(150);
+    expect(effectiveTokens({ input: 0, output: 0, cacheRead: 10_000 })).toBe(1_000);
+    expect(effectiveTokens({ input: 0, output: 0, cacheWrite: 10_000 })).toBe(12_500);
+  });
 });
 
 describe("content block helpers", () => {
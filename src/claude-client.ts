@@ -1,27 +1,72 @@
-import Anthropic from "@anthropic-ai/sdk";
-import type { TokenUsage } from "./types.ts";
-import { logRetry } from "./logger.ts";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { ModelFallback, StepType, TokenUsage } from "./types.ts";
+import { logFallback, logRetry } from "./logger.ts";
+import { parseModelSpec, CallAbortedError } from "./providers/provider.ts";
+import type { LLMProvider, StreamHandlers } from "./providers/provider.ts";
+import { AnthropicProvider } from "./providers/anthropic.ts";
+import { OpenAICompatibleProvider } from "./providers/openai.ts";
+import { Cassette } from "./cassette.ts";
+import type { CassetteOptions } from "./cassette.ts";
+import { CACHE_READ_RATE, CACHE_WRITE_RATE, computeCost } from "./pricing.ts";
+import type { RateLimiter } from "./rate-limiter.ts";
 
-// Re-export SDK types used by callers
+// Re-export SDK types used by callers. These Anthropic shapes are also the
+// provider-neutral format: other providers translate to and from them.
 export type Message = Anthropic.Messages.Message;
 export type MessageParam = Anthropic.Messages.MessageParam;
 export type ContentBlock = Anthropic.Messages.ContentBlock;
 export type ToolUnion = Anthropic.Messages.ToolUnion;
+export type Tool = Anthropic.Messages.Tool;
+export type ToolChoice = Anthropic.Messages.ToolChoice;
 export type TextBlock = Anthropic.Messages.TextBlock;
 export type ToolUseBlock = Anthropic.Messages.ToolUseBlock;
 export type ToolResultBlockParam = Anthropic.Messages.ToolResultBlockParam;
 
+export { CallAbortedError };
+export type { StreamHandlers };
+
 export interface CallParams {
   model: string;
   systemPrompt: string;
   messages: MessageParam[];
   tools?: ToolUnion[];
+  /** Whether and which tool the model must call; defaults to auto. */
+  toolChoice?: ToolChoice;
   maxTokens?: number;
+  /**
+   * Number of leading messages that stay identical across calls. The
+   * system prompt, tools and this prefix are marked for prompt caching.
+   */
+  cachePrefixLength?: number;
+  /** Extended-thinking budget in tokens; omit to call without thinking. */
+  thinkingBudget?: number;
+  /** Models to fall back to, in order, when `model` is overloaded or rate limited. */
+  fallbackModels?: string[];
+  /** Calling agent and life-loop step; metadata only, not sent to the model. */
+  agent?: string;
+  step?: StepType;
+  /** Stream the response, reporting deltas as they arrive. */
+  stream?: StreamHandlers;
+  /** Abort the call; it then throws CallAbortedError. */
+  signal?: AbortSignal;
 }
 
 export interface CallResult {
   response: Message;
   tokensUsed: TokenUsage;
+  /** Fallbacks taken before a model answered; absent when none were. */
+  fallbacks?: ModelFallback[];
+}
+
+export interface ClaudeClientOptions {
+  /** Providers keyed by model-spec prefix; merged over the defaults. */
+  providers?: Record<string, LLMProvider>;
+  /** Record every call to a cassette, or serve every call from one. */
+  cassette?: CassetteOptions;
+  /** Called after every call (including aborted ones) with the cumulative usage. */
+  onUsage?: (usage: Required<TokenUsage>) => void;
+  /** Session-wide request and token limits, shared with the other agents. */
+  rateLimiter?: RateLimiter;
 }
 
 // Context window sizes per model family
@@ -32,77 +77,257 @@ const CONTEXT_LIMITS: Record<string, number> = {
 const DEFAULT_CONTEXT_LIMIT = 200000;
 
 export function getContextLimit(model: string): number {
-  return CONTEXT_LIMITS[model] ?? DEFAULT_CONTEXT_LIMIT;
+  return CONTEXT_LIMITS[parseModelSpec(model).model] ?? DEFAULT_CONTEXT_LIMIT;
+}
+
+// ─── Providers ───────────────────────────────────────────────────
+
+/**
+ * Built-in providers, created on first use so that e.g. an
+ * OpenAI-only session never needs an Anthropic key.
+ */
+const DEFAULT_PROVIDERS: Record<string, { create: () => LLMProvider; apiKeyEnv?: string }> = {
+  anthropic: {
+    create: () => new AnthropicProvider(),
+    apiKeyEnv: "ANTHROPIC_API_KEY",
+  },
+  openai: {
+    create: () =>
+      new OpenAICompatibleProvider({
+        name: "openai",
+        baseUrl: process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+        apiKey: process.env.OPENAI_API_KEY,
+      }),
+    apiKeyEnv: "OPENAI_API_KEY",
+  },
+  local: {
+    create: () =>
+      new OpenAICompatibleProvider({
+        name: "local",
+        baseUrl: process.env.SEALTEAM_LOCAL_BASE_URL ?? "http://localhost:11434/v1",
+        apiKey: process.env.SEALTEAM_LOCAL_API_KEY,
+      }),
+  },
+};
+
+/**
+ * Check that a model spec names a usable built-in provider and that its
+ * API key is present. Returns an error message, or null if usable.
+ */
+export function checkModelProvider(model: string): string | null {
+  const { provider } = parseModelSpec(model);
+  const entry = DEFAULT_PROVIDERS[provider];
+  if (!entry) {
+    return `Unknown model provider "${provider}" in "${model}" (expected one of: ${Object.keys(DEFAULT_PROVIDERS).join(", ")}).`;
+  }
+  if (entry.apiKeyEnv && !process.env[entry.apiKeyEnv]) {
+    return `${entry.apiKeyEnv} environment variable is required for model "${model}".`;
+  }
+  return null;
 }
 
 const MAX_RETRIES = 3;
 const BASE_DELAY_MS = 1000;
+// Longest retry-after we wait out; a longer one moves to the next model
+const MAX_RETRY_WAIT_MS = 60_000;
 
 export class ClaudeClient {
-  private client: Anthropic;
+  private providers = new Map<string, LLMProvider>();
+  private cassette?: Cassette;
   private totalInput: number = 0;
   private totalOutput: number = 0;
+  private totalCacheRead: number = 0;
+  private totalCacheWrite: number = 0;
+  private totalCost: number = 0;
+  private onUsage?: (usage: Required<TokenUsage>) => void;
+  private rateLimiter?: RateLimiter;
 
-  constructor() {
-    // Anthropic SDK reads ANTHROPIC_API_KEY from env automatically
-    this.client = new Anthropic();
+  constructor(options: ClaudeClientOptions = {}) {
+    for (const [name, provider] of Object.entries(options.providers ?? {})) {
+      this.providers.set(name, provider);
+    }
+    if (options.cassette) {
+      this.cassette = new Cassette(options.cassette);
+    }
+    this.onUsage = options.onUsage;
+    this.rateLimiter = options.rateLimiter;
   }
 
   /**
-   * Make a single Claude API call with retry and exponential backoff
-   * for transient errors (rate limits, network failures, server errors).
+   * Make a single model call with retry and exponential backoff for
+   * transient errors (rate limits, network failures, server errors).
+   * The model spec's prefix ("openai:", "local:") selects the provider;
+   * unprefixed models go to Anthropic. A `retry-after` header replaces
+   * the backoff delay.
+   *
+   * With `fallbackModels`, an overloaded model (529) is abandoned right
+   * away, and a rate-limited one (429) once its retries run out or it
+   * asks to wait longer than MAX_RETRY_WAIT_MS; the call then moves on
+   * to the next model in the chain.
+   *
+   * With `stream`, deltas are reported as they arrive (providers without
+   * streaming support fall back to a plain call). An aborted `signal`
+   * throws CallAbortedError, after counting the tokens already used.
    */
   async call(params: CallParams): Promise<CallResult> {
-    const { model, systemPrompt, messages, tools, maxTokens = 16384 } = params;
+    const {
+      systemPrompt, messages, tools, toolChoice, maxTokens = 16384, cachePrefixLength, thinkingBudget,
+    } = params;
+    const base = { systemPrompt, messages, tools, toolChoice, maxTokens, cachePrefixLength, thinkingBudget };
 
+    // Replay: serve the recorded response, never touch the network
+    if (this.cassette?.mode === "replay") {
+      const { response, fallbacks } = await this.cassette.replay({ model: params.model, ...base });
+      // Usage is priced for the model that answered, as it was when recording
+      const answeredBy = fallbacks?.[fallbacks.length - 1]?.to ?? params.model;
+      const tokensUsed = this.trackUsage(response, answeredBy);
+      return fallbacks ? { response, tokensUsed, fallbacks } : { response, tokensUsed };
+    }
+
+    const chain = [
+      params.model,
+      ...(params.fallbackModels ?? []).filter((m) => m !== params.model),
+    ];
+    const fallbacks: ModelFallback[] = [];
     let lastError: Error | undefined;
+    // Tokens are reserved up front and settled once the usage is known
+    const estimate = this.rateLimiter
+      ? this.estimateTokens(JSON.stringify([systemPrompt, messages, tools ?? []]))
+      : 0;
+
+    for (let i = 0; i < chain.length; i++) {
+      const modelSpec = chain[i]!;
+      const next = chain[i + 1];
+      const { provider: providerName, model } = parseModelSpec(modelSpec);
+      const provider = this.getProvider(providerName);
+      const request = { model: modelSpec, ...base };
+      let fallbackStatus: number | undefined;
+
+      for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+        let response: Message;
+        if (this.rateLimiter) {
+          await this.rateLimiter.acquire(estimate, params.signal);
+        }
+        try {
+          response = params.stream && provider.stream
+            ? await provider.stream({ ...request, model }, params.stream, params.signal)
+            : await provider.createMessage({ ...request, model }, params.signal);
+        } catch (err) {
+          if (params.signal?.aborted) {
+            // Never retry an abort; providers without partial usage report none
+            const aborted = err instanceof CallAbortedError
+              ? err
+              : new CallAbortedError({ input: 0, output: 0 });
+            aborted.usage.cost = computeCost(modelSpec, aborted.usage);
+            this.addUsage(aborted.usage);
+            await this.rateLimiter?.settle(rateLimitedTokens(aborted.usage) - estimate);
+            throw aborted;
+          }
+          lastError = err instanceof Error ? err : new Error(String(err));
+          await this.rateLimiter?.settle(-estimate);
+
+          // Don't retry on client errors (4xx except 429 rate limit and 529 overloaded)
+          if (isNonRetryableError(err)) {
+            throw lastError;
+          }
+
+          const status = errorStatus(err);
+          const delayMs = retryAfterMs(err) ?? BASE_DELAY_MS * Math.pow(2, attempt - 1);
+          const rateLimited = status === 429 && (attempt === MAX_RETRIES || delayMs > MAX_RETRY_WAIT_MS);
+          if (next && (status === 529 || rateLimited)) {
+            fallbackStatus = status;
+            break;
+          }
 
-    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-      try {
-        const response = await this.client.messages.create({
-          model,
-          max_tokens: maxTokens,
-          system: systemPrompt,
-          messages,
-          tools: tools && tools.length > 0 ? tools : undefined,
-        });
-
-        const tokensUsed: TokenUsage = {
-          input: response.usage.input_tokens,
-          output: response.usage.output_tokens,
-        };
-
-        this.totalInput += tokensUsed.input;
-        this.totalOutput += tokensUsed.output;
-
-        return { response, tokensUsed };
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-
-        // Don't retry on client errors (4xx except 429 rate limit and 529 overloaded)
-        if (isNonRetryableError(err)) {
-          throw lastError;
+          if (attempt < MAX_RETRIES) {
+            logRetry(`${providerName} API call`, attempt, MAX_RETRIES, Math.min(delayMs, MAX_RETRY_WAIT_MS));
+            await sleep(Math.min(delayMs, MAX_RETRY_WAIT_MS));
+          }
+          continue;
         }
 
-        if (attempt < MAX_RETRIES) {
-          const delayMs = BASE_DELAY_MS * Math.pow(2, attempt - 1);
-          logRetry("Claude API call", attempt, MAX_RETRIES, delayMs);
-          await sleep(delayMs);
+        // Outside the try: a failed cassette write must not re-issue the call
+        if (this.cassette?.mode === "record") {
+          // Under the model asked for, which is what replay looks up
+          this.cassette.record({ model: params.model, ...base }, response, fallbacks);
         }
+        const tokensUsed = this.trackUsage(response, modelSpec);
+        await this.rateLimiter?.settle(rateLimitedTokens(tokensUsed) - estimate);
+        return fallbacks.length > 0
+          ? { response, tokensUsed, fallbacks }
+          : { response, tokensUsed };
       }
+
+      // Retries ran out on an error that does not warrant a fallback
+      if (fallbackStatus === undefined) break;
+      fallbacks.push({ from: modelSpec, to: next!, status: fallbackStatus, timestamp: Date.now() });
+      logFallback(modelSpec, next!, fallbackStatus);
+    }
+
+    throw lastError ?? new Error(`${params.model} API call failed after retries`);
+  }
+
+  /**
+   * Add a response's usage, priced for `model`, to the running totals.
+   */
+  protected trackUsage(response: Message, model: string = response.model): TokenUsage {
+    const tokensUsed: TokenUsage = {
+      input: response.usage.input_tokens,
+      output: response.usage.output_tokens,
+    };
+    if (response.usage.cache_read_input_tokens) {
+      tokensUsed.cacheRead = response.usage.cache_read_input_tokens;
+    }
+    if (response.usage.cache_creation_input_tokens) {
+      tokensUsed.cacheWrite = response.usage.cache_creation_input_tokens;
     }
+    tokensUsed.cost = computeCost(model, tokensUsed);
+    this.addUsage(tokensUsed);
+    return tokensUsed;
+  }
 
-    throw lastError ?? new Error("Claude API call failed after retries");
+  private addUsage(usage: TokenUsage): void {
+    this.totalInput += usage.input;
+    this.totalOutput += usage.output;
+    this.totalCacheRead += usage.cacheRead ?? 0;
+    this.totalCacheWrite += usage.cacheWrite ?? 0;
+    this.totalCost += usage.cost ?? 0;
+    this.onUsage?.(this.totals());
+  }
+
+  /**
+   * Resolve a provider by name, instantiating built-ins on first use.
+   */
+  private getProvider(name: string): LLMProvider {
+    let provider = this.providers.get(name);
+    if (!provider) {
+      const entry = DEFAULT_PROVIDERS[name];
+      if (!entry) {
+        throw new Error(`Unknown model provider: ${name}`);
+      }
+      provider = entry.create();
+      this.providers.set(name, provider);
+    }
+    return provider;
   }
 
   /**
-   * Get cumulative token usage across all calls.
+   * Get cumulative token usage across all calls. `total` counts cached
+   * input at its discounted rate (see effectiveTokens) and is what
+   * budgets are checked against; `cost` is in USD.
    */
-  getTokenUsage(): TokenUsage & { total: number } {
+  getTokenUsage(): Required<TokenUsage> & { total: number } {
+    const usage = this.totals();
+    return { ...usage, total: effectiveTokens(usage) };
+  }
+
+  private totals(): Required<TokenUsage> {
     return {
       input: this.totalInput,
       output: this.totalOutput,
-      total: this.totalInput + this.totalOutput,
+      cacheRead: this.totalCacheRead,
+      cacheWrite: this.totalCacheWrite,
+      cost: this.totalCost,
     };
   }
 
@@ -115,6 +340,29 @@ export class ClaudeClient {
   }
 }
 
+// ─── Prompt Cache Accounting ─────────────────────────────────────
+
+/**
+ * Token count with cached input weighted by its price relative to
+ * regular input, so budgets reflect what the tokens actually cost.
+ */
+export function effectiveTokens(usage: TokenUsage): number {
+  return Math.round(
+    usage.input +
+    usage.output +
+    (usage.cacheRead ?? 0) * CACHE_READ_RATE +
+    (usage.cacheWrite ?? 0) * CACHE_WRITE_RATE,
+  );
+}
+
+/**
+ * Tokens a call counts against the per-minute token limit. Like the
+ * Anthropic API, cache reads are not counted.
+ */
+function rateLimitedTokens(usage: TokenUsage): number {
+  return usage.input + (usage.cacheWrite ?? 0) + usage.output;
+}
+
 // ─── Helpers for working with response content blocks ────────────
 
 export function isToolUse(block: ContentBlock): block is ToolUseBlock {
@@ -136,6 +384,16 @@ export function getToolUseBlocks(response: Message): ToolUseBlock[] {
   return response.content.filter(isToolUse);
 }
 
+/**
+ * Extended-thinking text of a response. Redacted thinking is left out.
+ */
+export function getThinkingContent(response: Message): string {
+  return response.content
+    .filter((b): b is Anthropic.Messages.ThinkingBlock => b.type === "thinking")
+    .map((b) => b.thinking)
+    .join("\n");
+}
+
 // ─── Retry Helpers ───────────────────────────────────────────────
 
 function isNonRetryableError(err: unknown): boolean {
@@ -150,6 +408,34 @@ function isNonRetryableError(err: unknown): boolean {
   return false;
 }
 
+function errorStatus(err: unknown): number | undefined {
+  if (err && typeof err === "object" && "status" in err) {
+    return (err as { status: number }).status;
+  }
+  return undefined;
+}
+
+/**
+ * Delay requested by an error response's retry-after-ms or retry-after
+ * header (seconds or an HTTP date), if any.
+ */
+export function retryAfterMs(err: unknown): number | undefined {
+  const headers = err && typeof err === "object" && "headers" in err
+    ? (err as { headers: unknown }).headers
+    : undefined;
+  if (!(headers instanceof Headers)) return undefined;
+
+  const ms = Number(headers.get("retry-after-ms") ?? NaN);
+  if (ms >= 0) return ms;
+
+  const value = headers.get("retry-after");
+  if (value === null) return undefined;
+  const seconds = Number(value);
+  if (value.trim() !== "" && seconds >= 0) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
@@ -0,0 +1,154 @@
+import { test, expect, describe } from "bun:test";
+import {
+  applyResolutions,
+  attributeHunks,
+  conflictReview,
+  createModelResolver,
+  ownerOf,
+  parseConflictHunks,
+  parseOwnership,
+  renderHunk,
+} from "./conflict-resolver.ts";
+import type { ConflictHunk } from "./conflict-resolver.ts";
+import type { CallParams, ClaudeClient } from "./claude-client.ts";
+
+const DIFF3 = `import { a } from "./a";
+<<<<<<< HEAD
+const x = 1;
+||||||| merged common ancestors
+const x = 0;
+=======
+const x = 2;
+>>>>>>> alice/agent/alice
+middle
+<<<<<<< HEAD
+=======
+added();
+>>>>>>> alice/agent/alice
+end
+`;
+
+const HUNK: ConflictHunk = {
+  file: "src/app.ts",
+  line: 2,
+  ours: { text: "const x = 1;", agent: "carol" },
+  base: "const x = 0;",
+  theirs: { text: "const x = 2;", agent: "alice" },
+  owner: "carol",
+};
+
+/** A client whose model answers every call with the given tool input. */
+function answering(input: unknown, calls: CallParams[] = []): ClaudeClient {
+  return {
+    call: async (params: CallParams) => {
+      calls.push(params);
+      return {
+        response: { content: [{ type: "tool_use", id: "t1", name: "submit_resolution", input }] },
+        tokensUsed: { input: 10, output: 5 },
+      };
+    },
+  } as unknown as ClaudeClient;
+}
+
+describe("parseConflictHunks", () => {
+  test("parses diff3 hunks with their base", () => {
+    const hunks = parseConflictHunks("src/app.ts", DIFF3);
+    expect(hunks).toEqual([
+      { file: "src/app.ts", line: 2, ours: { text: "const x = 1;" }, base: "const x = 0;", theirs: { text: "const x = 2;" } },
+      { file: "src/app.ts", line: 10, ours: { text: "" }, base: null, theirs: { text: "added();" } },
+    ]);
+  });
+
+  test("returns nothing for a file without markers", () => {
+    expect(parseConflictHunks("a.ts", "const x = 1;\n")).toEqual([]);
+  });
+});
+
+describe("applyResolutions", () => {
+  test("replaces each hunk in order and keeps the rest", () => {
+    const resolved = applyResolutions(DIFF3, ["const x = 3;", "added();\nalsoAdded();"]);
+    expect(resolved).toBe('import { a } from "./a";\nconst x = 3;\nmiddle\nadded();\nalsoAdded();\nend\n');
+  });
+
+  test("an empty resolution removes the hunk", () => {
+    expect(applyResolutions(DIFF3, ["", ""])).toBe('import { a } from "./a";\nmiddle\nend\n');
+  });
+
+  test("throws when a hunk has no resolution", () => {
+    expect(() => applyResolutions(DIFF3, ["const x = 3;"])).toThrow("no resolution for conflict hunk 2");
+  });
+});
+
+describe("ownership", () => {
+  const plan = `# Plan
+## Agent Assignments
+- **frontend-dev** owns \`src/components/\` and \`public/\`.
+- backend-dev owns src/api/, src/db/ and src/api/schema.sql. docs-writer owns README.md.
+Everyone follows the conventions below.
+`;
+
+  test("parses owners and their paths from PLAN.md", () => {
+    const ownership = parseOwnership(plan);
+    expect(ownership.get("frontend-dev")).toEqual(["src/components/", "public/"]);
+    expect(ownership.get("backend-dev")).toEqual(["src/api/", "src/db/", "src/api/schema.sql"]);
+    expect(ownership.get("docs-writer")).toEqual(["README.md"]);
+  });
+
+  test("the longest matching path decides the owner", () => {
+    const ownership = parseOwnership(plan);
+    expect(ownerOf(ownership, "src/components/Button.tsx")).toBe("frontend-dev");
+    expect(ownerOf(ownership, "src/api/schema.sql")).toBe("backend-dev");
+    expect(ownerOf(ownership, "README.md")).toBe("docs-writer");
+    expect(ownerOf(ownership, "src/index.ts")).toBeUndefined();
+  });
+
+  test("attributes theirs to the merging agent and ours to another owner", () => {
+    const ownership = parseOwnership(plan);
+    const [hunk] = parseConflictHunks("src/db/pool.ts", DIFF3);
+    const [attributed] = attributeHunks([hunk!], ownership, "alice");
+    expect(attributed!.owner).toBe("backend-dev");
+    expect(attributed!.ours.agent).toBe("backend-dev");
+    expect(attributed!.theirs.agent).toBe("alice");
+
+    const [own] = attributeHunks([hunk!], ownership, "backend-dev");
+    expect(own!.ours.agent).toBeUndefined();
+    expect(own!.theirs.agent).toBe("backend-dev");
+  });
+});
+
+describe("handing hunks on", () => {
+  test("renders a hunk with its sides' agents", () => {
+    expect(renderHunk(HUNK)).toBe(
+      "src/app.ts:2, owned by carol\n--- ours (carol)\nconst x = 1;\n--- base\nconst x = 0;\n--- theirs (alice)\nconst x = 2;",
+    );
+  });
+
+  test("builds a request-changes review with a comment per hunk", () => {
+    const review = conflictReview([HUNK]);
+    expect(review.verdict).toBe("request-changes");
+    expect(review.comments).toEqual([{ comment: renderHunk(HUNK), file: "src/app.ts", line: 2 }]);
+  });
+});
+
+describe("createModelResolver", () => {
+  test("returns the model's resolution", async () => {
+    const calls: CallParams[] = [];
+    const resolver = createModelResolver(answering({ resolution: "const x = 3;\n" }, calls), "claude-sonnet-4-6", "bob");
+
+    expect(resolver.name).toBe("claude-sonnet-4-6");
+    expect(await resolver.resolve(HUNK)).toBe("const x = 3;");
+    expect(calls[0]!.toolChoice).toEqual({ type: "tool", name: "submit_resolution" });
+    expect(calls[0]!.agent).toBe("bob");
+    expect(calls[0]!.messages[0]!.content).toBe(renderHunk(HUNK));
+  });
+
+  test("gives up when the model declines", async () => {
+    const resolver = createModelResolver(answering({ unresolved: "contradictory values" }), "claude-sonnet-4-6");
+    expect(await resolver.resolve(HUNK)).toBeNull();
+  });
+
+  test("gives up on an answer without a resolution", async () => {
+    const resolver = createModelResolver(answering({}), "claude-sonnet-4-6");
+    expect(await resolver.resolve(HUNK)).toBeNull();
+  });
+});
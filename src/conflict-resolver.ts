@@ -0,0 +1,283 @@
+import type { ClaudeClient, Tool } from "./claude-client.ts";
+import { getToolUseBlocks } from "./claude-client.ts";
+import { gitExec } from "./git-manager.ts";
+import type { ReviewPayload } from "./types.ts";
+import { validateStructured } from "./structured-output.ts";
+import type { JsonSchema } from "./structured-output.ts";
+
+/** One side of a conflict hunk and the agent whose work it is, if known. */
+export interface ConflictSide {
+  text: string;
+  agent?: string;
+}
+
+/**
+ * A conflicting region of a file, as git left it between its <<<<<<<
+ * and >>>>>>> markers. "ours" is the leader's branch, "theirs" the
+ * branch being merged.
+ */
+export interface ConflictHunk {
+  file: string;
+  /** Line of the <<<<<<< marker in the conflicted file, from 1. */
+  line: number;
+  ours: ConflictSide;
+  /** The merge base's version; null unless git wrote diff3-style markers. */
+  base: string | null;
+  theirs: ConflictSide;
+  /** The file's owner in PLAN.md. */
+  owner?: string;
+}
+
+/** A file a merge or rebase in progress left unmerged. */
+export interface MergeConflict {
+  file: string;
+  /** e.g. "both modified", "deleted by them" */
+  kind: string;
+  /** Conflicting regions (<<<<<<< markers); 0 when a side deleted the file. */
+  regions: number;
+  hunks: ConflictHunk[];
+}
+
+/**
+ * Resolves single hunks, e.g. with a model. `name` is recorded in the
+ * merge commit as the resolver of every hunk it resolved.
+ */
+export interface HunkResolver {
+  name: string;
+  /** The text replacing the hunk, or null if it cannot be resolved safely. */
+  resolve(hunk: ConflictHunk): Promise<string | null>;
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────
+
+// `git status --porcelain` codes of unmerged paths
+const CONFLICT_KINDS: Record<string, string> = {
+  UU: "both modified",
+  AA: "both added",
+  DD: "both deleted",
+  AU: "added by us",
+  UA: "added by them",
+  DU: "deleted by us",
+  UD: "deleted by them",
+};
+
+/**
+ * The unmerged files of the merge or rebase in progress in `repoDir`,
+ * with their hunks (not yet attributed).
+ */
+export async function readConflicts(repoDir: string): Promise<MergeConflict[]> {
+  const status = await gitExec(repoDir, ["status", "--porcelain"]);
+  const conflicts: MergeConflict[] = [];
+  for (const line of status.stdout.split("\n")) {
+    const kind = CONFLICT_KINDS[line.slice(0, 2)];
+    if (!kind) continue;
+    const file = line.slice(3);
+    const content = await Bun.file(`${repoDir}/${file}`).text().catch(() => "");
+    const hunks = parseConflictHunks(file, content);
+    conflicts.push({ file, kind, regions: hunks.length, hunks });
+  }
+  return conflicts;
+}
+
+/**
+ * The conflict hunks of a file git left with conflict markers, in order.
+ * Sides hold their lines joined with "\n", without a trailing newline.
+ */
+export function parseConflictHunks(file: string, content: string): ConflictHunk[] {
+  const hunks: ConflictHunk[] = [];
+  const lines = content.split("\n");
+  let hunk: { line: number; ours: string[]; base: string[] | null; theirs: string[] } | null = null;
+  let section: "ours" | "base" | "theirs" = "ours";
+
+  lines.forEach((text, index) => {
+    if (text.startsWith("<<<<<<<")) {
+      hunk = { line: index + 1, ours: [], base: null, theirs: [] };
+      section = "ours";
+    } else if (!hunk) {
+      return;
+    } else if (text.startsWith("|||||||") && section === "ours") {
+      hunk.base = [];
+      section = "base";
+    } else if (text.startsWith("=======") && section !== "theirs") {
+      section = "theirs";
+    } else if (text.startsWith(">>>>>>>") && section === "theirs") {
+      hunks.push({
+        file,
+        line: hunk.line,
+        ours: { text: hunk.ours.join("\n") },
+        base: hunk.base ? hunk.base.join("\n") : null,
+        theirs: { text: hunk.theirs.join("\n") },
+      });
+      hunk = null;
+    } else {
+      (section === "base" ? hunk.base! : hunk[section]).push(text);
+    }
+  });
+  return hunks;
+}
+
+/**
+ * Replace a conflicted file's hunks, in order, with their resolutions.
+ */
+export function applyResolutions(content: string, resolutions: string[]): string {
+  const out: string[] = [];
+  let next = 0;
+  let inHunk = false;
+  for (const text of content.split("\n")) {
+    if (!inHunk && text.startsWith("<<<<<<<")) {
+      inHunk = true;
+      const resolution = resolutions[next++];
+      if (resolution === undefined) throw new Error(`no resolution for conflict hunk ${next}`);
+      if (resolution !== "") out.push(...resolution.split("\n"));
+    } else if (inHunk && text.startsWith(">>>>>>>")) {
+      inHunk = false;
+    } else if (!inHunk) {
+      out.push(text);
+    }
+  }
+  return out.join("\n");
+}
+
+// ─── Ownership ───────────────────────────────────────────────────
+
+/**
+ * Paths each agent owns according to PLAN.md, from lines such as
+ * "frontend-dev owns src/components/ and public/". Paths are the words
+ * containing a "/" or a "."; directories end with "/".
+ */
+export function parseOwnership(plan: string): Map<string, string[]> {
+  const ownership = new Map<string, string[]>();
+  for (const line of plan.split("\n")) {
+    // Several "X owns ..." clauses may share a line
+    for (const clause of line.split(/(?<=\.)\s+(?=\S+\s+owns\s)/)) {
+      const match = /([a-z0-9][a-z0-9_-]*)\W*\s+owns\s+(.+)/i.exec(clause);
+      if (!match) continue;
+      const paths = match[2]!
+        .split(/[\s,;]+/)
+        .map((word) => word.replace(/^[`"'*(]+|[`"'*),;:.]+$/g, ""))
+        .filter((word) => /[/.]/.test(word) && !/^\.+$/.test(word));
+      if (paths.length === 0) continue;
+      const agent = match[1]!.toLowerCase();
+      ownership.set(agent, [...(ownership.get(agent) ?? []), ...paths]);
+    }
+  }
+  return ownership;
+}
+
+/**
+ * The agent owning `file`: the owner of the longest matching path, where
+ * a directory matches everything under it.
+ */
+export function ownerOf(ownership: Map<string, string[]>, file: string): string | undefined {
+  let best: { agent: string; length: number } | undefined;
+  for (const [agent, paths] of ownership) {
+    for (const raw of paths) {
+      const path = raw.replace(/^\.\//, "").replace(/\*+$/, "");
+      const matches = path.endsWith("/") ? file.startsWith(path) : file === path;
+      if (matches && path.length > (best?.length ?? -1)) best = { agent, length: path.length };
+    }
+  }
+  return best?.agent;
+}
+
+/**
+ * Attribute each hunk's sides: "theirs" is the work of the agent being
+ * merged; "ours" is taken to be the file's owner's when that is another
+ * agent, and is left unattributed otherwise.
+ */
+export function attributeHunks(
+  hunks: ConflictHunk[],
+  ownership: Map<string, string[]>,
+  mergingAgent: string,
+): ConflictHunk[] {
+  return hunks.map((hunk) => {
+    const owner = ownerOf(ownership, hunk.file);
+    return {
+      ...hunk,
+      ours: owner && owner !== mergingAgent ? { ...hunk.ours, agent: owner } : hunk.ours,
+      theirs: { ...hunk.theirs, agent: mergingAgent },
+      ...(owner ? { owner } : {}),
+    };
+  });
+}
+
+// ─── Handing hunks on ────────────────────────────────────────────
+
+/** A hunk as readable text: location, attribution and the three versions. */
+export function renderHunk(hunk: ConflictHunk): string {
+  const label = (name: string, side: ConflictSide) => (side.agent ? `${name} (${side.agent})` : name);
+  const block = (text: string) => (text === "" ? "(empty)" : text);
+  const lines = [
+    `${hunk.file}:${hunk.line}${hunk.owner ? `, owned by ${hunk.owner}` : ""}`,
+    `--- ${label("ours", hunk.ours)}`,
+    block(hunk.ours.text),
+  ];
+  if (hunk.base !== null) lines.push("--- base", block(hunk.base));
+  lines.push(`--- ${label("theirs", hunk.theirs)}`, block(hunk.theirs.text));
+  return lines.join("\n");
+}
+
+/** A review asking for the hunks to be resolved, one comment per hunk. */
+export function conflictReview(hunks: ConflictHunk[]): ReviewPayload {
+  return {
+    verdict: "request-changes",
+    comments: hunks.map((hunk) => ({ comment: renderHunk(hunk), file: hunk.file, line: hunk.line })),
+  };
+}
+
+// ─── Model resolver ──────────────────────────────────────────────
+
+const RESOLUTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    resolution: {
+      type: "string",
+      description: "The lines replacing the whole hunk, markers removed",
+    },
+    unresolved: {
+      type: "string",
+      description: "Instead of a resolution: why the hunk cannot be resolved without its authors",
+    },
+  },
+};
+
+const RESOLUTION_TOOL: Tool = {
+  name: "submit_resolution",
+  description: "Submit the resolved text of the conflict hunk, or why it cannot be resolved.",
+  input_schema: RESOLUTION_SCHEMA as Tool["input_schema"],
+};
+
+const RESOLVER_PROMPT = `You resolve one git merge conflict hunk between two agents' work on the same project.
+Combine both sides so that neither side's work is lost: keep every addition and change from both, and reconcile them where they overlap. Use the base version, when given, to tell what each side changed.
+Only drop a side's change when the other side clearly supersedes it. If the sides contradict each other and keeping both would be wrong, do not guess: submit "unresolved" with the reason instead.
+Submit the result with the submit_resolution tool. The resolution replaces the hunk exactly: no conflict markers, no commentary.`;
+
+/**
+ * A resolver that asks `model` to merge each hunk. It gives up on a hunk
+ * (returns null) when the model declines or answers without a valid
+ * resolution, leaving it to the owning agent.
+ */
+export function createModelResolver(client: ClaudeClient, model: string, agent?: string): HunkResolver {
+  return {
+    name: model,
+    async resolve(hunk: ConflictHunk): Promise<string | null> {
+      const result = await client.call({
+        model,
+        systemPrompt: RESOLVER_PROMPT,
+        messages: [{ role: "user", content: renderHunk(hunk) }],
+        tools: [RESOLUTION_TOOL],
+        toolChoice: { type: "tool", name: RESOLUTION_TOOL.name },
+        agent,
+        step: "execute",
+      });
+      const [call] = getToolUseBlocks(result.response);
+      if (!call) return null;
+      const { value, errors } = validateStructured<{ resolution?: string; unresolved?: string }>(
+        RESOLUTION_SCHEMA,
+        call.input,
+      );
+      if (errors.length > 0 || value.unresolved || value.resolution === undefined) return null;
+      return value.resolution.replace(/\n$/, "");
+    },
+  };
+}
@@ -139,6 +139,41 @@ describe("ContextManager", () => {
     expect(lastMsg).toContain("I need help with tests");
   });
 
+  test("assembleContext tells the agent how to answer a question", () => {
+    const cm = new ContextManager("claude-sonnet-4-6");
+    const question: QueueMessage = {
+      ...makeMessage("alice", "Which port does the API use?"),
+      type: "question",
+      correlationId: "c-1",
+      replyTo: "alice",
+    };
+    const messages = cm.assembleContext({
+      iterationStates: [],
+      currentMessages: [question],
+      currentIteration: 1,
+    });
+    expect(messages[0]!.content as string).toContain(
+      'send-message to="alice", type="reply", correlationId="c-1"',
+    );
+  });
+
+  test("assembleContext renders a completion's payload", () => {
+    const cm = new ContextManager("claude-sonnet-4-6");
+    const complete: QueueMessage = {
+      ...makeMessage("alice", "API built"),
+      type: "complete",
+      payload: { summary: "API built", branch: "agent/alice", commit: "abc123", filesChanged: ["api.ts"] },
+    };
+    const messages = cm.assembleContext({
+      iterationStates: [],
+      currentMessages: [complete],
+      currentIteration: 1,
+    });
+    expect(messages[0]!.content).toBe(
+      "[Message from alice] (type: complete) Summary: API built\nBranch: agent/alice @ abc123\nFiles changed: api.ts",
+    );
+  });
+
   test("assembleContext with no messages and no states returns empty", () => {
     const cm = new ContextManager("claude-sonnet-4-6");
     const messages = cm.assembleContext({
@@ -159,6 +194,24 @@ describe("ContextManager", () => {
     expect(messages).toHaveLength(1);
     expect((messages[0]!.content as string)).toContain("Start working");
   });
+
+  test("getStablePrefixLength covers finished iterations only", () => {
+    const cm = new ContextManager("claude-sonnet-4-6");
+    cm.assembleContext({
+      iterationStates: [
+        makeState(1, "plan", "plan 1", "out"),
+        makeState(1, "reflect", "reflect 1", "out"),
+        makeState(2, "plan", "plan 2", "out"),
+      ],
+      currentMessages: [makeMessage("bob", "keep going")],
+      currentIteration: 2,
+    });
+    // Iteration 1's two states; iteration 2 and the queue message can still change
+    expect(cm.getStablePrefixLength()).toBe(4);
+
+    cm.assembleContext({ iterationStates: [], currentMessages: [], currentIteration: 1 });
+    expect(cm.getStablePrefixLength()).toBe(0);
+  });
 });
 
 describe("compaction triggers", () => {
@@ -1,6 +1,7 @@
 import type { IterationState, IterationSummary, QueueMessage } from "./types.ts";
 import type { MessageParam } from "./claude-client.ts";
 import { getContextLimit } from "./claude-client.ts";
+import { formatMessageBody } from "./message-payloads.ts";
 
 /** Number of recent iterations kept in full detail. */
 const FULL_DETAIL_WINDOW = 5;
@@ -22,6 +23,7 @@ export type CompactionLevel = "none" | "soft" | "hard";
 export class ContextManager {
   private contextLimit: number;
   private currentTokenEstimate: number = 0;
+  private stablePrefixLength: number = 0;
 
   constructor(model: string) {
     this.contextLimit = getContextLimit(model);
@@ -34,6 +36,10 @@ export class ContextManager {
    * 1. Compacted summaries of old iterations (older than FULL_DETAIL_WINDOW)
    * 2. Full detail of recent iterations (last FULL_DETAIL_WINDOW)
    * 3. Current queue messages
+   *
+   * Messages for iterations before the current one do not change while
+   * the iteration runs; their count is available from
+   * getStablePrefixLength() for prompt caching.
    */
   assembleContext(params: {
     iterationStates: IterationState[];
@@ -43,6 +49,7 @@ export class ContextManager {
     const { iterationStates, currentMessages, currentIteration } = params;
 
     const messages: MessageParam[] = [];
+    this.stablePrefixLength = 0;
 
     // Group states by iteration
     const byIteration = groupByIteration(iterationStates);
@@ -65,6 +72,7 @@ export class ContextManager {
           role: "assistant",
           content: `Acknowledged iteration ${iterNum} summary.`,
         });
+        this.stablePrefixLength = messages.length;
       }
     }
 
@@ -83,15 +91,21 @@ export class ContextManager {
         messages.push({ role: "user", content: inputStr });
         messages.push({ role: "assistant", content: outputStr });
       }
+      if (iterNum < currentIteration) {
+        this.stablePrefixLength = messages.length;
+      }
     }
 
     // 3. Current queue messages
     if (currentMessages.length > 0) {
       const msgText = currentMessages
-        .map(
-          (m) =>
-            `[Message from ${m.from}] (type: ${m.type}) ${m.content}`,
-        )
+        .map((m) => {
+          const source = m.channel ? `${m.from} on #${m.channel}` : m.from;
+          const text = `[Message from ${source}] (type: ${m.type}) ${formatMessageBody(m)}`;
+          if (m.type !== "question" || !m.replyTo) return text;
+          // The asker is blocked in ask-agent until this reply arrives
+          return `${text}\n(${m.replyTo} is waiting for your answer: send-message to="${m.replyTo}", type="reply", correlationId="${m.correlationId}")`;
+        })
         .join("\n\n");
       messages.push({ role: "user", content: msgText });
     }
@@ -102,6 +116,14 @@ export class ContextManager {
     return messages;
   }
 
+  /**
+   * Number of leading messages in the last assembled context that cover
+   * finished iterations and stay the same for the rest of this one.
+   */
+  getStablePrefixLength(): number {
+    return this.stablePrefixLength;
+  }
+
   /**
    * Check if compaction is needed based on current utilization.
    */
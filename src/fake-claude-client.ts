@@ -0,0 +1,176 @@
+import type { ReflectDecision, StepType } from "./types.ts";
+import { ClaudeClient } from "./claude-client.ts";
+import type { CallParams, CallResult, Message } from "./claude-client.ts";
+import { makeMessage, textBlock, toolUseBlock } from "./providers/provider.ts";
+import { PLAN_OUTPUT, REFLECT_OUTPUT } from "./structured-output.ts";
+
+export interface ScriptedToolCall {
+  tool: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * What an agent "decides" in one life-loop iteration.
+ */
+export interface ScriptedIteration {
+  /** Plan returned by the plan step. */
+  plan?: string;
+  /** Complexity reported by plan; "simple" makes the next iteration take the fast path. */
+  complexity?: "simple" | "complex";
+  /** Tool calls made by execute (or plan-execute), one per turn. */
+  execute?: ScriptedToolCall[];
+  /** Final execute text once the tool calls are done. */
+  result?: string;
+  reflect: {
+    decision: ReflectDecision["decision"];
+    outcome?: string;
+    nextMessage?: string;
+    errorDetails?: string;
+    filesChanged?: string[];
+  };
+  /**
+   * Simulate the agent process dying when this step is reached: the call
+   * never returns. Fires only once, so a respawned agent replays the
+   * iteration normally.
+   */
+  crashAt?: StepType;
+}
+
+/** Scripted iterations keyed by agent name. */
+export type FakeScript = Record<string, ScriptedIteration[]>;
+
+interface AgentCursor {
+  iteration: number;
+  turn: number;
+  crashed: Set<number>;
+}
+
+const DEFAULT_TOKENS = { input: 100, output: 50 };
+
+/**
+ * Drop-in ClaudeClient that plays a declarative script instead of calling
+ * a model, so whole sessions can run offline. One instance serves one
+ * agent process; the agent and step come from CallParams. Reuse the
+ * instance across a simulated respawn so the script carries on from
+ * where the agent crashed.
+ */
+export class FakeClaudeClient extends ClaudeClient {
+  readonly calls: CallParams[] = [];
+  /** Resolves with the agent name once a scripted crash is reached. */
+  readonly crashed: Promise<string>;
+  private script: FakeScript;
+  private tokens: { input: number; output: number };
+  private cursors = new Map<string, AgentCursor>();
+  private onCrash!: (agent: string) => void;
+
+  constructor(
+    script: FakeScript,
+    tokens: { input: number; output: number } = DEFAULT_TOKENS,
+  ) {
+    super();
+    this.script = script;
+    this.tokens = tokens;
+    this.crashed = new Promise((resolve) => {
+      this.onCrash = resolve;
+    });
+  }
+
+  override async call(params: CallParams): Promise<CallResult> {
+    this.calls.push(params);
+    const { agent, step } = params;
+    if (!agent || !step) {
+      throw new Error("FakeClaudeClient: call is missing agent/step metadata");
+    }
+
+    const cursor = this.cursorFor(agent);
+    const scripted = this.script[agent]?.[cursor.iteration];
+    if (!scripted) {
+      throw new Error(
+        `FakeClaudeClient: no iteration ${cursor.iteration + 1} scripted for ${agent} (${step})`,
+      );
+    }
+
+    if (scripted.crashAt === step && !cursor.crashed.has(cursor.iteration)) {
+      cursor.crashed.add(cursor.iteration);
+      cursor.turn = 0;
+      this.onCrash(agent);
+      return new Promise<never>(() => {});
+    }
+
+    const response = this.respond(scripted, step, cursor);
+    return { response, tokensUsed: this.trackUsage(response) };
+  }
+
+  private respond(
+    scripted: ScriptedIteration,
+    step: StepType,
+    cursor: AgentCursor,
+  ): Message {
+    switch (step) {
+      case "plan":
+        return this.toolUse(PLAN_OUTPUT.tool.name, {
+          plan: scripted.plan ?? "Follow the script",
+          complexity: scripted.complexity ?? "complex",
+        });
+      case "execute":
+      case "plan-execute": {
+        const toolCall = scripted.execute?.[cursor.turn];
+        if (toolCall) {
+          cursor.turn++;
+          return this.toolUse(toolCall.tool, toolCall.input);
+        }
+        cursor.turn = 0;
+        return this.text(
+          scripted.result ??
+            JSON.stringify({ result: "done", complexity: scripted.complexity ?? "simple" }),
+        );
+      }
+      case "reflect": {
+        cursor.iteration++;
+        cursor.turn = 0;
+        const { decision, outcome, nextMessage, errorDetails, filesChanged } = scripted.reflect;
+        return this.toolUse(REFLECT_OUTPUT.tool.name, {
+          decision,
+          summary: {
+            iteration: cursor.iteration,
+            plan: scripted.plan ?? "Follow the script",
+            outcome: outcome ?? decision,
+            filesChanged: filesChanged ?? [],
+            decisions: [],
+          },
+          nextMessage,
+          errorDetails,
+        });
+      }
+    }
+  }
+
+  private text(text: string): Message {
+    return makeMessage({
+      model: "fake",
+      content: [textBlock(text)],
+      stopReason: "end_turn",
+      inputTokens: this.tokens.input,
+      outputTokens: this.tokens.output,
+    });
+  }
+
+  private toolUse(name: string, input: Record<string, unknown>): Message {
+    return makeMessage({
+      model: "fake",
+      content: [toolUseBlock(name, input)],
+      stopReason: "tool_use",
+      inputTokens: this.tokens.input,
+      outputTokens: this.tokens.output,
+    });
+  }
+
+  private cursorFor(agent: string): AgentCursor {
+    let cursor = this.cursors.get(agent);
+    if (!cursor) {
+      cursor = { iteration: 0, turn: 0, crashed: new Set() };
+      this.cursors.set(agent, cursor);
+    }
+    return cursor;
+  }
+}
@@ -3,6 +3,8 @@ import {
   initRepo,
   createGitignore,
   commitAll,
+  commitWithTrailers,
+  resetToCommit,
   cloneForAgent,
   checkoutBranch,
   addRemoteAndFetch,
@@ -10,6 +12,9 @@ import {
   mergeAgentBranch,
   pullOriginMain,
   gitExec,
+  addAgentWorktree,
+  hasAgentBranch,
+  restoreAgentWorktree,
 } from "./git-manager.ts";
 
 let tmpDir: string;
@@ -42,7 +47,7 @@ describe("initRepo", () => {
 });
 
 describe("createGitignore", () => {
-  test("creates .gitignore with state/ and logs/", async () => {
+  test("creates .gitignore with state/, logs/ and recordings/", async () => {
     const repoDir = `${tmpDir}/repo`;
     await initRepo(repoDir);
     await createGitignore(repoDir);
@@ -50,6 +55,7 @@ describe("createGitignore", () => {
     const content = await Bun.file(`${repoDir}/.gitignore`).text();
     expect(content).toContain("state/");
     expect(content).toContain("logs/");
+    expect(content).toContain("recordings/");
   });
 });
 
@@ -84,6 +90,69 @@ describe("commitAll", () => {
   });
 });
 
+describe("commitWithTrailers", () => {
+  test("commits all changes with the trailers after the message", async () => {
+    const repoDir = `${tmpDir}/repo`;
+    await initRepo(repoDir);
+    await commitAll(repoDir, "Initial commit");
+    await Bun.write(`${repoDir}/file1.txt`, "hello");
+
+    const commit = await commitWithTrailers(repoDir, "alice: iteration 1 execute", [
+      ["Agent", "alice"],
+      ["Message-Id", "m-1"],
+      ["Message-Id", "m-2"],
+    ]);
+
+    expect(commit).toBe((await gitExec(repoDir, ["rev-parse", "HEAD"])).stdout);
+    const message = await gitExec(repoDir, ["log", "-1", "--format=%B"]);
+    expect(message.stdout).toBe("alice: iteration 1 execute\n\nAgent: alice\nMessage-Id: m-1\nMessage-Id: m-2");
+  });
+
+  test("returns HEAD when there is nothing to commit", async () => {
+    const repoDir = `${tmpDir}/repo`;
+    await initRepo(repoDir);
+    await commitAll(repoDir, "Initial commit");
+    const head = (await gitExec(repoDir, ["rev-parse", "HEAD"])).stdout;
+
+    expect(await commitWithTrailers(repoDir, "no changes", [["Agent", "alice"]])).toBe(head);
+  });
+
+  test("never commits to a repo the directory is only inside of", async () => {
+    const repoDir = `${tmpDir}/repo`;
+    await initRepo(repoDir);
+    await commitAll(repoDir, "Initial commit");
+    await Bun.write(`${repoDir}/sub/file1.txt`, "hello");
+
+    expect(await commitWithTrailers(`${repoDir}/sub`, "sub", [])).toBeNull();
+    expect(await commitWithTrailers(`${tmpDir}`, "not a repo", [])).toBeNull();
+    const log = await gitExec(repoDir, ["log", "--oneline"]);
+    expect(log.stdout.split("\n")).toHaveLength(1);
+  });
+});
+
+describe("resetToCommit", () => {
+  test("discards later commits, changes and untracked files but keeps state/", async () => {
+    const repoDir = `${tmpDir}/repo`;
+    await initRepo(repoDir);
+    await createGitignore(repoDir);
+    await Bun.write(`${repoDir}/app.ts`, "v1\n");
+    await commitAll(repoDir, "v1");
+    const v1 = (await gitExec(repoDir, ["rev-parse", "HEAD"])).stdout;
+    await Bun.write(`${repoDir}/app.ts`, "v2\n");
+    await commitAll(repoDir, "v2");
+    await Bun.write(`${repoDir}/app.ts`, "v3\n");
+    await Bun.write(`${repoDir}/scratch.ts`, "half done\n");
+    await Bun.write(`${repoDir}/state/iteration-2-plan.json`, "{}");
+
+    const result = await resetToCommit(repoDir, v1);
+
+    expect(result.exitCode).toBe(0);
+    expect(await Bun.file(`${repoDir}/app.ts`).text()).toBe("v1\n");
+    expect(await Bun.file(`${repoDir}/scratch.ts`).exists()).toBe(false);
+    expect(await Bun.file(`${repoDir}/state/iteration-2-plan.json`).exists()).toBe(true);
+  });
+});
+
 describe("cloneForAgent", () => {
   test("clones repo and creates agent branch", async () => {
     const leaderDir = `${tmpDir}/bob`;
@@ -242,3 +311,66 @@ describe("state/ and logs/ are gitignored", () => {
     expect(status.stdout).not.toContain("logs/");
   });
 });
+
+describe("agent worktrees", () => {
+  async function leaderRepo(): Promise<string> {
+    const leaderDir = `${tmpDir}/bob`;
+    await initRepo(leaderDir);
+    await createGitignore(leaderDir);
+    await commitAll(leaderDir, "Initial commit");
+    return leaderDir;
+  }
+
+  test("the leader sees a worktree agent's commits without fetching", async () => {
+    const leaderDir = await leaderRepo();
+    const aliceDir = `${tmpDir}/alice`;
+    await addAgentWorktree(leaderDir, aliceDir, "alice");
+
+    const branch = await gitExec(aliceDir, ["branch", "--show-current"]);
+    expect(branch.stdout).toBe("agent/alice");
+    expect(await hasAgentBranch(leaderDir, "alice")).toBe(true);
+    expect(await hasAgentBranch(leaderDir, "carol")).toBe(false);
+
+    await Bun.write(`${aliceDir}/api.ts`, "export const ok = true;");
+    await commitAll(aliceDir, "Add API");
+    const merged = await mergeAgentBranch(leaderDir, "alice", { ref: "agent/alice" });
+    expect(merged.exitCode).toBe(0);
+    expect(await Bun.file(`${leaderDir}/api.ts`).exists()).toBe(true);
+    const remotes = await gitExec(leaderDir, ["remote"]);
+    expect(remotes.stdout).toBe("");
+  });
+
+  test("a deleted worktree is checked out again with the agent's commits", async () => {
+    const leaderDir = await leaderRepo();
+    const aliceDir = `${tmpDir}/alice`;
+    await addAgentWorktree(leaderDir, aliceDir, "alice");
+    await Bun.write(`${aliceDir}/api.ts`, "export const ok = true;");
+    await commitAll(aliceDir, "Add API");
+    await Bun.$`rm -rf ${aliceDir}`.quiet();
+
+    const restored = await restoreAgentWorktree(leaderDir, aliceDir, "alice");
+
+    expect(restored.exitCode).toBe(0);
+    expect(await Bun.file(`${aliceDir}/api.ts`).text()).toBe("export const ok = true;");
+    const branch = await gitExec(aliceDir, ["branch", "--show-current"]);
+    expect(branch.stdout).toBe("agent/alice");
+  });
+
+  test("worktrees are reconnected after the workspace moves", async () => {
+    const leaderDir = await leaderRepo();
+    await addAgentWorktree(leaderDir, `${tmpDir}/alice`, "alice");
+    const moved = `${tmpDir}-moved`;
+    await Bun.$`mv ${tmpDir} ${moved}`.quiet();
+    try {
+      const restored = await restoreAgentWorktree(`${moved}/bob`, `${moved}/alice`, "alice");
+
+      expect(restored.exitCode).toBe(0);
+      const status = await gitExec(`${moved}/alice`, ["status", "--porcelain"]);
+      expect(status.exitCode).toBe(0);
+      const list = await gitExec(`${moved}/bob`, ["worktree", "list"]);
+      expect(list.stdout).toContain(`${moved}/alice`);
+    } finally {
+      await Bun.$`rm -rf ${moved}`.quiet();
+    }
+  });
+});
@@ -1,3 +1,5 @@
+import { resolve } from "node:path";
+
 export interface GitResult {
   stdout: string;
   stderr: string;
@@ -20,21 +22,21 @@ export async function gitExec(
 }
 
 /**
- * Initialize a new git repo.
+ * Initialize a new git repo on branch main, whatever git's default is.
  */
 export async function initRepo(workDir: string): Promise<void> {
   await Bun.$`mkdir -p ${workDir}`.quiet();
-  await Bun.$`git init ${workDir}`.quiet();
+  await Bun.$`git init -b main ${workDir}`.quiet();
   // Set user info for commits within this repo
   await Bun.$`git -C ${workDir} config user.email sealteam@local`.quiet();
   await Bun.$`git -C ${workDir} config user.name SealTeam`.quiet();
 }
 
 /**
- * Create a .gitignore that excludes state/ and logs/.
+ * Create a .gitignore that excludes state/, logs/ and recordings/.
  */
 export async function createGitignore(workDir: string): Promise<void> {
-  const content = `state/\nlogs/\n`;
+  const content = `state/\nlogs/\nrecordings/\n`;
   await Bun.write(`${workDir}/.gitignore`, content);
 }
 
@@ -50,6 +52,47 @@ export async function commitAll(
   return gitExec(workDir, ["commit", "-m", message, "--allow-empty"]);
 }
 
+/**
+ * Stage all changes in the repo at `workDir` and commit them, ending the
+ * message with `trailers` ("Key: value" lines; a key may repeat). Returns
+ * the new commit, or HEAD if there was nothing to commit or a merge left
+ * unmerged files; null if `workDir` is not the top of a git repo with
+ * commits (a parent repo is never committed to).
+ */
+export async function commitWithTrailers(
+  workDir: string,
+  message: string,
+  trailers: [string, string][],
+): Promise<string | null> {
+  const prefix = await gitExec(workDir, ["rev-parse", "--show-prefix"]);
+  if (prefix.exitCode !== 0 || prefix.stdout !== "") return null;
+  // Committing conflict markers would conclude the merge with them
+  const unmerged = await gitExec(workDir, ["ls-files", "--unmerged"]);
+  if (!unmerged.stdout) {
+    await gitExec(workDir, ["add", "-A"]);
+    await gitExec(workDir, [
+      "commit", "-m", message,
+      ...trailers.flatMap(([key, value]) => ["--trailer", `${key}: ${value}`]),
+    ]);
+  }
+  const head = await gitExec(workDir, ["rev-parse", "HEAD"]);
+  return head.exitCode === 0 ? head.stdout : null;
+}
+
+/**
+ * Reset the working tree at `workDir` to `commit`, discarding uncommitted
+ * changes and untracked files (ignored files such as state/ are kept).
+ */
+export async function resetToCommit(
+  workDir: string,
+  commit: string,
+): Promise<GitResult> {
+  const result = await gitExec(workDir, ["reset", "--hard", commit]);
+  if (result.exitCode !== 0) return result;
+  await gitExec(workDir, ["clean", "-fd"]);
+  return result;
+}
+
 /**
  * Clone the leader's repo for a new agent and checkout a branch.
  */
@@ -65,6 +108,55 @@ export async function cloneForAgent(
   await Bun.$`git -C ${agentDir} checkout -b agent/${agentName}`.quiet();
 }
 
+/**
+ * Check out a new branch agent/<name> for an agent in a linked worktree
+ * of the leader's repo at `agentDir`, instead of cloning it. The worktree
+ * shares the leader's objects and refs, so the leader sees the agent's
+ * commits without a remote or fetch.
+ */
+export async function addAgentWorktree(
+  leaderDir: string,
+  agentDir: string,
+  agentName: string,
+): Promise<void> {
+  // Relative paths would be taken relative to the leader's repo
+  await Bun.$`git -C ${leaderDir} worktree add -b agent/${agentName} ${resolve(agentDir)}`.quiet();
+}
+
+/**
+ * Whether agent/<name> is a branch of the leader's repo itself, as it is
+ * for agents working in a worktree (see addAgentWorktree).
+ */
+export async function hasAgentBranch(
+  leaderDir: string,
+  agentName: string,
+): Promise<boolean> {
+  const result = await gitExec(leaderDir, [
+    "rev-parse", "--verify", "--quiet", `refs/heads/agent/${agentName}`,
+  ]);
+  return result.exitCode === 0;
+}
+
+/**
+ * Make an agent's worktree usable again when resuming a session. A
+ * worktree that still exists is reconnected with the leader's repo, in
+ * case the workspace was moved (both sides record absolute paths). One
+ * whose directory is gone is checked out again from agent/<name>, which
+ * still holds everything the agent committed.
+ */
+export async function restoreAgentWorktree(
+  leaderDir: string,
+  agentDir: string,
+  agentName: string,
+): Promise<GitResult> {
+  const path = resolve(agentDir);
+  if (await Bun.file(`${path}/.git`).exists()) {
+    return gitExec(leaderDir, ["worktree", "repair", path]);
+  }
+  await gitExec(leaderDir, ["worktree", "prune"]);
+  return gitExec(leaderDir, ["worktree", "add", path, `agent/${agentName}`]);
+}
+
 /**
  * Create and checkout a new branch.
  */
@@ -106,16 +198,23 @@ export async function getDiff(
 }
 
 /**
- * Merge an agent's branch into main (no-ff).
+ * Merge an agent's branch (or `ref`, e.g. a commit on it) into main
+ * (no-ff). With `commit: false` the merge is left staged, to be
+ * committed or aborted by the caller. Conflicts are written diff3-style,
+ * with the merge base's version between the two sides.
  */
 export async function mergeAgentBranch(
   leaderDir: string,
   agentName: string,
+  options: { ref?: string; commit?: boolean } = {},
 ): Promise<GitResult> {
   return gitExec(leaderDir, [
+    "-c",
+    "merge.conflictStyle=diff3",
     "merge",
-    `${agentName}/agent/${agentName}`,
+    options.ref ?? `${agentName}/agent/${agentName}`,
     "--no-ff",
+    ...(options.commit === false ? ["--no-commit"] : []),
     "-m",
     `Merge agent/${agentName}`,
   ]);
@@ -127,3 +226,16 @@ export async function mergeAgentBranch(
 export async function pullOriginMain(workDir: string): Promise<GitResult> {
   return gitExec(workDir, ["pull", "origin", "main"]);
 }
+
+/**
+ * Current branch and commit of a working directory; null if it is not a
+ * git repo or has no commits yet.
+ */
+export async function currentHead(
+  workDir: string,
+): Promise<{ branch: string; commit: string } | null> {
+  const commit = await gitExec(workDir, ["rev-parse", "HEAD"]);
+  if (commit.exitCode !== 0) return null;
+  const branch = await gitExec(workDir, ["rev-parse", "--abbrev-ref", "HEAD"]);
+  return { branch: branch.stdout, commit: commit.stdout };
+}
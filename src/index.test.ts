@@ -1,7 +1,19 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
-import { parseCLIArgs, validateOptions, main } from "./index.ts";
-import type { CLIOptions } from "./types.ts";
-import { readSessionState } from "./state-manager.ts";
+import {
+  parseCLIArgs,
+  parseMessagesArgs,
+  parseSessionsArgs,
+  formatSessionSummary,
+  validateOptions,
+  main,
+  updateSessionCost,
+  sessionCost,
+  sessionSettings,
+  loadReplayOptions,
+  recoveryOptions,
+} from "./index.ts";
+import type { AgentConfig, CLIOptions, SessionState } from "./types.ts";
+import { readSessionState, writeSessionState, writeAgentUsage } from "./state-manager.ts";
 
 // ─── CLI Argument Parsing ────────────────────────────────────────
 
@@ -16,6 +28,16 @@ describe("parseCLIArgs", () => {
     "VALKEY_URL",
     "SEALTEAM_LEADER_MODEL",
     "SEALTEAM_TEAM_MODEL",
+    "SEALTEAM_MAX_COST",
+    "SEALTEAM_FALLBACK_MODELS",
+    "SEALTEAM_RPM",
+    "SEALTEAM_TPM",
+    "SEALTEAM_QUEUE_DEPTH",
+    "SEALTEAM_QUEUE_OVERFLOW",
+    "SEALTEAM_VERIFY_COMMAND",
+    "SEALTEAM_WORKTREES",
+    "SEALTEAM_SYNC",
+    "SEALTEAM_LEADER_THINKING",
   ];
 
   beforeEach(() => {
@@ -124,6 +146,97 @@ describe("parseCLIArgs", () => {
     expect(opts.resumeFrom).toBe("/tmp/old-workspace");
   });
 
+  test("parses --record and --replay options", () => {
+    const recording = parseCLIArgs(["bun", "src/index.ts", "--record", "Goal"]);
+    expect(recording.record).toBe(true);
+    expect(recording.goal).toBe("Goal");
+
+    const replaying = parseCLIArgs([
+      "bun", "src/index.ts",
+      "--replay", "/tmp/recorded",
+      "--workspace", "/tmp/replay",
+    ]);
+    expect(replaying.replayFrom).toBe("/tmp/recorded");
+    expect(replaying.goal).toBe("");
+  });
+
+  test("parses --max-cost from flag or env", () => {
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).maxCost).toBeUndefined();
+    expect(parseCLIArgs(["bun", "src/index.ts", "--max-cost", "2.50", "Goal"]).maxCost).toBe(2.5);
+
+    process.env.SEALTEAM_MAX_COST = "10";
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).maxCost).toBe(10);
+  });
+
+  test("parses --fallback-models from flag or env", () => {
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).fallbackModels).toBeUndefined();
+    const opts = parseCLIArgs([
+      "bun", "src/index.ts", "--fallback-models", "claude-sonnet-4-6, claude-haiku-4-5", "Goal",
+    ]);
+    expect(opts.fallbackModels).toEqual(["claude-sonnet-4-6", "claude-haiku-4-5"]);
+
+    process.env.SEALTEAM_FALLBACK_MODELS = "claude-haiku-4-5";
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).fallbackModels).toEqual(["claude-haiku-4-5"]);
+  });
+
+  test("parses --rpm and --tpm from flag or env", () => {
+    const opts = parseCLIArgs(["bun", "src/index.ts", "--rpm", "50", "--tpm", "40000", "Goal"]);
+    expect(opts.rpm).toBe(50);
+    expect(opts.tpm).toBe(40000);
+
+    process.env.SEALTEAM_TPM = "80000";
+    const fromEnv = parseCLIArgs(["bun", "src/index.ts", "Goal"]);
+    expect(fromEnv.rpm).toBeUndefined();
+    expect(fromEnv.tpm).toBe(80000);
+  });
+
+  test("parses the queue limit from flag or env", () => {
+    const opts = parseCLIArgs(["bun", "src/index.ts", "--queue-depth", "20", "--queue-overflow", "coalesce", "Goal"]);
+    expect(opts.queueDepth).toBe(20);
+    expect(opts.queueOverflow).toBe("coalesce");
+
+    process.env.SEALTEAM_QUEUE_DEPTH = "8";
+    const fromEnv = parseCLIArgs(["bun", "src/index.ts", "Goal"]);
+    expect(fromEnv.queueDepth).toBe(8);
+    expect(fromEnv.queueOverflow).toBeUndefined();
+  });
+
+  test("parses the merge verification command from flag or env", () => {
+    const opts = parseCLIArgs(["bun", "src/index.ts", "--verify-command", "bun test", "Goal"]);
+    expect(opts.verifyCommand).toBe("bun test");
+
+    process.env.SEALTEAM_VERIFY_COMMAND = "make check";
+    const fromEnv = parseCLIArgs(["bun", "src/index.ts", "Goal"]);
+    expect(fromEnv.verifyCommand).toBe("make check");
+  });
+
+  test("parses --worktrees or SEALTEAM_WORKTREES=1", () => {
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).worktrees).toBe(false);
+    expect(parseCLIArgs(["bun", "src/index.ts", "--worktrees", "Goal"]).worktrees).toBe(true);
+
+    process.env.SEALTEAM_WORKTREES = "1";
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).worktrees).toBe(true);
+  });
+
+  test("parses the branch sync mode, merging by default", () => {
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).sync).toBe("merge");
+    expect(parseCLIArgs(["bun", "src/index.ts", "--sync", "off", "Goal"]).sync).toBe("off");
+    expect(parseCLIArgs(["bun", "src/index.ts", "--sync", "rebase", "Goal"]).sync).toBe("rebase");
+
+    process.env.SEALTEAM_SYNC = "off";
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).sync).toBe("off");
+  });
+
+  test("parses the leader's thinking budgets from flag or env", () => {
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).leaderThinking).toEqual({ plan: 8192, reflect: 4096 });
+    expect(parseCLIArgs(["bun", "src/index.ts", "--leader-thinking", "plan=16000", "Goal"]).leaderThinking)
+      .toEqual({ plan: 16000 });
+    expect(parseCLIArgs(["bun", "src/index.ts", "--leader-thinking", "off", "Goal"]).leaderThinking).toEqual({});
+
+    process.env.SEALTEAM_LEADER_THINKING = "plan=2048, reflect=1024";
+    expect(parseCLIArgs(["bun", "src/index.ts", "Goal"]).leaderThinking).toEqual({ plan: 2048, reflect: 1024 });
+  });
+
   test("goal is empty string when not provided", () => {
     const opts = parseCLIArgs(["bun", "src/index.ts"]);
     expect(opts.goal).toBe("");
@@ -191,6 +304,37 @@ describe("validateOptions", () => {
     expect(validateOptions(opts)).toBeNull();
   });
 
+  test("allows missing goal and API key when replaying", () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    const opts: CLIOptions = {
+      goal: "",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "/tmp/replay",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      replayFrom: "/tmp/recorded",
+    };
+    expect(validateOptions(opts)).toBeNull();
+  });
+
+  test("returns error when replaying into the recorded workspace", () => {
+    const opts: CLIOptions = {
+      goal: "",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "/tmp/recorded/",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      replayFrom: "/tmp/recorded",
+    };
+    expect(validateOptions(opts)).toContain("fresh --workspace");
+  });
+
   test("returns error when ANTHROPIC_API_KEY is missing", () => {
     delete process.env.ANTHROPIC_API_KEY;
     const opts: CLIOptions = {
@@ -241,6 +385,281 @@ describe("validateOptions", () => {
     expect(err).not.toBeNull();
     expect(err).toContain("max-iterations");
   });
+
+  test("returns error when max cost is not a positive number", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      maxCost: NaN,
+    };
+    expect(validateOptions(opts)).toContain("max-cost");
+    expect(validateOptions({ ...opts, maxCost: 0 })).toContain("max-cost");
+    expect(validateOptions({ ...opts, maxCost: 1 })).toBeNull();
+  });
+
+  test("returns error when a rate limit is not a positive number", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      rpm: NaN,
+    };
+    expect(validateOptions(opts)).toContain("--rpm");
+    expect(validateOptions({ ...opts, rpm: undefined, tpm: 0 })).toContain("--tpm");
+    expect(validateOptions({ ...opts, rpm: 50, tpm: 40000 })).toBeNull();
+  });
+
+  test("returns error for an invalid queue limit", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      queueDepth: 0,
+    };
+    expect(validateOptions(opts)).toContain("--queue-depth");
+    expect(validateOptions({ ...opts, queueDepth: 20, queueOverflow: "drop" as never })).toBe(
+      'Error: --queue-overflow must be "reject" or "coalesce", got "drop".',
+    );
+    expect(validateOptions({ ...opts, queueDepth: 20, queueOverflow: "coalesce" })).toBeNull();
+  });
+
+  test("returns error for an unknown sync mode", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+      sync: "squash" as never,
+    };
+    expect(validateOptions(opts)).toBe('Error: --sync must be "off", "merge" or "rebase", got "squash".');
+    expect(validateOptions({ ...opts, sync: "rebase" })).toBeNull();
+  });
+
+  test("refuses a spend cap when a model has no price", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "local:llama3",
+      fallbackModels: ["claude-mystery-1"],
+    };
+    expect(validateOptions(opts)).toBeNull();
+    expect(validateOptions({ ...opts, maxCost: 5 })).toBe(
+      "Error: --max-cost cannot be enforced: there is no price for claude-mystery-1 in src/pricing.ts.",
+    );
+    expect(validateOptions({ ...opts, maxCost: 5, fallbackModels: ["claude-haiku-4-5"] })).toBeNull();
+  });
+
+  test("returns error for a bad leader thinking budget", () => {
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    const opts: CLIOptions = {
+      goal: "Do it",
+      workers: 6,
+      budget: 100000,
+      maxIterations: 50,
+      workspace: "./workspace",
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-sonnet-4-6",
+    };
+    const parse = (value: string) => parseCLIArgs(["bun", "src/index.ts", "--leader-thinking", value]).leaderThinking;
+    expect(validateOptions({ ...opts, leaderThinking: parse("think=4096") })).toBe(
+      'Error: --leader-thinking has an unknown step "think"; use plan, execute, plan-execute, reflect or "off".',
+    );
+    expect(validateOptions({ ...opts, leaderThinking: parse("plan") })).toBe(
+      "Error: --leader-thinking budget for plan must be a positive number of tokens.",
+    );
+    expect(validateOptions({ ...opts, leaderThinking: parse("plan=0") })).toContain("--leader-thinking");
+    expect(validateOptions({ ...opts, leaderThinking: parse("execute=2048") })).toBeNull();
+  });
+});
+
+describe("session settings", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = `/tmp/sealteam-settings-test-${crypto.randomUUID()}`;
+    await Bun.$`mkdir -p ${tmpDir}`.quiet();
+  });
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${tmpDir}`.quiet();
+  });
+
+  test("a replay runs with every setting the session was recorded with", async () => {
+    const recorded: CLIOptions = {
+      goal: "Build a todo app",
+      workers: 3,
+      budget: 50000,
+      maxIterations: 20,
+      workspace: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      leaderModel: "claude-opus-4-6",
+      teamModel: "claude-haiku-4-5",
+      fallbackModels: ["claude-sonnet-4-6"],
+      leaderThinking: { plan: 16000 },
+      maxCost: 5,
+      rpm: 50,
+      tpm: 40000,
+      queueDepth: 20,
+      queueOverflow: "coalesce",
+      verifyCommand: "bun test",
+      worktrees: true,
+      sync: "rebase",
+    };
+    const session: SessionState = {
+      goal: recorded.goal,
+      startTime: Date.now(),
+      workspace: tmpDir,
+      valkeyUrl: recorded.valkeyUrl,
+      agents: [],
+      status: "completed",
+      settings: sessionSettings(recorded),
+    };
+    await writeSessionState(tmpDir, session);
+
+    const replaying = parseCLIArgs(["bun", "src/index.ts", "--replay", tmpDir, "--workspace", `${tmpDir}-replay`]);
+    const options = await loadReplayOptions(replaying);
+
+    expect(options).toEqual({ ...recorded, workspace: `${tmpDir}-replay`, replayFrom: tmpDir, record: false, flags: [] });
+  });
+
+  test("a resumed session keeps its settings unless a flag overrides them", () => {
+    const session: SessionState = {
+      goal: "Build a todo app",
+      startTime: Date.now(),
+      workspace: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      agents: [],
+      status: "running",
+      settings: {
+        workers: 3,
+        budget: 50000,
+        maxIterations: 20,
+        leaderModel: "claude-opus-4-6",
+        teamModel: "claude-haiku-4-5",
+        maxCost: 5,
+        rpm: 50,
+        verifyCommand: "bun test",
+        worktrees: true,
+        sync: "rebase",
+      },
+    };
+
+    const resuming = parseCLIArgs(["bun", "src/index.ts", "--resume-from", tmpDir, "--rpm", "20", "--sync", "off"]);
+    const options = recoveryOptions(resuming, session);
+
+    expect(options).toMatchObject({
+      workers: 3,
+      budget: 50000,
+      maxIterations: 20,
+      teamModel: "claude-haiku-4-5",
+      maxCost: 5,
+      rpm: 20,
+      verifyCommand: "bun test",
+      worktrees: true,
+      sync: "off",
+    });
+  });
+
+  test("a resumed session from before settings keeps its spend cap", () => {
+    const session: SessionState = {
+      goal: "Build a todo app",
+      startTime: Date.now(),
+      workspace: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      agents: [],
+      status: "running",
+      maxCost: 2,
+    };
+    const resuming = parseCLIArgs(["bun", "src/index.ts", "--resume-from", tmpDir]);
+
+    expect(recoveryOptions(resuming, session).maxCost).toBe(2);
+    expect(recoveryOptions({ ...resuming, maxCost: 4, flags: ["maxCost"] }, session).maxCost).toBe(4);
+  });
+});
+
+describe("parseMessagesArgs", () => {
+  test("parses the workspace and filters", () => {
+    expect(parseMessagesArgs(["./ws", "--agent", "alice", "--type", "review"])).toEqual({
+      workspace: "./ws",
+      agent: "alice",
+      type: "review",
+    });
+    expect(parseMessagesArgs(["./ws"])).toEqual({ workspace: "./ws", agent: undefined, type: undefined });
+  });
+
+  test("rejects a missing workspace, unknown types and stray arguments", () => {
+    expect(parseMessagesArgs(["--agent", "alice"])).toContain("workspace");
+    expect(parseMessagesArgs(["./ws", "--type", "gossip"])).toContain("--type must be one of");
+    expect(parseMessagesArgs(["./ws", "extra"])).toContain('"extra"');
+  });
+});
+
+describe("parseSessionsArgs", () => {
+  test("takes the Valkey URL from the flag, then VALKEY_URL", () => {
+    const saved = process.env.VALKEY_URL;
+    process.env.VALKEY_URL = "valkey://ci:6379";
+    try {
+      expect(parseSessionsArgs([])).toEqual({ valkeyUrl: "valkey://ci:6379" });
+      expect(parseSessionsArgs(["--valkey-url", "valkey://other:6380"])).toEqual({
+        valkeyUrl: "valkey://other:6380",
+      });
+    } finally {
+      if (saved === undefined) delete process.env.VALKEY_URL;
+      else process.env.VALKEY_URL = saved;
+    }
+  });
+
+  test("rejects stray arguments", () => {
+    expect(parseSessionsArgs(["./ws"])).toContain('"./ws"');
+  });
+});
+
+describe("formatSessionSummary", () => {
+  test("shows start time, workspace, agents, queued messages and channels", () => {
+    const text = formatSessionSummary({
+      sessionId: "3f9c2a1b",
+      info: { workspace: "./workspace", goal: "Build", startTime: Date.UTC(2026, 2, 2, 14, 5, 11) },
+      agents: ["alice", "bob"],
+      queued: 3,
+      channels: ["api"],
+    });
+    expect(text).toBe(
+      "3f9c2a1b  started 2026-03-02 14:05:11  ./workspace\n  agents: alice, bob  queued: 3  channels: #api",
+    );
+    expect(formatSessionSummary({ sessionId: "x", agents: [], queued: 0, channels: [] }))
+      .toBe("x  no session info\n  agents: none  queued: 0");
+  });
 });
 
 // ─── Main Process (workspace creation) ───────────────────────────
@@ -328,6 +747,63 @@ describe("main - workspace creation", () => {
   });
 });
 
+// ─── Cost Tracking ───────────────────────────────────────────────
+
+describe("updateSessionCost", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = `/tmp/sealteam-index-test-${crypto.randomUUID()}`;
+    await Bun.$`mkdir -p ${tmpDir}`.quiet();
+  });
+
+  afterEach(async () => {
+    await Bun.$`rm -rf ${tmpDir}`.quiet().nothrow();
+  });
+
+  function agent(name: string): SessionState["agents"][number] {
+    const config = { name, workspacePath: tmpDir } as AgentConfig;
+    return { config, pid: 1, status: "running", startTime: Date.now() };
+  }
+
+  test("copies agent usage into session.json and totals the cost", async () => {
+    await writeSessionState(tmpDir, {
+      goal: "Goal",
+      startTime: Date.now(),
+      workspace: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      agents: [agent("bob"), agent("alice"), agent("carol")],
+      status: "running",
+    });
+    await writeAgentUsage(`${tmpDir}/bob`, { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, cost: 1.5 });
+    await writeAgentUsage(`${tmpDir}/alice`, { input: 20, output: 5, cacheRead: 0, cacheWrite: 0, cost: 0.25 });
+
+    expect(await updateSessionCost(tmpDir)).toBe(1.75);
+
+    const session = await readSessionState(tmpDir);
+    expect(session!.cost).toBe(1.75);
+    expect(session!.agents[0]!.usage).toMatchObject({ input: 10, cost: 1.5 });
+    expect(session!.agents[2]!.usage).toBeUndefined();
+  });
+
+  test("totals the cost during the session without rewriting session.json", async () => {
+    await writeSessionState(tmpDir, {
+      goal: "Goal",
+      startTime: Date.now(),
+      workspace: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      agents: [agent("bob"), agent("alice")],
+      status: "running",
+    });
+    await writeAgentUsage(`${tmpDir}/bob`, { input: 10, output: 5, cacheRead: 0, cacheWrite: 0, cost: 1.5 });
+    await writeAgentUsage(`${tmpDir}/alice`, { input: 20, output: 5, cacheRead: 0, cacheWrite: 0, cost: 0.25 });
+    const before = await Bun.file(`${tmpDir}/session.json`).text();
+
+    expect(await sessionCost(tmpDir)).toBe(1.75);
+    expect(await Bun.file(`${tmpDir}/session.json`).text()).toBe(before);
+  });
+});
+
 // ─── formatDuration (smoke test via import) ──────────────────────
 
 describe("utility functions", () => {
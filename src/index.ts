@@ -1,21 +1,41 @@
+import { resolve } from "node:path";
 import type {
   AgentConfig,
   CLIOptions,
   SessionState,
+  SessionSettings,
   AgentSessionEntry,
+  MessageType,
   QueueMessage,
+  QueueOverflow,
+  StepType,
+  SyncMode,
+  TokenUsage,
 } from "./types.ts";
-import { MessageQueue } from "./message-queue.ts";
+import { MessageQueue, newSessionId, sessionNamespace } from "./message-queue.ts";
+import type { SessionSummary } from "./message-queue.ts";
+import {
+  MESSAGE_TYPES,
+  filterMessageHistory,
+  formatMessageRecord,
+  messageHistoryPath,
+  readMessageHistory,
+} from "./message-history.ts";
+import type { MessageFilter } from "./message-history.ts";
+import { checkModelProvider } from "./claude-client.ts";
+import { formatCost, getModelPrice } from "./pricing.ts";
 import {
   initRepo,
   createGitignore,
   commitAll,
+  restoreAgentWorktree,
 } from "./git-manager.ts";
 import {
   ensureDirectories,
   readSessionState,
   writeSessionState,
   getLastCompletedStep,
+  readAgentUsage,
 } from "./state-manager.ts";
 import {
   logMainStart,
@@ -32,6 +52,12 @@ import {
 
 // ─── CLI Argument Parsing ────────────────────────────────────────
 
+// Leader thinks before planning and reflecting, where architecture and
+// merge decisions are made; its tool turns run without thinking
+const DEFAULT_LEADER_THINKING = "plan=8192,reflect=4096";
+
+const STEP_TYPES: StepType[] = ["plan", "execute", "plan-execute", "reflect"];
+
 export function parseCLIArgs(argv: string[]): CLIOptions {
   // Find the goal (first non-option argument after the script name)
   // argv is typically: ["bun", "src/index.ts", ...options, "goal"]
@@ -44,28 +70,85 @@ export function parseCLIArgs(argv: string[]): CLIOptions {
   let valkeyUrl = process.env.VALKEY_URL ?? "valkey://localhost:6379";
   let leaderModel = process.env.SEALTEAM_LEADER_MODEL ?? "claude-opus-4-6";
   let teamModel = process.env.SEALTEAM_TEAM_MODEL ?? "claude-sonnet-4-6";
+  let fallbackModels = parseModelList(process.env.SEALTEAM_FALLBACK_MODELS);
+  let leaderThinking = parseThinkingBudgets(process.env.SEALTEAM_LEADER_THINKING ?? DEFAULT_LEADER_THINKING);
   let resumeFrom: string | undefined;
+  let record = process.env.SEALTEAM_RECORD === "1";
+  let replayFrom: string | undefined;
+  let maxCost = process.env.SEALTEAM_MAX_COST
+    ? parseFloat(process.env.SEALTEAM_MAX_COST)
+    : undefined;
+  let rpm = process.env.SEALTEAM_RPM ? parseInt(process.env.SEALTEAM_RPM, 10) : undefined;
+  let tpm = process.env.SEALTEAM_TPM ? parseInt(process.env.SEALTEAM_TPM, 10) : undefined;
+  let queueDepth = process.env.SEALTEAM_QUEUE_DEPTH
+    ? parseInt(process.env.SEALTEAM_QUEUE_DEPTH, 10)
+    : undefined;
+  let queueOverflow = process.env.SEALTEAM_QUEUE_OVERFLOW as QueueOverflow | undefined;
+  let verifyCommand = process.env.SEALTEAM_VERIFY_COMMAND || undefined;
+  let worktrees = process.env.SEALTEAM_WORKTREES === "1";
+  let sync = (process.env.SEALTEAM_SYNC as SyncMode | undefined) ?? "merge";
   let goal = "";
+  // Settings given on the command line, which win over a resumed session's
+  const flags = new Set<keyof SessionSettings>();
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i]!;
 
     if (arg === "--workers" && args[i + 1]) {
       workers = parseInt(args[++i]!, 10);
+      flags.add("workers");
     } else if (arg === "--budget" && args[i + 1]) {
       budget = parseInt(args[++i]!, 10);
+      flags.add("budget");
     } else if (arg === "--max-iterations" && args[i + 1]) {
       maxIterations = parseInt(args[++i]!, 10);
+      flags.add("maxIterations");
     } else if (arg === "--workspace" && args[i + 1]) {
       workspace = args[++i]!;
     } else if (arg === "--valkey-url" && args[i + 1]) {
       valkeyUrl = args[++i]!;
     } else if (arg === "--leader-model" && args[i + 1]) {
       leaderModel = args[++i]!;
+      flags.add("leaderModel");
     } else if (arg === "--team-model" && args[i + 1]) {
       teamModel = args[++i]!;
+      flags.add("teamModel");
+    } else if (arg === "--fallback-models" && args[i + 1]) {
+      fallbackModels = parseModelList(args[++i]);
+      flags.add("fallbackModels");
+    } else if (arg === "--leader-thinking" && args[i + 1]) {
+      leaderThinking = parseThinkingBudgets(args[++i]!);
+      flags.add("leaderThinking");
     } else if (arg === "--resume-from" && args[i + 1]) {
       resumeFrom = args[++i]!;
+    } else if (arg === "--record") {
+      record = true;
+    } else if (arg === "--replay" && args[i + 1]) {
+      replayFrom = args[++i]!;
+    } else if (arg === "--max-cost" && args[i + 1]) {
+      maxCost = parseFloat(args[++i]!);
+      flags.add("maxCost");
+    } else if (arg === "--rpm" && args[i + 1]) {
+      rpm = parseInt(args[++i]!, 10);
+      flags.add("rpm");
+    } else if (arg === "--tpm" && args[i + 1]) {
+      tpm = parseInt(args[++i]!, 10);
+      flags.add("tpm");
+    } else if (arg === "--queue-depth" && args[i + 1]) {
+      queueDepth = parseInt(args[++i]!, 10);
+      flags.add("queueDepth");
+    } else if (arg === "--queue-overflow" && args[i + 1]) {
+      queueOverflow = args[++i]! as QueueOverflow;
+      flags.add("queueOverflow");
+    } else if (arg === "--verify-command" && args[i + 1]) {
+      verifyCommand = args[++i]!;
+      flags.add("verifyCommand");
+    } else if (arg === "--worktrees") {
+      worktrees = true;
+      flags.add("worktrees");
+    } else if (arg === "--sync" && args[i + 1]) {
+      sync = args[++i]! as SyncMode;
+      flags.add("sync");
     } else if (arg === "--help" || arg === "-h") {
       printUsage();
       process.exit(0);
@@ -86,16 +169,93 @@ export function parseCLIArgs(argv: string[]): CLIOptions {
     valkeyUrl,
     leaderModel,
     teamModel,
+    fallbackModels,
+    leaderThinking,
     resumeFrom,
+    record,
+    replayFrom,
+    maxCost,
+    rpm,
+    tpm,
+    queueDepth,
+    queueOverflow,
+    verifyCommand,
+    worktrees,
+    sync,
+    flags: [...flags],
   };
 }
 
+/**
+ * Split a comma-separated model list; undefined when it names no model.
+ */
+function parseModelList(value: string | undefined): string[] | undefined {
+  const models = (value ?? "").split(",").map((m) => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : undefined;
+}
+
+/**
+ * Parse "plan=8192,reflect=4096" into budgets per step; "off" gives none.
+ * Entries are checked by validateOptions.
+ */
+function parseThinkingBudgets(value: string): Partial<Record<StepType, number>> {
+  if (value.trim() === "off") return {};
+  const entries = value.split(",").map((e) => e.trim()).filter(Boolean).map((entry) => {
+    const [step, budget] = entry.split("=");
+    return [step!.trim(), Number(budget)] as const;
+  });
+  return Object.fromEntries(entries);
+}
+
 export function validateOptions(options: CLIOptions): string | null {
+  if (options.maxCost !== undefined && !(options.maxCost > 0)) {
+    return "Error: --max-cost must be a positive number of dollars.";
+  }
+  for (const [flag, value] of [
+    ["--rpm", options.rpm],
+    ["--tpm", options.tpm],
+    ["--queue-depth", options.queueDepth],
+  ] as const) {
+    if (value !== undefined && !(value > 0)) {
+      return `Error: ${flag} must be a positive number.`;
+    }
+  }
+  if (options.queueOverflow !== undefined && !["reject", "coalesce"].includes(options.queueOverflow)) {
+    return `Error: --queue-overflow must be "reject" or "coalesce", got "${options.queueOverflow}".`;
+  }
+  for (const [step, budget] of Object.entries(options.leaderThinking ?? {})) {
+    if (!STEP_TYPES.includes(step as StepType)) {
+      return `Error: --leader-thinking has an unknown step "${step}"; use ${STEP_TYPES.join(", ")} or "off".`;
+    }
+    if (!Number.isInteger(budget) || budget <= 0) {
+      return `Error: --leader-thinking budget for ${step} must be a positive number of tokens.`;
+    }
+  }
+  if (options.sync !== undefined && !["off", "merge", "rebase"].includes(options.sync)) {
+    return `Error: --sync must be "off", "merge" or "rebase", got "${options.sync}".`;
+  }
+  if (options.replayFrom) {
+    // Goal, models and limits all come from the recorded session
+    if (options.record || options.resumeFrom) {
+      return "Error: --replay cannot be combined with --record or --resume-from.";
+    }
+    if (resolve(options.replayFrom) === resolve(options.workspace)) {
+      return "Error: --replay needs a fresh --workspace, not the recorded one.";
+    }
+    return null;
+  }
   if (!options.goal && !options.resumeFrom) {
     return "Error: No goal provided. Usage: bun run sealteam \"<goal>\"";
   }
-  if (!process.env.ANTHROPIC_API_KEY) {
-    return "Error: ANTHROPIC_API_KEY environment variable is required.";
+  for (const model of [options.leaderModel, options.teamModel, ...(options.fallbackModels ?? [])]) {
+    const providerError = checkModelProvider(model);
+    if (providerError) {
+      return `Error: ${providerError}`;
+    }
+    // An unpriced model's calls cost 0, so the cap would never be reached
+    if (options.maxCost !== undefined && !getModelPrice(model)) {
+      return `Error: --max-cost cannot be enforced: there is no price for ${model} in src/pricing.ts.`;
+    }
   }
   if (options.budget <= 0) {
     return "Error: --budget must be a positive number.";
@@ -112,20 +272,57 @@ SealTeam - AI Agent Team CLI
 
 Usage:
   bun run sealteam [options] "<goal>"
+  bun run sealteam messages <workspace> [--agent <name>] [--type <type>]
+                         Show the messages sent in a session, oldest first
+  bun run sealteam sessions [--valkey-url <url>]
+                         List the sessions with keys on a Valkey server
 
 Options:
   --workers <n>          Maximum number of worker agents (default: 6, max: 12)
   --budget <n>           Default token budget per agent (default: 100000)
   --max-iterations <n>   Default max iterations per agent (default: 50)
   --workspace <path>     Output workspace directory (default: ./workspace)
-  --valkey-url <url>     Valkey connection URL (default: valkey://localhost:6379)
+  --valkey-url <url>     Valkey connection URL (default: valkey://localhost:6379),
+                         or sqlite://<file> to keep queues in a local file
   --leader-model <model> Model for team leader (default: claude-opus-4-6)
   --team-model <model>   Model for teammates (default: claude-sonnet-4-6)
+                         Prefix with "openai:" or "local:" to use an
+                         OpenAI-compatible endpoint (e.g. openai:gpt-4o)
+  --fallback-models <m1,m2>
+                         Models every agent switches to, in order, when its
+                         own model is overloaded or rate limited
+  --leader-thinking <plan=n,reflect=n|off>
+                         Leader's extended-thinking budget in tokens per
+                         step (default: plan=8192,reflect=4096)
   --resume-from <path>   Resume from a previous session workspace
+  --record               Record every model call to <agent>/recordings/
+  --replay <path>        Re-run a recorded session from its recordings,
+                         without network access (needs a new --workspace)
+  --max-cost <usd>       Cancel all agents once the session has spent this
+                         many dollars
+  --rpm <n>              Requests per minute for the whole team
+  --tpm <n>              Tokens per minute for the whole team
+  --queue-depth <n>      Messages that may wait in each agent's queue
+                         (default: unlimited)
+  --queue-overflow <reject|coalesce>
+                         What a full queue does with another message: fail
+                         the send, or merge it into the sender's newest
+                         waiting message (default: reject)
+  --verify-command <cmd> Shell command that must pass in the leader's repo
+                         before merge-agent commits a merge (e.g. "bun test")
+  --worktrees            Give agents git worktrees of the leader's repo
+                         instead of full clones
+  --sync <off|merge|rebase>
+                         How workers bring main into their branch before
+                         each iteration (default: merge)
   -h, --help             Show this help message
 
 Environment Variables:
-  ANTHROPIC_API_KEY              Required. Claude API key.
+  ANTHROPIC_API_KEY              Claude API key (required for Claude models).
+  OPENAI_API_KEY                 API key for "openai:" models
+  OPENAI_BASE_URL                Base URL for "openai:" models (default: https://api.openai.com/v1)
+  SEALTEAM_LOCAL_BASE_URL        Base URL for "local:" models (default: http://localhost:11434/v1)
+  SEALTEAM_LOCAL_API_KEY         Optional API key for "local:" models
   VALKEY_URL                     Valkey connection URL
   SEALTEAM_WORKSPACE             Output workspace directory
   SEALTEAM_MAX_AGENTS            Maximum worker agents
@@ -133,9 +330,69 @@ Environment Variables:
   SEALTEAM_DEFAULT_MAX_ITERATIONS Default max iterations per agent
   SEALTEAM_LEADER_MODEL          Model for team leader
   SEALTEAM_TEAM_MODEL            Model for teammates
+  SEALTEAM_FALLBACK_MODELS       Comma-separated fallback chain (same as --fallback-models)
+  SEALTEAM_RECORD                Set to 1 to record model calls (same as --record)
+  SEALTEAM_MAX_COST              Session spend cap in USD (same as --max-cost)
+  SEALTEAM_RPM                   Team requests per minute (same as --rpm)
+  SEALTEAM_TPM                   Team tokens per minute (same as --tpm)
+  SEALTEAM_QUEUE_DEPTH           Per-agent queue depth limit (same as --queue-depth)
+  SEALTEAM_QUEUE_OVERFLOW        Full-queue policy (same as --queue-overflow)
+  SEALTEAM_VERIFY_COMMAND        Merge verification command (same as --verify-command)
+  SEALTEAM_WORKTREES             Set to 1 to use worktrees (same as --worktrees)
+  SEALTEAM_SYNC                  Branch sync mode (same as --sync)
 `);
 }
 
+// ─── Messages Subcommand ─────────────────────────────────────────
+
+export interface MessagesCommandOptions extends MessageFilter {
+  workspace: string;
+}
+
+/**
+ * Parse the arguments after `sealteam messages`. Returns an error
+ * message for invalid input.
+ */
+export function parseMessagesArgs(args: string[]): MessagesCommandOptions | string {
+  let workspace: string | undefined;
+  let agent: string | undefined;
+  let type: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--agent" && args[i + 1]) {
+      agent = args[++i];
+    } else if (arg === "--type" && args[i + 1]) {
+      type = args[++i];
+    } else if (!arg.startsWith("-") && !workspace) {
+      workspace = arg;
+    } else {
+      return `Error: unexpected argument "${arg}".`;
+    }
+  }
+
+  if (!workspace) {
+    return "Error: messages needs a workspace path.";
+  }
+  if (type !== undefined && !MESSAGE_TYPES.includes(type as MessageType)) {
+    return `Error: --type must be one of ${MESSAGE_TYPES.join(", ")}.`;
+  }
+  return { workspace, agent, type: type as MessageType | undefined };
+}
+
+async function printMessages(options: MessagesCommandOptions): Promise<void> {
+  const path = messageHistoryPath(options.workspace);
+  if (!(await Bun.file(path).exists())) {
+    console.error(`No message history found at ${path}`);
+    process.exit(1);
+  }
+  const records = filterMessageHistory(await readMessageHistory(path), options);
+  for (const record of records) {
+    console.log(formatMessageRecord(record));
+  }
+  console.log(`\n${records.length} message(s)`);
+}
+
 // ─── Spawn Command Helper ────────────────────────────────────────
 
 /**
@@ -151,6 +408,56 @@ export function getSpawnCommand(): string[] {
   return [process.execPath, process.argv[1]!, "--agent-mode"];
 }
 
+// ─── Sessions Subcommand ─────────────────────────────────────────
+
+/**
+ * Parse the arguments after `sealteam sessions`. Returns the Valkey URL
+ * to inspect, or an error message for invalid input.
+ */
+export function parseSessionsArgs(args: string[]): { valkeyUrl: string } | string {
+  let valkeyUrl = process.env.VALKEY_URL ?? "valkey://localhost:6379";
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!;
+    if (arg === "--valkey-url" && args[i + 1]) {
+      valkeyUrl = args[++i]!;
+    } else {
+      return `Error: unexpected argument "${arg}".`;
+    }
+  }
+  return { valkeyUrl };
+}
+
+/**
+ * Two-line summary of a session namespace for `sealteam sessions`, e.g.
+ * "3f9c2a1b  started 2026-03-02 14:05:11  ./workspace" followed by its
+ * agents, queued messages and channels.
+ */
+export function formatSessionSummary(summary: SessionSummary): string {
+  const { sessionId, info, agents, queued, channels } = summary;
+  const started = info
+    ? `started ${new Date(info.startTime).toISOString().replace("T", " ").slice(0, 19)}  ${info.workspace}`
+    : "no session info";
+  const details = [
+    `agents: ${agents.length > 0 ? agents.join(", ") : "none"}`,
+    `queued: ${queued}`,
+    ...(channels.length > 0 ? [`channels: ${channels.map((c) => `#${c}`).join(", ")}`] : []),
+  ];
+  return `${sessionId}  ${started}\n  ${details.join("  ")}`;
+}
+
+async function printSessions(valkeyUrl: string): Promise<void> {
+  const mq = new MessageQueue(valkeyUrl);
+  try {
+    const sessions = await mq.listSessions();
+    for (const summary of sessions) {
+      console.log(formatSessionSummary(summary));
+    }
+    console.log(`\n${sessions.length} session(s) on ${valkeyUrl}`);
+  } finally {
+    mq.close();
+  }
+}
+
 // ─── Main Process ────────────────────────────────────────────────
 
 interface AgentProcess {
@@ -159,6 +466,9 @@ interface AgentProcess {
 }
 
 export async function main(options: CLIOptions): Promise<void> {
+  if (options.replayFrom) {
+    options = await loadReplayOptions(options);
+  }
   const { workspace, valkeyUrl } = options;
 
   logMainStart(options.goal, workspace, options.workers);
@@ -173,12 +483,20 @@ export async function main(options: CLIOptions): Promise<void> {
   // 2. Create workspace directories
   await Bun.$`mkdir -p ${workspace}/logs`.quiet();
 
-  // 3. Init Valkey and flush stale queues from previous runs
-  const mq = new MessageQueue(valkeyUrl);
+  // 3. Init Valkey in a namespace of our own, so other sessions on the
+  // same server keep their queues
+  const sessionId = newSessionId();
+  const mq = new MessageQueue(valkeyUrl, {
+    historyPath: messageHistoryPath(workspace),
+    sessionId,
+  });
   const flushedCount = await mq.flushAll();
   if (flushedCount > 0) {
     logMainMessage("main", "cleanup", `flushed ${flushedCount} stale queue(s) from previous run`);
   }
+  const startTime = Date.now();
+  await mq.writeSessionInfo({ workspace, goal: options.goal, startTime });
+  logMainMessage("main", "session", `Valkey namespace ${sessionNamespace(sessionId)}*`);
 
   // 4. Init git repo for leader (bob)
   const bobDir = `${workspace}/bob`;
@@ -191,23 +509,30 @@ export async function main(options: CLIOptions): Promise<void> {
     name: "bob",
     role: "Team Leader — break down the user's goal into requirements, plan the team, spawn and manage agents, review their work, and coordinate completion.",
     purpose: `Achieve the following goal by creating and managing a team of AI agents: ${options.goal}`,
-    tools: ["bash", "read-file", "write-file", "web-search", "web-fetch", "spawn-agent", "send-message", "git", "create-tool", "parse-csv"],
+    tools: ["bash", "read-file", "write-file", "web-search", "web-fetch", "spawn-agent", "merge-agent", "send-message", "ask-agent", "subscribe", "git", "create-tool", "parse-csv"],
     model: options.leaderModel,
     tokenBudget: options.budget * 2, // Leader gets 2x budget
     maxIterations: options.maxIterations,
     maxToolTurns: 75, // Leader needs more tool turns for merges
+    thinkingBudgets: options.leaderThinking,
+    ...(options.fallbackModels ? { fallbackModels: options.fallbackModels } : {}),
     workspacePath: workspace,
     valkeyUrl,
+    sessionId,
   };
 
   // 6. Write initial session state
   const session: SessionState = {
     goal: options.goal,
-    startTime: Date.now(),
+    startTime,
     workspace,
     valkeyUrl,
+    sessionId,
     agents: [],
     status: "running",
+    settings: sessionSettings(options),
+    cost: 0,
+    maxCost: options.maxCost,
   };
   await writeSessionState(workspace, session);
 
@@ -326,29 +651,103 @@ export async function main(options: CLIOptions): Promise<void> {
   await monitorLoop(mq, workspace, options, agentProcesses);
 
   // 11. Print summary
+  await updateSessionCost(workspace);
   const finalSession = await readSessionState(workspace);
   if (finalSession) {
     printSummaryReport(finalSession);
   }
 
-  // 12. Cleanup
+  // 12. Cleanup: every agent has exited, so drop the session's keys
+  await mq.flushAll();
   mq.close();
 }
 
+/**
+ * The session-wide settings recorded in session.json. Every option that
+ * changes what agents see or do belongs here, or a replay runs differently.
+ */
+export function sessionSettings(options: CLIOptions): SessionSettings {
+  return {
+    workers: options.workers,
+    budget: options.budget,
+    maxIterations: options.maxIterations,
+    leaderModel: options.leaderModel,
+    teamModel: options.teamModel,
+    fallbackModels: options.fallbackModels,
+    leaderThinking: options.leaderThinking,
+    maxCost: options.maxCost,
+    rpm: options.rpm,
+    tpm: options.tpm,
+    queueDepth: options.queueDepth,
+    queueOverflow: options.queueOverflow,
+    verifyCommand: options.verifyCommand,
+    worktrees: options.worktrees,
+    sync: options.sync,
+  };
+}
+
+/**
+ * Take the goal and settings of the session being replayed. Replay only
+ * reproduces the recording if every agent sees the same inputs.
+ */
+export async function loadReplayOptions(options: CLIOptions): Promise<CLIOptions> {
+  const recorded = await readSessionState(options.replayFrom!);
+  if (!recorded) {
+    console.error(`No session.json found in ${options.replayFrom}`);
+    process.exit(1);
+  }
+  logMainMessage("main", "replay", `Replaying session from: ${options.replayFrom}`);
+  return {
+    ...options,
+    ...recorded.settings,
+    goal: recorded.goal,
+  };
+}
+
+/**
+ * Take the settings of the session being resumed, except those given as
+ * flags this time. Respawned agents then run as the originals did.
+ */
+export function recoveryOptions(options: CLIOptions, session: SessionState): CLIOptions {
+  const given = new Set(options.flags);
+  // Sessions from before settings recorded the spend cap on its own
+  const recorded = { maxCost: session.maxCost, ...session.settings };
+  const kept = Object.entries(recorded).filter(
+    ([key, value]) => value !== undefined && !given.has(key as keyof SessionSettings),
+  );
+  return { ...options, ...Object.fromEntries(kept) };
+}
+
 // ─── Agent Spawning ──────────────────────────────────────────────
 
-function spawnAgent(
-  config: AgentConfig,
-  options: CLIOptions,
-): ReturnType<typeof Bun.spawn> {
-  const env: Record<string, string> = {
+/**
+ * Environment shared by every agent subprocess of this session.
+ */
+function agentEnv(config: AgentConfig, options: CLIOptions): Record<string, string> {
+  return {
     ...process.env as Record<string, string>,
     AGENT_CONFIG: JSON.stringify(config),
     SEALTEAM_TEAM_MODEL: options.teamModel,
     SEALTEAM_DEFAULT_BUDGET: String(options.budget),
     SEALTEAM_DEFAULT_MAX_ITERATIONS: String(options.maxIterations),
     SEALTEAM_MAX_AGENTS: String(options.workers),
+    ...(options.record ? { SEALTEAM_RECORD: "1" } : {}),
+    ...(options.rpm ? { SEALTEAM_RPM: String(options.rpm) } : {}),
+    ...(options.tpm ? { SEALTEAM_TPM: String(options.tpm) } : {}),
+    ...(options.queueDepth ? { SEALTEAM_QUEUE_DEPTH: String(options.queueDepth) } : {}),
+    ...(options.queueOverflow ? { SEALTEAM_QUEUE_OVERFLOW: options.queueOverflow } : {}),
+    ...(options.verifyCommand ? { SEALTEAM_VERIFY_COMMAND: options.verifyCommand } : {}),
+    ...(options.worktrees ? { SEALTEAM_WORKTREES: "1" } : {}),
+    ...(options.sync ? { SEALTEAM_SYNC: options.sync } : {}),
+    ...(options.replayFrom ? { SEALTEAM_REPLAY_FROM: resolve(options.replayFrom) } : {}),
   };
+}
+
+function spawnAgent(
+  config: AgentConfig,
+  options: CLIOptions,
+): ReturnType<typeof Bun.spawn> {
+  const env = agentEnv(config, options);
 
   return Bun.spawn(getSpawnCommand(), {
     env,
@@ -365,11 +764,15 @@ async function monitorLoop(
   options: CLIOptions,
   agentProcesses: AgentProcess[],
 ): Promise<void> {
+  let costCapReached = false;
+
   while (true) {
     // Check for messages on the main queue
     const msg = await mq.receive("main", 5);
 
     if (msg) {
+      // Only logged or acted on here, so nothing to redeliver
+      await mq.ack(msg.id);
       if (msg.type === "all-complete") {
         logAllComplete(msg.content);
 
@@ -391,6 +794,13 @@ async function monitorLoop(
       logMainMessage(msg.from, msg.type, msg.content);
     }
 
+    // Enforce the spend cap: cancel everyone once, then let them wind down
+    const cost = await sessionCost(workspace);
+    if (options.maxCost !== undefined && cost >= options.maxCost && !costCapReached) {
+      costCapReached = true;
+      await cancelForCostCap(mq, workspace, cost, options.maxCost);
+    }
+
     // Check for crashed agent processes and re-spawn if needed
     for (let i = 0; i < agentProcesses.length; i++) {
       const ap = agentProcesses[i]!;
@@ -415,6 +825,14 @@ async function monitorLoop(
           }
         }
 
+        // A crash during replay is a divergence; re-running cannot fix it
+        if (options.replayFrom) {
+          logMainMessage(ap.config.name, "replay", "diverged from recording, not re-spawning");
+          await updateAgentStatus(workspace, ap.config.name, "failed");
+          agentProcesses.splice(i--, 1);
+          continue;
+        }
+
         // Re-spawn with resume
         logAgentRespawn(ap.config.name, lastStep ? `${lastStep.iteration}-${lastStep.step}` : undefined);
         const resumePoint = lastStep
@@ -428,13 +846,8 @@ async function monitorLoop(
           // Set resume env for the respawned process
           // Note: RESUME_FROM is read by life-loop.ts
           const env = {
-            ...process.env as Record<string, string>,
-            AGENT_CONFIG: JSON.stringify(newConfig),
+            ...agentEnv(newConfig, options),
             RESUME_FROM: resumePoint,
-            SEALTEAM_TEAM_MODEL: options.teamModel,
-            SEALTEAM_DEFAULT_BUDGET: String(options.budget),
-            SEALTEAM_DEFAULT_MAX_ITERATIONS: String(options.maxIterations),
-            SEALTEAM_MAX_AGENTS: String(options.workers),
           };
 
           // Kill the process we just started and restart with resume env
@@ -455,7 +868,7 @@ async function monitorLoop(
         }
       } else if (exitCode === 0) {
         // Agent exited cleanly
-        await updateAgentStatus(workspace, ap.config.name, "completed");
+        await updateAgentStatus(workspace, ap.config.name, costCapReached ? "cancelled" : "completed");
 
         // Fallback: if Bob exits cleanly, ensure session is marked completed
         if (ap.config.name === "bob") {
@@ -487,6 +900,87 @@ async function monitorLoop(
   }
 }
 
+// ─── Cost Tracking ───────────────────────────────────────────────
+
+/**
+ * Total the session cost in USD from every agent's usage file. This runs
+ * on each monitor tick while spawn-agent adds agents to session.json, so
+ * it only reads.
+ */
+export async function sessionCost(workspace: string): Promise<number> {
+  let total = 0;
+  for (const usage of (await readAgentUsages(workspace)).values()) {
+    total += usage.cost;
+  }
+  return total;
+}
+
+/**
+ * Copy every agent's usage file into session.json and total the session
+ * cost, once the agents have exited. session.json is read after the usage
+ * files, so only `usage` and `cost` are written over. Returns the total.
+ */
+export async function updateSessionCost(workspace: string): Promise<number> {
+  const usages = await readAgentUsages(workspace);
+  const session = await readSessionState(workspace);
+  if (!session) return 0;
+
+  let total = 0;
+  for (const agent of session.agents) {
+    agent.usage = usages.get(agent.config.name) ?? agent.usage;
+    total += agent.usage?.cost ?? 0;
+  }
+  session.cost = total;
+  await writeSessionState(workspace, session);
+  return total;
+}
+
+/**
+ * Usage of every agent in session.json that has written a usage file,
+ * keyed by agent name.
+ */
+async function readAgentUsages(workspace: string): Promise<Map<string, Required<TokenUsage>>> {
+  const usages = new Map<string, Required<TokenUsage>>();
+  const session = await readSessionState(workspace);
+  for (const agent of session?.agents ?? []) {
+    const usage = await readAgentUsage(`${workspace}/${agent.config.name}`);
+    if (usage) usages.set(agent.config.name, usage);
+  }
+  return usages;
+}
+
+/**
+ * Send every running agent a cancel message. Agents commit their work
+ * in progress and exit; the session is marked failed.
+ */
+async function cancelForCostCap(
+  mq: MessageQueue,
+  workspace: string,
+  cost: number,
+  maxCost: number,
+): Promise<void> {
+  const reason = `Session cost ${formatCost(cost)} reached the ${formatCost(maxCost)} cap`;
+  logMainMessage("main", "cost", `${reason}, cancelling all agents`);
+
+  const session = await readSessionState(workspace);
+  if (!session) return;
+  for (const agent of session.agents) {
+    if (agent.status !== "running") continue;
+    await mq.send({
+      id: crypto.randomUUID(),
+      from: "main",
+      to: agent.config.name,
+      type: "cancel",
+      content: reason,
+      timestamp: Date.now(),
+    });
+  }
+  // Re-read rather than write back the copy held across the sends
+  const latest = (await readSessionState(workspace)) ?? session;
+  latest.status = "failed";
+  await writeSessionState(workspace, latest);
+}
+
 // ─── Session Recovery ────────────────────────────────────────────
 
 async function runRecovery(options: CLIOptions): Promise<void> {
@@ -499,8 +993,15 @@ async function runRecovery(options: CLIOptions): Promise<void> {
   }
 
   logMainStart(session.goal, workspace, session.agents.length);
+  options = recoveryOptions(options, session);
 
-  const mq = new MessageQueue(session.valkeyUrl);
+  const mq = new MessageQueue(session.valkeyUrl, {
+    historyPath: messageHistoryPath(workspace),
+    sessionId: session.sessionId,
+  });
+  if (session.sessionId) {
+    await mq.writeSessionInfo({ workspace, goal: session.goal, startTime: session.startTime });
+  }
   const agentProcesses: AgentProcess[] = [];
 
   for (const agentEntry of session.agents) {
@@ -520,6 +1021,14 @@ async function runRecovery(options: CLIOptions): Promise<void> {
 
     // Process died — re-spawn with resume
     const agentDir = `${workspace}/${agentEntry.config.name}`;
+    if (agentEntry.worktree) {
+      const restored = await restoreAgentWorktree(`${workspace}/bob`, agentDir, agentEntry.config.name);
+      if (restored.exitCode !== 0) {
+        logMainMessage(agentEntry.config.name, "recovery", `could not restore worktree: ${restored.stderr}`);
+      }
+      agentEntry.worktree = resolve(agentDir);
+      await Bun.$`mkdir -p ${agentDir}/state`.quiet();
+    }
     const lastStep = await getLastCompletedStep(agentDir);
 
     if (lastStep) {
@@ -541,12 +1050,7 @@ async function runRecovery(options: CLIOptions): Promise<void> {
     logAgentRespawn(agentEntry.config.name, resumePoint);
 
     const env: Record<string, string> = {
-      ...process.env as Record<string, string>,
-      AGENT_CONFIG: JSON.stringify(agentEntry.config),
-      SEALTEAM_TEAM_MODEL: options.teamModel,
-      SEALTEAM_DEFAULT_BUDGET: String(options.budget),
-      SEALTEAM_DEFAULT_MAX_ITERATIONS: String(options.maxIterations),
-      SEALTEAM_MAX_AGENTS: String(options.workers),
+      ...agentEnv(agentEntry.config, options),
       ...(resumePoint ? { RESUME_FROM: resumePoint } : {}),
     };
 
@@ -611,10 +1115,14 @@ async function runRecovery(options: CLIOptions): Promise<void> {
 
   // Resume monitoring
   await monitorLoop(mq, workspace, options, agentProcesses);
+  await updateSessionCost(workspace);
   const recoveredSession = await readSessionState(workspace);
   if (recoveredSession) {
     printSummaryReport(recoveredSession);
   }
+  if (session.sessionId) {
+    await mq.flushAll();
+  }
   mq.close();
 }
 
@@ -716,6 +1224,22 @@ if (import.meta.main) {
   if (process.argv.includes("--agent-mode")) {
     const { bootstrapAgent } = await import("./life-loop.ts");
     await bootstrapAgent();
+  } else if (process.argv[2] === "messages") {
+    const parsed = parseMessagesArgs(process.argv.slice(3));
+    if (typeof parsed === "string") {
+      console.error(parsed);
+      printUsage();
+      process.exit(1);
+    }
+    await printMessages(parsed);
+  } else if (process.argv[2] === "sessions") {
+    const parsed = parseSessionsArgs(process.argv.slice(3));
+    if (typeof parsed === "string") {
+      console.error(parsed);
+      printUsage();
+      process.exit(1);
+    }
+    await printSessions(parsed.valkeyUrl);
   } else {
     const options = parseCLIArgs(process.argv);
     const error = validateOptions(options);
@@ -0,0 +1,315 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { runLifeLoop } from "./life-loop.ts";
+import type { LifeLoopDeps } from "./life-loop.ts";
+import type { AgentConfig, QueueMessage, SessionState } from "./types.ts";
+import { FakeClaudeClient } from "./fake-claude-client.ts";
+import type { FakeScript } from "./fake-claude-client.ts";
+import { MessageQueue } from "./message-queue.ts";
+import { MockRedis } from "./mock-redis.ts";
+import { ToolRegistry } from "./tool-registry.ts";
+import { ContextManager } from "./context-manager.ts";
+import { initRepo, createGitignore, commitAll } from "./git-manager.ts";
+import {
+  readIterationState,
+  readSessionState,
+  writeSessionState,
+  getLastCompletedStep,
+} from "./state-manager.ts";
+
+// ─── In-Process Team Harness ─────────────────────────────────────
+
+/**
+ * Runs a leader and its workers in one process: every agent gets its own
+ * FakeClaudeClient and life loop, all sharing one blocking MockRedis and
+ * real git repos under a temp workspace. spawn-agent launches workers
+ * in-process instead of as subprocesses.
+ */
+class Team {
+  readonly redis = new MockRedis({ blocking: true });
+  readonly mq = new MessageQueue(this.redis);
+  readonly clients = new Map<string, FakeClaudeClient>();
+  readonly loops = new Map<string, Promise<void>>();
+  readonly configs = new Map<string, AgentConfig>();
+  private nextPid = 90000;
+
+  constructor(readonly workspace: string, readonly script: FakeScript) {}
+
+  async start(goal: string): Promise<void> {
+    const bobDir = `${this.workspace}/bob`;
+    await initRepo(bobDir);
+    await createGitignore(bobDir);
+    await commitAll(bobDir, "Initial commit");
+
+    const bob: AgentConfig = {
+      name: "bob",
+      role: "Team Leader",
+      purpose: goal,
+      tools: ["bash", "write-file", "spawn-agent", "merge-agent", "send-message", "git"],
+      model: "claude-sonnet-4-6",
+      tokenBudget: 1_000_000,
+      maxIterations: 10,
+      workspacePath: this.workspace,
+      valkeyUrl: "valkey://unused",
+    };
+    const session: SessionState = {
+      goal,
+      startTime: Date.now(),
+      workspace: this.workspace,
+      valkeyUrl: bob.valkeyUrl,
+      agents: [{ config: bob, pid: this.nextPid, status: "running", startTime: Date.now() }],
+      status: "running",
+    };
+    await writeSessionState(this.workspace, session);
+
+    this.launch(bob);
+    await this.mq.send({
+      id: crypto.randomUUID(), from: "main", to: "bob",
+      type: "task", content: goal, timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Start (or restart) an agent's life loop and return its fake PID.
+   */
+  launch(config: AgentConfig, resumeFrom?: string): number {
+    this.configs.set(config.name, config);
+    let client = this.clients.get(config.name);
+    if (!client) {
+      client = new FakeClaudeClient(this.script);
+      this.clients.set(config.name, client);
+    }
+
+    const messageQueue = new MessageQueue(this.redis);
+    const toolRegistry = new ToolRegistry();
+    toolRegistry.loadBuiltins();
+    toolRegistry.bindAgentContext({
+      agentName: config.name,
+      workDir: `${this.workspace}/${config.name}`,
+      messageQueue,
+      workspacePath: this.workspace,
+      spawnContext:
+        config.name === "bob"
+          ? {
+              workspacePath: this.workspace,
+              valkeyUrl: config.valkeyUrl,
+              defaultModel: "claude-sonnet-4-6",
+              defaultBudget: 100_000,
+              defaultMaxIterations: 10,
+              maxWorkers: 4,
+              spawnCommand: [],
+              launch: (worker) => this.launch(worker),
+            }
+          : undefined,
+      mergeContext:
+        config.name === "bob"
+          ? { leaderDir: `${this.workspace}/bob`, workspacePath: this.workspace }
+          : undefined,
+    });
+
+    const deps: LifeLoopDeps = {
+      claudeClient: client,
+      messageQueue,
+      toolRegistry,
+      contextManager: new ContextManager(config.model),
+    };
+    this.loops.set(config.name, runLifeLoop(config, deps, resumeFrom));
+    return ++this.nextPid;
+  }
+
+  /**
+   * Re-launch a crashed agent the way the main process does: resume from
+   * its last completed step on disk.
+   */
+  async respawn(name: string): Promise<string | undefined> {
+    const last = await getLastCompletedStep(`${this.workspace}/${name}`);
+    const resumeFrom = last ? `${last.iteration}-${last.step}` : undefined;
+    this.launch(this.configs.get(name)!, resumeFrom);
+    return resumeFrom;
+  }
+
+  /**
+   * Drain the main process queue.
+   */
+  async mainMessages(): Promise<QueueMessage[]> {
+    const messages: QueueMessage[] = [];
+    let msg: QueueMessage | null;
+    while ((msg = await this.mq.receiveNonBlocking("main"))) {
+      messages.push(msg);
+    }
+    return messages;
+  }
+}
+
+// ─── Script Fragments ────────────────────────────────────────────
+
+const SPAWN_ALICE = {
+  tool: "spawn-agent",
+  input: {
+    name: "alice",
+    role: "writer",
+    purpose: "Write greeting.txt",
+    tools: ["write-file", "git", "send-message"],
+  },
+};
+
+const MERGE_ALICE = [{ tool: "merge-agent", input: { agent: "alice" } }];
+
+const ALL_COMPLETE = {
+  tool: "send-message",
+  input: { to: "main", type: "all-complete", content: "Greeting delivered" },
+};
+
+const WRITE_GREETING = [
+  { tool: "write-file", input: { path: "greeting.txt", content: "hello\n" } },
+  { tool: "git", input: { args: "add -A" } },
+  { tool: "git", input: { args: 'commit -m "Add greeting"' } },
+];
+
+let tmpDir: string;
+
+beforeEach(async () => {
+  tmpDir = `/tmp/sealteam-e2e-test-${crypto.randomUUID()}`;
+  await Bun.$`mkdir -p ${tmpDir}`.quiet();
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+describe("leader and worker end to end", () => {
+  test("worker's commit is merged into the leader's main branch", async () => {
+    const team = new Team(tmpDir, {
+      bob: [
+        {
+          execute: [
+            SPAWN_ALICE,
+            { tool: "send-message", input: { to: "alice", type: "task", content: "Write greeting.txt" } },
+          ],
+          reflect: { decision: "continue", outcome: "alice spawned" },
+        },
+        {
+          execute: [...MERGE_ALICE, ALL_COMPLETE],
+          reflect: { decision: "complete", outcome: "merged alice" },
+        },
+      ],
+      alice: [
+        {
+          execute: WRITE_GREETING,
+          reflect: { decision: "complete", outcome: "greeting written", filesChanged: ["greeting.txt"] },
+        },
+      ],
+    });
+
+    await team.start("Say hello");
+    await team.loops.get("bob");
+    await team.loops.get("alice");
+
+    expect(await Bun.file(`${tmpDir}/bob/greeting.txt`).text()).toBe("hello\n");
+    const log = await Bun.$`git -C ${tmpDir}/bob log --oneline`.quiet().text();
+    expect(log).toContain("Merge agent/alice");
+
+    const main = await team.mainMessages();
+    expect(main.map((m) => m.type)).toEqual(["all-complete"]);
+
+    // Bob's second iteration was triggered by alice's completion
+    const planState = await readIterationState(`${tmpDir}/bob`, 2, "plan");
+    const input = planState!.input as QueueMessage[];
+    expect(input[0]).toMatchObject({ from: "alice", type: "complete", content: "greeting written" });
+    expect(input[0]!.payload).toMatchObject({
+      summary: "greeting written",
+      branch: "agent/alice",
+      filesChanged: ["greeting.txt"],
+    });
+
+    const session = await readSessionState(tmpDir);
+    expect(session!.agents.map((a) => a.config.name)).toEqual(["bob", "alice"]);
+  }, 30_000);
+
+  test("cancelled worker commits WIP and reports back without calling the model", async () => {
+    const team = new Team(tmpDir, {
+      bob: [
+        {
+          execute: [
+            SPAWN_ALICE,
+            { tool: "send-message", input: { to: "alice", type: "cancel", content: "Plans changed" } },
+          ],
+          reflect: { decision: "continue" },
+        },
+        {
+          execute: [ALL_COMPLETE],
+          reflect: { decision: "complete", outcome: "alice cancelled" },
+        },
+      ],
+      alice: [],
+    });
+
+    await team.start("Say hello");
+    await team.loops.get("bob");
+    await team.loops.get("alice");
+
+    expect(team.clients.get("alice")!.calls).toHaveLength(0);
+    const cancelState = await readIterationState(`${tmpDir}/alice`, 1, "reflect");
+    expect(cancelState!.output).toMatchObject({ cancelled: true, reason: "Plans changed" });
+    const log = await Bun.$`git -C ${tmpDir}/alice log --oneline`.quiet().text();
+    expect(log).toContain("WIP: cancelled");
+
+    const planState = await readIterationState(`${tmpDir}/bob`, 2, "plan");
+    const notice = (planState!.input as QueueMessage[])[0]!;
+    expect(notice.from).toBe("alice");
+    expect(notice.payload).toMatchObject({
+      summary: "Plans changed",
+      branch: "agent/alice",
+      commit: expect.stringMatching(/^[0-9a-f]{40}$/),
+      cancelled: true,
+    });
+  }, 30_000);
+
+  test("crashed worker is respawned from its last completed step", async () => {
+    const team = new Team(tmpDir, {
+      bob: [
+        {
+          execute: [
+            SPAWN_ALICE,
+            { tool: "send-message", input: { to: "alice", type: "task", content: "Write greeting.txt" } },
+          ],
+          reflect: { decision: "continue" },
+        },
+        {
+          execute: [...MERGE_ALICE, ALL_COMPLETE],
+          reflect: { decision: "complete" },
+        },
+      ],
+      alice: [
+        {
+          execute: [WRITE_GREETING[0]!],
+          reflect: { decision: "continue", nextMessage: "Commit the greeting" },
+        },
+        {
+          crashAt: "execute",
+          execute: WRITE_GREETING.slice(1),
+          reflect: { decision: "complete", outcome: "committed after respawn" },
+        },
+      ],
+    });
+
+    await team.start("Say hello");
+    // Wait for bob to launch alice, then for alice to die mid-iteration 2
+    while (!team.clients.has("alice")) await Bun.sleep(10);
+    await team.clients.get("alice")!.crashed;
+
+    // The self-queued message was never acked, so the respawn gets it again
+    expect(await team.respawn("alice")).toBe("2-plan");
+
+    await team.loops.get("bob");
+    await team.loops.get("alice");
+
+    const reflectState = await readIterationState(`${tmpDir}/alice`, 2, "reflect");
+    expect(reflectState!.output).toMatchObject({ decision: "complete" });
+    // Iteration 1 survived on disk and was loaded back into context
+    const retriedPlan = team.clients.get("alice")!.calls.filter((c) => c.step === "plan").at(-1)!;
+    expect(JSON.stringify(retriedPlan.messages)).toContain("Commit the greeting");
+
+    expect(await Bun.file(`${tmpDir}/bob/greeting.txt`).text()).toBe("hello\n");
+    expect((await team.mainMessages()).map((m) => m.type)).toEqual(["all-complete"]);
+  }, 30_000);
+});
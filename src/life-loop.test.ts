@@ -1,14 +1,17 @@
 import { test, expect, describe, beforeEach, afterEach } from "bun:test";
-import { runLifeLoop, compactToolMessages } from "./life-loop.ts";
+import { runLifeLoop, compactToolMessages, thinkingBudgetFor } from "./life-loop.ts";
 import type { LifeLoopDeps } from "./life-loop.ts";
 import type { AgentConfig, QueueMessage, TokenUsage } from "./types.ts";
 import type { CallParams, CallResult, Message, MessageParam } from "./claude-client.ts";
-import type { ClaudeClient } from "./claude-client.ts";
+import { ClaudeClient } from "./claude-client.ts";
+import { FakeProvider, fakeText } from "./providers/fake.ts";
+import { makeMessage, toolUseBlock, ProviderHttpError } from "./providers/provider.ts";
 import { MessageQueue } from "./message-queue.ts";
 import { MockRedis } from "./mock-redis.ts";
 import { ToolRegistry } from "./tool-registry.ts";
 import { ContextManager } from "./context-manager.ts";
-import { readIterationState } from "./state-manager.ts";
+import { readIterationState, writeIterationState } from "./state-manager.ts";
+import { cloneForAgent, commitAll, createGitignore, gitExec, initRepo } from "./git-manager.ts";
 
 // ─── Mock Claude Client ──────────────────────────────────────────
 
@@ -243,6 +246,29 @@ describe("standard path (plan → execute → reflect)", () => {
   });
 });
 
+describe("message batches", () => {
+  test("handles a run of messages from one sender in one iteration", async () => {
+    const config = makeConfig({ maxIterations: 1 });
+    const mock = createMockClient();
+    const deps = makeDeps(mock);
+
+    for (const [id, from] of [["m-1", "carol"], ["m-2", "dave"], ["m-3", "carol"], ["m-4", "carol"]]) {
+      await mq.send({ id: id!, from: from!, to: agentId, type: "status", content: id!, timestamp: Date.now() });
+    }
+    mock.addResponse(() => planResponse("Catch up", "complex"));
+    mock.addResponse(() => textResponse("done"));
+    mock.addResponse(() => reflectResponse("continue"));
+
+    await runLifeLoop(config, deps);
+
+    const planState = await readIterationState(`${tmpDir}/${agentId}`, 1, "plan");
+    expect((planState!.input as QueueMessage[]).map((m) => m.id)).toEqual(["m-1", "m-3", "m-4"]);
+    expect((await mq.peek(agentId)).map((m) => m.id)).toEqual(["m-2"]);
+    // The whole batch was acknowledged
+    expect(await mq.requeueUnacked(agentId)).toBe(0);
+  });
+});
+
 describe("fast path (plan+execute → reflect)", () => {
   test("uses 2 API calls when previous complexity was simple", async () => {
     const config = makeConfig({ maxIterations: 3 });
@@ -342,6 +368,103 @@ describe("error handling and self-recovery", () => {
   });
 });
 
+describe("structured plan and reflect output", () => {
+  test("forces the output tools and re-asks when the reflection is invalid", async () => {
+    const config = makeConfig({ maxIterations: 1 });
+    const mock = createMockClient();
+    const deps = makeDeps(mock);
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Do something", timestamp: Date.now(),
+    });
+
+    mock.addResponse(() => toolUseResponse("submit_plan", { plan: "Do it", complexity: "Simple" }));
+    mock.addResponse(() => textResponse("Done"));
+    mock.addResponse(() => toolUseResponse("submit_reflection", { decision: "finished" }));
+    mock.addResponse(() => toolUseResponse("submit_reflection", {
+      decision: "complete",
+      summary: { plan: "Do it", outcome: "done after repair" },
+    }));
+
+    await runLifeLoop(config, deps);
+
+    expect(mock.callLog).toHaveLength(4);
+    expect(mock.callLog[0]!.toolChoice).toEqual({ type: "tool", name: "submit_plan" });
+    expect(mock.callLog[2]!.toolChoice).toEqual({ type: "tool", name: "submit_reflection" });
+
+    // The repair turn answers the invalid tool call with the validation errors
+    const repair = mock.callLog[3]!.messages.at(-1)!;
+    const [result] = repair.content as { type: string; is_error?: boolean; content: string }[];
+    expect(result!.type).toBe("tool_result");
+    expect(result!.is_error).toBe(true);
+    expect(result!.content).toContain("$.decision: must be one of");
+    expect(result!.content).toContain("$.summary: required");
+
+    const planState = await readIterationState(`${tmpDir}/${agentId}`, 1, "plan");
+    expect(planState!.complexity).toBe("simple");
+    const reflectState = await readIterationState(`${tmpDir}/${agentId}`, 1, "reflect");
+    expect(reflectState!.output).toEqual({
+      decision: "complete",
+      summary: { iteration: 1, plan: "Do it", outcome: "done after repair", filesChanged: [], decisions: [] },
+    });
+  });
+
+  test("fails the iteration instead of continuing when output stays invalid", async () => {
+    const config = makeConfig({ maxIterations: 1 });
+    const mock = createMockClient();
+    const deps = makeDeps(mock);
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Do something", timestamp: Date.now(),
+    });
+
+    for (let i = 0; i < 3; i++) {
+      mock.addResponse(() => textResponse("I will probably write some files."));
+    }
+
+    await runLifeLoop(config, deps);
+
+    expect(mock.callLog).toHaveLength(3);
+    // Without a tool call, the errors go back as plain text
+    expect(mock.callLog[1]!.messages.at(-1)!.content).toContain("Call submit_plan again");
+    expect(await readIterationState(`${tmpDir}/${agentId}`, 1, "plan")).toBeNull();
+
+    const retry = await mq.receiveNonBlocking(agentId);
+    expect(retry!.content).toStartWith("Retry after error: Invalid plan output: $: expected an object");
+    expect(retry!.attempts).toBe(1);
+  });
+
+  test("dead-letters work that keeps failing and tells the leader", async () => {
+    const config = makeConfig({ maxIterations: 1 });
+    const mock = createMockClient();
+    const deps = makeDeps(mock);
+
+    // Two earlier runs already failed on it
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Do something", timestamp: Date.now(), attempts: 2,
+    });
+
+    for (let i = 0; i < 3; i++) {
+      mock.addResponse(() => textResponse("I will probably write some files."));
+    }
+
+    await runLifeLoop(config, deps);
+
+    expect(await mq.receiveNonBlocking(agentId)).toBeNull();
+    const [letter] = await mq.deadLetters(agentId);
+    expect(letter!.message).toMatchObject({ id: "msg-1", attempts: 3 });
+    expect(letter!.reason).toStartWith("failed 3 times: Invalid plan output");
+
+    const report = await mq.receiveNonBlocking("bob");
+    expect(report!.type).toBe("error");
+    expect(report!.content).toContain("gave up on 1 message(s)");
+    expect(report!.content).toContain("- task from bob: Do something (failed 3 times");
+  });
+});
+
 describe("cancellation", () => {
   test("exits on cancel message", async () => {
     const config = makeConfig({ maxIterations: 10 });
@@ -371,7 +494,7 @@ describe("cancellation", () => {
     const bobMsg = await mq.receiveNonBlocking("bob");
     expect(bobMsg).not.toBeNull();
     expect(bobMsg!.type).toBe("complete");
-    expect(bobMsg!.content).toContain("cancelled");
+    expect(bobMsg!.payload).toMatchObject({ summary: "No longer needed", cancelled: true });
 
     // Cancellation state file written
     const state = await readIterationState(`${tmpDir}/${agentId}`, 1, "reflect");
@@ -379,6 +502,49 @@ describe("cancellation", () => {
   });
 });
 
+describe("in-flight cancellation", () => {
+  test("cancel aborts a streaming execute call and exits", async () => {
+    const config = makeConfig({ maxIterations: 10 });
+    await Bun.$`git init ${tmpDir}/${agentId}`.quiet();
+
+    let executeStarted!: () => void;
+    const started = new Promise<void>((resolve) => { executeStarted = resolve; });
+    const fake = new FakeProvider([
+      fakeText(JSON.stringify({ plan: "Long job", complexity: "complex", steps: [] })),
+      // Execute never finishes on its own
+      () => {
+        executeStarted();
+        return new Promise<Message>(() => {});
+      },
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const deps = makeDeps(createMockClient());
+    deps.claudeClient = client;
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Do the long job", timestamp: Date.now(),
+    });
+    const loop = runLifeLoop(config, deps);
+
+    await started;
+    await mq.send({
+      id: "cancel-1", from: "bob", to: agentId,
+      type: "cancel", content: "Plans changed", timestamp: Date.now(),
+    });
+    await loop;
+
+    expect(fake.requests).toHaveLength(2);
+    const bobMsg = await mq.receiveNonBlocking("bob");
+    expect(bobMsg!.type).toBe("complete");
+    expect(bobMsg!.payload).toMatchObject({ summary: "Plans changed", cancelled: true });
+
+    const state = await readIterationState(`${tmpDir}/${agentId}`, 1, "reflect");
+    expect(state!.output).toMatchObject({ cancelled: true });
+    expect(await readIterationState(`${tmpDir}/${agentId}`, 1, "execute")).toBeNull();
+  });
+});
+
 describe("token budget", () => {
   test("stops when token budget is exhausted", async () => {
     const config = makeConfig({ maxIterations: 10, tokenBudget: 200 });
@@ -431,6 +597,127 @@ describe("max iterations", () => {
   });
 });
 
+describe("scripted fake provider", () => {
+  test("runs a full iteration through ClaudeClient offline", async () => {
+    const config = makeConfig({ maxIterations: 1 });
+    const fake = new FakeProvider([
+      fakeText(JSON.stringify({ plan: "Write it", complexity: "complex", steps: [] })),
+      fakeText("Written"),
+      fakeText(JSON.stringify({
+        decision: "complete",
+        summary: { iteration: 1, plan: "p", outcome: "done offline", filesChanged: [], decisions: [] },
+      })),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const deps = makeDeps(createMockClient());
+    deps.claudeClient = client;
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Offline task", timestamp: Date.now(),
+    });
+
+    await runLifeLoop(config, deps);
+
+    expect(fake.requests).toHaveLength(3);
+    expect(fake.remaining()).toBe(0);
+    expect(client.getTokenUsage().total).toBe(450);
+
+    const reflectState = await readIterationState(`${tmpDir}/${agentId}`, 1, "reflect");
+    expect((reflectState!.output as { summary: { outcome: string } }).summary.outcome).toBe("done offline");
+  });
+});
+
+describe("model fallback", () => {
+  test("records fallbacks in the iteration state of the step that took them", async () => {
+    const config = makeConfig({
+      maxIterations: 1,
+      model: "claude-opus-4-6",
+      fallbackModels: ["claude-sonnet-4-6"],
+    });
+    const fake = new FakeProvider([
+      () => {
+        throw new ProviderHttpError(529, "Overloaded");
+      },
+      fakeText(JSON.stringify({ plan: "Write it", complexity: "complex" })),
+      fakeText("Written"),
+      fakeText(JSON.stringify({ decision: "complete", summary: { plan: "p", outcome: "done" } })),
+    ]);
+    const deps = makeDeps(createMockClient());
+    deps.claudeClient = new ClaudeClient({ providers: { anthropic: fake } });
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "Task", timestamp: Date.now(),
+    });
+
+    await runLifeLoop(config, deps);
+
+    expect(fake.requests.map((r) => r.model)).toEqual([
+      "claude-opus-4-6", "claude-sonnet-4-6", "claude-opus-4-6", "claude-opus-4-6",
+    ]);
+    const planState = await readIterationState(`${tmpDir}/${agentId}`, 1, "plan");
+    expect(planState!.fallbacks).toEqual([
+      { from: "claude-opus-4-6", to: "claude-sonnet-4-6", status: 529, timestamp: expect.any(Number) },
+    ]);
+    const execState = await readIterationState(`${tmpDir}/${agentId}`, 1, "execute");
+    expect(execState).not.toHaveProperty("fallbacks");
+  });
+});
+
+describe("extended thinking", () => {
+  test("applies per-step budgets and keeps thinking blocks across tool turns", async () => {
+    const config = makeConfig({ maxIterations: 1, thinkingBudgets: { plan: 4096, execute: 2048 } });
+    const fake = new FakeProvider([
+      fakeText(JSON.stringify({ plan: "List files", complexity: "complex", steps: [] })),
+      makeMessage({
+        model: "fake",
+        content: [
+          { type: "thinking", thinking: "ls is enough here", signature: "sig-1" },
+          toolUseBlock("bash", { command: "ls" }),
+        ],
+        stopReason: "tool_use",
+      }),
+      fakeText("Listed"),
+      fakeText(JSON.stringify({
+        decision: "complete",
+        summary: { iteration: 1, plan: "p", outcome: "o", filesChanged: [], decisions: [] },
+      })),
+    ]);
+    const client = new ClaudeClient({ providers: { anthropic: fake } });
+    const deps = makeDeps(createMockClient());
+    deps.claudeClient = client;
+
+    await mq.send({
+      id: "msg-1", from: "bob", to: agentId,
+      type: "task", content: "List files", timestamp: Date.now(),
+    });
+
+    await runLifeLoop(config, deps);
+
+    expect(fake.requests.map((r) => r.thinkingBudget)).toEqual([4096, 2048, 2048, undefined]);
+    // The thinking block goes back unchanged, signature included, before the tool use
+    const toolTurn = fake.requests[2]!.messages.at(-2)!;
+    expect(toolTurn.role).toBe("assistant");
+    expect((toolTurn.content as unknown[])[0]).toEqual({
+      type: "thinking", thinking: "ls is enough here", signature: "sig-1",
+    });
+  });
+
+  test("thinkingBudgetFor caps the budget at what is left and drops it below the minimum", () => {
+    const mock = createMockClient();
+    const config = makeConfig({ tokenBudget: 10_000, thinkingBudgets: { plan: 8000 } });
+    expect(thinkingBudgetFor(config, "plan", mock)).toBe(8000);
+    expect(thinkingBudgetFor(config, "execute", mock)).toBeUndefined();
+
+    mock.getTokenUsage = () => ({ input: 5000, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, total: 5000 });
+    expect(thinkingBudgetFor(config, "plan", mock)).toBe(5000);
+
+    mock.getTokenUsage = () => ({ input: 9500, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, total: 9500 });
+    expect(thinkingBudgetFor(config, "plan", mock)).toBeUndefined();
+  });
+});
+
 // ─── New Tests: Post-Loop Messaging (#2) ─────────────────────────
 
 describe("post-loop messaging", () => {
@@ -520,18 +807,17 @@ describe("configurable maxToolTurns", () => {
 
     // Plan
     mock.addResponse(() => planResponse("Run commands", "complex"));
-    // Execute: 3 tool calls (but maxToolTurns=2 so 3rd shouldn't happen)
+    // Execute: 2 tool calls; with maxToolTurns=2 there is no third turn
     mock.addResponse(() => toolUseResponse("bash", { command: "echo 1" }));
     mock.addResponse(() => toolUseResponse("bash", { command: "echo 2" }));
-    // This 4th response would be turn 3 — should not be called
-    mock.addResponse(() => textResponse("Should not reach here"));
-    // Reflect
+    // Reflect (a third execute turn would receive this instead)
     mock.addResponse(() => reflectResponse("complete"));
 
     await runLifeLoop(config, deps);
 
     // plan(1) + 2 tool turns + reflect(1) = 4 calls total
     expect(mock.callLog).toHaveLength(4);
+    expect(mock.callLog[3]!.step).toBe("reflect");
   });
 });
 
@@ -1,29 +1,56 @@
 import type {
   AgentConfig,
+  CompletePayload,
+  ErrorPayload,
   QueueMessage,
   IterationState,
+  IterationSummary,
+  ModelFallback,
+  PlanOutput,
   ReflectDecision,
   StepType,
+  SyncMode,
   TokenUsage,
 } from "./types.ts";
 import {
   ClaudeClient,
+  CallAbortedError,
   getTextContent,
+  getThinkingContent,
   getToolUseBlocks,
 } from "./claude-client.ts";
 import type {
+  CallResult,
   MessageParam,
+  ToolChoice,
   ToolUnion,
   ToolUseBlock,
   ContentBlock,
 } from "./claude-client.ts";
-import { MessageQueue } from "./message-queue.ts";
+import { MessageQueue, QueueFullError, queueLimitFromEnv } from "./message-queue.ts";
+import { messageHistoryPath } from "./message-history.ts";
+import { commitWithTrailers, currentHead, resetToCommit } from "./git-manager.ts";
+import { createModelResolver } from "./conflict-resolver.ts";
+import { syncConflictMessage, syncWithMain } from "./branch-sync.ts";
 import { ToolRegistry } from "./tool-registry.ts";
 import { ContextManager } from "./context-manager.ts";
+import { cassetteOptionsFromEnv, ReplayDivergenceError } from "./cassette.ts";
+import { RateLimiter, rateLimitsFromEnv } from "./rate-limiter.ts";
+import {
+  PLAN_OUTPUT,
+  REFLECT_OUTPUT,
+  StructuredOutputError,
+  parseJsonText,
+  repairPrompt,
+  validateStructured,
+} from "./structured-output.ts";
+import type { StructuredOutputSpec } from "./structured-output.ts";
 import {
   writeIterationState,
   readIterationState,
   getLastCompletedStep,
+  readAgentUsage,
+  writeAgentUsage,
 } from "./state-manager.ts";
 import {
   planPrompt,
@@ -48,11 +75,18 @@ import {
   logMaxIterations,
   logDebug,
   logMessageReceived,
+  logRedelivered,
+  logSync,
+  logReset,
+  logDeadLettered,
   logApiCall,
   logApiResult,
+  logThinking,
+  logOutputRepair,
   logToolResult,
   logReflectDecision,
   logContextAssembly,
+  createStreamPrinter,
 } from "./logger.ts";
 
 const MAX_IDLE_CYCLES = 30;
@@ -60,6 +94,13 @@ const MAX_SELF_RECOVERY = 3;
 const DEFAULT_MAX_TOOL_TURNS = 50;
 const TOOL_LOOP_COMPACT_AFTER = 8;
 const TOOL_LOOP_KEEP_RECENT = 4;
+const CANCEL_POLL_MS = 1000;
+// Most messages handled in one iteration (see takeRelated)
+const MAX_BATCH_MESSAGES = 10;
+// Re-asks for a plan or reflection that fails validation
+const MAX_OUTPUT_REPAIRS = 2;
+// Smallest thinking budget the API accepts
+const MIN_THINKING_BUDGET = 1024;
 
 export interface LifeLoopDeps {
   claudeClient: ClaudeClient;
@@ -71,10 +112,12 @@ export interface LifeLoopDeps {
 /**
  * Run the life loop for an agent. This is the core execution loop
  * shared by all agents (leader and teammates alike).
+ * `resumeFrom` is the "<iteration>-<step>" a crashed run last completed.
  */
 export async function runLifeLoop(
   config: AgentConfig,
   deps: LifeLoopDeps,
+  resumeFrom: string | undefined = process.env.RESUME_FROM,
 ): Promise<void> {
   const { claudeClient, messageQueue, toolRegistry, contextManager } = deps;
   const agentDir = `${config.workspacePath}/${config.name}`;
@@ -89,15 +132,35 @@ export async function runLifeLoop(
   const allStates: IterationState[] = [];
 
   // Check for crash recovery
-  const resumeFrom = process.env.RESUME_FROM;
   if (resumeFrom) {
     const recovered = await recoverState(agentDir, resumeFrom, allStates);
     iteration = recovered.iteration;
     lastComplexity = recovered.lastComplexity;
+    // Whatever the crashed run did after its last reflection is redone
+    const reflected = lastReflectedCommit(allStates);
+    if (reflected) {
+      const reset = await resetToCommit(agentDir, reflected);
+      logReset(config, reflected, reset.exitCode === 0 ? null : reset.stderr);
+    }
   }
 
   logAgentStart(config);
 
+  // Messages a crashed run received but never finished are handled first
+  const redelivered = await messageQueue.requeueUnacked(config.name);
+  if (redelivered > 0) {
+    logRedelivered(config, redelivered);
+  }
+  await reportDeadLetters(config, messageQueue);
+
+  if (config.channels?.length) {
+    // A respawned agent already received the retained history
+    const replayed = await messageQueue.subscribe(config.name, config.channels, {
+      history: config.channelHistory && !resumeFrom,
+    });
+    logDebug(config, `subscribed to channels ${config.channels.join(", ")}; ${replayed} retained message(s) queued`);
+  }
+
   while (iteration <= config.maxIterations) {
     // Check token budget
     const usage = claudeClient.getTokenUsage();
@@ -106,8 +169,9 @@ export async function runLifeLoop(
       break;
     }
 
-    // 1. Check for messages
+    // 1. Check for messages (cancels and leader directives come first)
     const message = await messageQueue.receive(config.name, 5);
+    await reportDeadLetters(config, messageQueue);
 
     if (message) {
       idleCycles = 0;
@@ -117,34 +181,28 @@ export async function runLifeLoop(
       if (message.type === "cancel") {
         logCancel(config, message.content);
         await handleCancellation(config, message, messageQueue, allStates, iteration, agentDir);
+        await messageQueue.ack(message.id);
         return;
       }
     } else {
       // No message received
       idleCycles++;
 
-      // Check for cancel via non-blocking pop
-      const cancelCheck = await messageQueue.receiveNonBlocking(config.name);
-      if (cancelCheck?.type === "cancel") {
-        logCancel(config, cancelCheck.content);
-        await handleCancellation(config, cancelCheck, messageQueue, allStates, iteration, agentDir);
-        return;
-      }
-      // Put it back if it wasn't a cancel
-      if (cancelCheck) {
-        await messageQueue.send(cancelCheck, config.workspacePath);
-      }
-
       if (idleCycles >= MAX_IDLE_CYCLES) {
         logIdle(config, idleCycles);
-        await messageQueue.send({
-          id: crypto.randomUUID(),
-          from: config.name,
-          to: "bob",
-          type: "status",
-          content: `Agent ${config.name} has been idle for ${idleCycles} cycles. Awaiting direction.`,
-          timestamp: Date.now(),
-        });
+        try {
+          await messageQueue.send({
+            id: crypto.randomUUID(),
+            from: config.name,
+            to: "bob",
+            type: "status",
+            content: `Agent ${config.name} has been idle for ${idleCycles} cycles. Awaiting direction.`,
+            timestamp: Date.now(),
+          });
+        } catch (err) {
+          // The leader has enough to read already
+          if (!(err instanceof QueueFullError)) throw err;
+        }
         idleCycles = 0;
       }
 
@@ -166,7 +224,9 @@ export async function runLifeLoop(
     // Scan for dynamic tools
     await toolRegistry.scanDynamic(config.workspacePath);
 
-    const currentMessages = message ? [message] : [];
+    const currentMessages = [message, ...await takeRelated(config, messageQueue, message)];
+    const syncConflict = await syncBranch(config, agentDir);
+    if (syncConflict) currentMessages.push(syncConflict);
     let iterationTokens: TokenUsage = { input: 0, output: 0 };
 
     try {
@@ -178,7 +238,14 @@ export async function runLifeLoop(
           config, deps, allStates, currentMessages, iteration,
         );
         iterationTokens = addTokens(iterationTokens, peResult.tokensUsed);
+        if (peResult.cancel) {
+          logCancel(config, peResult.cancel.content);
+          await handleCancellation(config, peResult.cancel, messageQueue, allStates, iteration, agentDir);
+          await ackAll(messageQueue, currentMessages);
+          return;
+        }
         logStepComplete(config, "plan-execute", peResult.tokensUsed);
+        const peCommit = await commitStep(config, agentDir, iteration, "plan-execute", peResult.tokensUsed, currentMessages);
 
         await writeIterationState(agentDir, iteration, "plan-execute", {
           iteration,
@@ -188,6 +255,8 @@ export async function runLifeLoop(
           output: peResult.output,
           tokensUsed: peResult.tokensUsed,
           complexity: peResult.complexity,
+          ...fallbackFields(peResult.fallbacks),
+          ...(peCommit ? { commit: peCommit } : {}),
         });
         allStates.push({
           iteration,
@@ -197,6 +266,8 @@ export async function runLifeLoop(
           output: peResult.output,
           tokensUsed: peResult.tokensUsed,
           complexity: peResult.complexity,
+          ...fallbackFields(peResult.fallbacks),
+          ...(peCommit ? { commit: peCommit } : {}),
         });
 
       } else {
@@ -219,6 +290,7 @@ export async function runLifeLoop(
           output: planResult.output,
           tokensUsed: planResult.tokensUsed,
           complexity: planResult.complexity,
+          ...fallbackFields(planResult.fallbacks),
         };
         await writeIterationState(agentDir, iteration, "plan", planState);
         allStates.push(planState);
@@ -228,7 +300,14 @@ export async function runLifeLoop(
           config, deps, allStates, planResult.plan, iteration,
         );
         iterationTokens = addTokens(iterationTokens, execResult.tokensUsed);
+        if (execResult.cancel) {
+          logCancel(config, execResult.cancel.content);
+          await handleCancellation(config, execResult.cancel, messageQueue, allStates, iteration, agentDir);
+          await ackAll(messageQueue, currentMessages);
+          return;
+        }
         logStepComplete(config, "execute", execResult.tokensUsed);
+        const execCommit = await commitStep(config, agentDir, iteration, "execute", execResult.tokensUsed, currentMessages);
 
         const execState: IterationState = {
           iteration,
@@ -237,6 +316,8 @@ export async function runLifeLoop(
           input: planResult.plan,
           output: execResult.output,
           tokensUsed: execResult.tokensUsed,
+          ...fallbackFields(execResult.fallbacks),
+          ...(execCommit ? { commit: execCommit } : {}),
         };
         await writeIterationState(agentDir, iteration, "execute", execState);
         allStates.push(execState);
@@ -257,12 +338,17 @@ export async function runLifeLoop(
         input: null,
         output: reflectResult.decision,
         tokensUsed: reflectResult.tokensUsed,
+        ...fallbackFields(reflectResult.fallbacks),
       };
       await writeIterationState(agentDir, iteration, "reflect", reflectState);
       allStates.push(reflectState);
+      // The iteration is on disk; a crash from here on must not redo it
+      await ackAll(messageQueue, currentMessages);
 
       // Update context manager with actual token usage
-      contextManager.updateTokenUsage(iterationTokens.input);
+      contextManager.updateTokenUsage(
+        iterationTokens.input + (iterationTokens.cacheRead ?? 0) + (iterationTokens.cacheWrite ?? 0),
+      );
 
       // Act on reflect decision
       lastComplexity = reflectResult.complexity;
@@ -284,14 +370,16 @@ export async function runLifeLoop(
           break;
         }
         case "complete": {
-          logComplete(config, reflectResult.decision.summary.outcome);
+          const { outcome, filesChanged } = reflectResult.decision.summary;
+          logComplete(config, outcome);
           await messageQueue.send({
             id: crypto.randomUUID(),
             from: config.name,
             to: "bob",
             type: "complete",
-            content: reflectResult.decision.summary.outcome,
+            content: outcome,
             timestamp: Date.now(),
+            payload: await completePayload(agentDir, outcome, filesChanged),
           });
           // Soft compaction for final state
           if (compactionNeeded === "soft") {
@@ -305,13 +393,15 @@ export async function runLifeLoop(
           selfRecoveryAttempts++;
           if (selfRecoveryAttempts >= MAX_SELF_RECOVERY) {
             logEscalation(config, `${MAX_SELF_RECOVERY} failed recovery attempts: ${reflectResult.decision.errorDetails ?? "unknown error"}`);
+            const details = `Agent ${config.name} stuck after ${MAX_SELF_RECOVERY} recovery attempts: ${reflectResult.decision.errorDetails ?? "unknown error"}`;
             await messageQueue.send({
               id: crypto.randomUUID(),
               from: config.name,
               to: "bob",
               type: "error",
-              content: `Agent ${config.name} stuck after ${MAX_SELF_RECOVERY} recovery attempts: ${reflectResult.decision.errorDetails ?? "unknown error"}`,
+              content: details,
               timestamp: Date.now(),
+              payload: { details, recoverable: true } satisfies ErrorPayload,
             });
             selfRecoveryAttempts = 0;
           } else {
@@ -331,27 +421,52 @@ export async function runLifeLoop(
       }
     } catch (err) {
       logError(config, `Iteration ${iteration}: ${err instanceof Error ? err.message : String(err)}`);
+      // A diverged replay can never recover — retrying would only diverge further
+      if (err instanceof ReplayDivergenceError) {
+        throw err;
+      }
       selfRecoveryAttempts++;
       if (selfRecoveryAttempts >= MAX_SELF_RECOVERY) {
+        const details = `Agent ${config.name} crashed: ${err instanceof Error ? err.message : String(err)}`;
         await messageQueue.send({
           id: crypto.randomUUID(),
           from: config.name,
           to: "bob",
           type: "error",
-          content: `Agent ${config.name} crashed: ${err instanceof Error ? err.message : String(err)}`,
+          content: details,
           timestamp: Date.now(),
+          payload: { details, recoverable: false } satisfies ErrorPayload,
         });
+        await ackAll(messageQueue, currentMessages);
         return;
       }
-      // Self-queue a retry
-      await messageQueue.send({
-        id: crypto.randomUUID(),
-        from: config.name,
-        to: config.name,
-        type: "task",
-        content: `Retry after error: ${err instanceof Error ? err.message : String(err)}`,
-        timestamp: Date.now(),
-      });
+      // Work that keeps failing, across respawns too, is given up on
+      const attempts = (message.attempts ?? 0) + 1;
+      if (attempts >= messageQueue.maxAttempts) {
+        await messageQueue.deadLetter(
+          config.name,
+          { ...message, attempts },
+          `failed ${attempts} times: ${err instanceof Error ? err.message : String(err)}`,
+        );
+        await reportDeadLetters(config, messageQueue);
+      } else {
+        // Self-queue a retry; it replaces the failed message and carries its failure count
+        await messageQueue.send({
+          id: crypto.randomUUID(),
+          from: config.name,
+          to: config.name,
+          type: "task",
+          content: `Retry after error: ${err instanceof Error ? err.message : String(err)}`,
+          timestamp: Date.now(),
+          attempts,
+        });
+        await messageQueue.ack(message.id);
+      }
+      // The rest of the batch is received again, each as a failed delivery
+      if (currentMessages.length > 1) {
+        await messageQueue.requeueUnacked(config.name);
+        await reportDeadLetters(config, messageQueue);
+      }
     }
 
     iteration++;
@@ -394,6 +509,10 @@ interface StepResult {
   tokensUsed: TokenUsage;
   plan: string;
   complexity: "simple" | "complex";
+  /** Model fallbacks taken during the step. */
+  fallbacks: ModelFallback[];
+  /** Cancel message that interrupted the step, if any. */
+  cancel?: QueueMessage;
 }
 
 async function doPlan(
@@ -412,21 +531,11 @@ async function doPlan(
 
   const finalMessages = ensureMessages(messages, "What is your plan for this iteration?");
   logContextAssembly(config, allStates.length, currentMessages.length, finalMessages.length, finalMessages.map(m => m.role));
-  logApiCall(config, "plan", finalMessages.length, finalMessages.map(m => m.role), false);
-
-  const { response, tokensUsed } = await deps.claudeClient.call({
-    model: config.model,
-    systemPrompt,
-    messages: finalMessages,
-  });
-  logApiResult(config, "plan", tokensUsed, response.stop_reason ?? "unknown", response.content.map(b => b.type));
-
-  const text = getTextContent(response);
-  const parsed = safeParseJson(text);
-  const plan = typeof parsed?.plan === "string" ? parsed.plan : text;
-  const complexity = parsed?.complexity === "simple" ? "simple" : "complex";
+  const { value, tokensUsed, fallbacks } = await callStructured<PlanOutput>(
+    config, deps, "plan", systemPrompt, finalMessages, PLAN_OUTPUT,
+  );
 
-  return { output: parsed ?? text, tokensUsed, plan, complexity };
+  return { output: value, tokensUsed, plan: value.plan, complexity: value.complexity, fallbacks };
 }
 
 async function doExecute(
@@ -452,12 +561,19 @@ async function doExecute(
   logDebug(config, `execute: ${tools.length} tools available`);
 
   const result = await executeWithToolLoop(
-    config, deps, systemPrompt,
+    config, deps, "execute", systemPrompt,
     finalMessages,
     tools,
   );
 
-  return { output: result.output, tokensUsed: result.tokensUsed, plan, complexity: "complex" };
+  return {
+    output: result.output,
+    tokensUsed: result.tokensUsed,
+    plan,
+    complexity: "complex",
+    fallbacks: result.fallbacks,
+    cancel: result.cancel,
+  };
 }
 
 async function doPlanExecute(
@@ -483,17 +599,24 @@ async function doPlanExecute(
   logDebug(config, `plan-execute: ${tools.length} tools available`);
 
   const result = await executeWithToolLoop(
-    config, deps, systemPrompt,
+    config, deps, "plan-execute", systemPrompt,
     finalMessages,
     tools,
   );
 
   // Try to extract complexity from the response text
   const text = typeof result.output === "string" ? result.output : JSON.stringify(result.output);
-  const parsed = safeParseJson(text);
+  const parsed = parseJsonText(text) as Record<string, unknown> | null | undefined;
   const complexity = parsed?.complexity === "complex" ? "complex" : "simple";
 
-  return { output: result.output, tokensUsed: result.tokensUsed, plan: text, complexity };
+  return {
+    output: result.output,
+    tokensUsed: result.tokensUsed,
+    plan: text,
+    complexity,
+    fallbacks: result.fallbacks,
+    cancel: result.cancel,
+  };
 }
 
 async function doReflect(
@@ -501,7 +624,12 @@ async function doReflect(
   deps: LifeLoopDeps,
   allStates: IterationState[],
   iteration: number,
-): Promise<{ decision: ReflectDecision; tokensUsed: TokenUsage; complexity: "simple" | "complex" }> {
+): Promise<{
+  decision: ReflectDecision;
+  tokensUsed: TokenUsage;
+  complexity: "simple" | "complex";
+  fallbacks: ModelFallback[];
+}> {
   // Calculate remaining budget for the reflect prompt
   const usage = deps.claudeClient.getTokenUsage();
   const tokensLeft = Math.max(0, config.tokenBudget - usage.total);
@@ -517,49 +645,20 @@ async function doReflect(
 
   const finalMessages = ensureMessages(messages, "Reflect on this iteration's results.");
   logContextAssembly(config, allStates.length, 0, finalMessages.length, finalMessages.map(m => m.role));
-  logApiCall(config, "reflect", finalMessages.length, finalMessages.map(m => m.role), false);
-
-  const { response, tokensUsed } = await deps.claudeClient.call({
-    model: config.model,
-    systemPrompt,
-    messages: finalMessages,
-  });
-  logApiResult(config, "reflect", tokensUsed, response.stop_reason ?? "unknown", response.content.map(b => b.type));
-
-  const text = getTextContent(response);
-  const parsed = safeParseJson(text);
-
-  const validDecisions = ["continue", "complete", "error"] as const;
-  const rawDecision = parsed?.decision as string | undefined;
-  const parsedDecision = validDecisions.includes(rawDecision as typeof validDecisions[number])
-    ? (rawDecision as ReflectDecision["decision"])
-    : "continue";
+  const { value, tokensUsed, fallbacks } = await callStructured<ReflectOutput>(
+    config, deps, "reflect", systemPrompt, finalMessages, REFLECT_OUTPUT,
+  );
 
-  const decision: ReflectDecision = parsed
-    ? {
-        decision: parsedDecision,
-        summary: (parsed.summary as ReflectDecision["summary"]) ?? {
-          iteration,
-          plan: "Unknown",
-          outcome: "Unknown",
-          filesChanged: [],
-          decisions: [],
-        },
-        nextMessage: parsed.nextMessage as string | undefined,
-        errorDetails: parsed.errorDetails as string | undefined,
-        selfRecoveryAttempt: parsed.selfRecoveryAttempt as number | undefined,
-      }
-    : {
-        decision: "continue",
-        summary: {
-          iteration,
-          plan: "Could not parse reflection",
-          outcome: text.slice(0, 200),
-          filesChanged: [],
-          decisions: [],
-        },
-        nextMessage: "Retry — reflection output was not valid JSON.",
-      };
+  // Only plan and outcome are required of the summary
+  const decision: ReflectDecision = {
+    ...value,
+    summary: {
+      iteration,
+      filesChanged: [],
+      decisions: [],
+      ...value.summary,
+    },
+  };
 
   // Determine complexity for next iteration from the plan states
   const planState = allStates.find(
@@ -568,7 +667,84 @@ async function doReflect(
   const complexity =
     planState?.complexity === "simple" ? "simple" : "complex";
 
-  return { decision, tokensUsed, complexity };
+  return { decision, tokensUsed, complexity, fallbacks };
+}
+
+// ─── Structured Output ───────────────────────────────────────────
+
+/** Reflect output as submitted, before summary defaults are filled in. */
+type ReflectOutput = Omit<ReflectDecision, "summary"> & {
+  summary: Pick<IterationSummary, "plan" | "outcome"> & Partial<IterationSummary>;
+};
+
+/**
+ * Call the model for a step whose output is submitted through the spec's
+ * tool. Invalid output is sent back with the validation errors, up to
+ * MAX_OUTPUT_REPAIRS times, before failing with StructuredOutputError.
+ */
+async function callStructured<T>(
+  config: AgentConfig,
+  deps: LifeLoopDeps,
+  step: "plan" | "reflect",
+  systemPrompt: string,
+  messages: MessageParam[],
+  spec: StructuredOutputSpec,
+): Promise<{ value: T; tokensUsed: TokenUsage; fallbacks: ModelFallback[] }> {
+  const thinkingBudget = thinkingBudgetFor(config, step, deps.claudeClient);
+  // The API does not allow forcing a tool while thinking is enabled; the
+  // prompt still asks for the tool, and a text answer is validated too
+  const toolChoice: ToolChoice = thinkingBudget
+    ? { type: "auto" }
+    : { type: "tool", name: spec.tool.name };
+  const conversation = [...messages];
+  let tokensUsed: TokenUsage = { input: 0, output: 0 };
+  const fallbacks: ModelFallback[] = [];
+
+  for (let attempt = 0; ; attempt++) {
+    logApiCall(config, step, conversation.length, conversation.map(m => m.role), true);
+    const result = await deps.claudeClient.call({
+      model: config.model,
+      systemPrompt,
+      messages: conversation,
+      tools: [spec.tool],
+      toolChoice,
+      cachePrefixLength: deps.contextManager.getStablePrefixLength(),
+      thinkingBudget,
+      fallbackModels: config.fallbackModels,
+      agent: config.name,
+      step,
+    });
+    const { response } = result;
+    tokensUsed = addTokens(tokensUsed, result.tokensUsed);
+    fallbacks.push(...(result.fallbacks ?? []));
+    logApiResult(config, step, result.tokensUsed, response.stop_reason ?? "unknown", response.content.map(b => b.type));
+    const thinking = getThinkingContent(response);
+    if (thinking) logThinking(config, step, thinking);
+
+    const toolUse = getToolUseBlocks(response).find((b) => b.name === spec.tool.name);
+    const { value, errors } = validateStructured<T>(
+      spec.schema,
+      toolUse ? toolUse.input : getTextContent(response),
+    );
+    if (errors.length === 0) {
+      return { value, tokensUsed, fallbacks };
+    }
+    if (attempt >= MAX_OUTPUT_REPAIRS) {
+      throw new StructuredOutputError(step, errors);
+    }
+
+    logOutputRepair(config, step, errors, attempt + 1, MAX_OUTPUT_REPAIRS);
+    const feedback = repairPrompt(spec, errors);
+    conversation.push(
+      { role: "assistant", content: response.content as ContentBlock[] },
+      {
+        role: "user",
+        content: toolUse
+          ? [{ type: "tool_result", tool_use_id: toolUse.id, content: feedback, is_error: true }]
+          : feedback,
+      },
+    );
+  }
 }
 
 // ─── Tool Call Loop ──────────────────────────────────────────────
@@ -576,24 +752,53 @@ async function doReflect(
 async function executeWithToolLoop(
   config: AgentConfig,
   deps: LifeLoopDeps,
+  step: "execute" | "plan-execute",
   systemPrompt: string,
   messages: MessageParam[],
   tools: ToolUnion[],
-): Promise<{ output: unknown; tokensUsed: TokenUsage }> {
+): Promise<{ output: unknown; tokensUsed: TokenUsage; fallbacks: ModelFallback[]; cancel?: QueueMessage }> {
   const maxToolTurns = config.maxToolTurns ?? DEFAULT_MAX_TOOL_TURNS;
   let currentMessages = [...messages];
   let totalTokens: TokenUsage = { input: 0, output: 0 };
+  const fallbacks: ModelFallback[] = [];
   let turns = 0;
 
   while (turns < maxToolTurns) {
     logApiCall(config, `execute/turn-${turns}`, currentMessages.length, currentMessages.map(m => m.role), tools.length > 0);
 
-    const { response, tokensUsed } = await deps.claudeClient.call({
-      model: config.model,
-      systemPrompt,
-      messages: currentMessages,
-      tools: tools.length > 0 ? tools : undefined,
-    });
+    // Stream the turn to the log and abort it if a cancel arrives meanwhile
+    const printer = createStreamPrinter(config, `${step}/turn-${turns}`);
+    const watcher = watchForCancel(deps.messageQueue, config.name);
+    let result: CallResult | undefined;
+    try {
+      result = await deps.claudeClient.call({
+        model: config.model,
+        systemPrompt,
+        messages: currentMessages,
+        tools: tools.length > 0 ? tools : undefined,
+        // Each turn resends the conversation so far, so cache all of it
+        cachePrefixLength: currentMessages.length,
+        thinkingBudget: thinkingBudgetFor(config, step, deps.claudeClient),
+        fallbackModels: config.fallbackModels,
+        agent: config.name,
+        step,
+        stream: printer,
+        signal: watcher.signal,
+      });
+    } catch (err) {
+      if (!(err instanceof CallAbortedError)) throw err;
+      totalTokens = addTokens(totalTokens, err.usage);
+    } finally {
+      printer.end();
+      await watcher.stop();
+    }
+    fallbacks.push(...(result?.fallbacks ?? []));
+    if (watcher.cancel) {
+      if (result) totalTokens = addTokens(totalTokens, result.tokensUsed);
+      logDebug(config, `${step} interrupted by cancel after ${turns} turns`);
+      return { output: "Cancelled mid-turn", tokensUsed: totalTokens, fallbacks, cancel: watcher.cancel };
+    }
+    const { response, tokensUsed } = result!;
     totalTokens = addTokens(totalTokens, tokensUsed);
     logApiResult(config, `execute/turn-${turns}`, tokensUsed, response.stop_reason ?? "unknown", response.content.map(b => b.type));
 
@@ -605,6 +810,7 @@ async function executeWithToolLoop(
       return {
         output: getTextContent(response) || response.content,
         tokensUsed: totalTokens,
+        fallbacks,
       };
     }
 
@@ -656,6 +862,47 @@ async function executeWithToolLoop(
   return {
     output: `Tool loop terminated after ${maxToolTurns} turns`,
     tokensUsed: totalTokens,
+    fallbacks,
+  };
+}
+
+/**
+ * Poll an agent's queue for a cancel message while a model call is in
+ * flight, and abort the call when one arrives. Call stop() when the call
+ * settles; `cancel` then holds the cancel message, if one was taken.
+ */
+function watchForCancel(messageQueue: MessageQueue, agentName: string) {
+  const controller = new AbortController();
+  let cancel: QueueMessage | null = null;
+  let polling: Promise<void> | null = null;
+
+  const timer = setInterval(() => {
+    if (polling) return;
+    polling = messageQueue.takeCancel(agentName)
+      .then((msg) => {
+        if (msg && !cancel) {
+          cancel = msg;
+          controller.abort();
+        }
+      })
+      .catch(() => {
+        // Queue unavailable — the call just runs to completion
+      })
+      .finally(() => {
+        polling = null;
+      });
+  }, CANCEL_POLL_MS);
+
+  return {
+    signal: controller.signal,
+    get cancel() {
+      return cancel;
+    },
+    async stop() {
+      clearInterval(timer);
+      // A poll in flight may still take a cancel; it must not be lost
+      await polling;
+    },
   };
 }
 
@@ -729,6 +976,84 @@ export function compactToolMessages(
   ];
 }
 
+// ─── Message Batches ─────────────────────────────────────────────
+
+/**
+ * Take the messages waiting behind `first` in its lane that come from
+ * the same sender (and channel), so a run of them costs one iteration
+ * instead of one each. Cancels are left for the next receive.
+ */
+async function takeRelated(
+  config: AgentConfig,
+  messageQueue: MessageQueue,
+  first: QueueMessage,
+): Promise<QueueMessage[]> {
+  const related = await messageQueue.receiveBatch(
+    config.name,
+    first.priority ?? "normal",
+    (m) => m.type !== "cancel" && m.from === first.from && m.channel === first.channel,
+    MAX_BATCH_MESSAGES - 1,
+  );
+  for (const m of related) logMessageReceived(config, m);
+  return related;
+}
+
+async function ackAll(messageQueue: MessageQueue, messages: QueueMessage[]): Promise<void> {
+  for (const m of messages) await messageQueue.ack(m.id);
+}
+
+// ─── Branch Sync ─────────────────────────────────────────────────
+
+/**
+ * Bring main into the agent's branch before it plans, so branches stay
+ * close to main and conflicts surface early, in the agent that caused
+ * them. Returns a review of the hunks if syncing hit conflicts.
+ */
+async function syncBranch(config: AgentConfig, agentDir: string): Promise<QueueMessage | null> {
+  if (!config.sync || config.sync === "off") return null;
+  const report = await syncWithMain(agentDir, config.sync);
+  const files = report.conflicts?.map((c) => c.file).join(", ");
+  logSync(config, report.status, files ?? report.reason ?? report.upstream ?? "");
+  return report.status === "conflict" ? syncConflictMessage(config.name, config.sync, report) : null;
+}
+
+// ─── Step Commits ────────────────────────────────────────────────
+
+/**
+ * Commit whatever a step changed in the agent's tree, so that `git log`
+ * records every step's work and the iteration state can point at it.
+ * Trailers say which agent, iteration and step made the commit, what it
+ * cost, and which messages it was handling. Returns the commit the tree
+ * is at; undefined if the agent directory is not a repo.
+ */
+async function commitStep(
+  config: AgentConfig,
+  agentDir: string,
+  iteration: number,
+  step: StepType,
+  tokensUsed: TokenUsage,
+  messages: QueueMessage[],
+): Promise<string | undefined> {
+  const commit = await commitWithTrailers(agentDir, `${config.name}: iteration ${iteration} ${step}`, [
+    ["Agent", config.name],
+    ["Iteration", String(iteration)],
+    ["Step", step],
+    ["Tokens-Input", String(tokensUsed.input)],
+    ["Tokens-Output", String(tokensUsed.output)],
+    ...messages.map((m): [string, string] => ["Message-Id", m.id]),
+  ]);
+  return commit ?? undefined;
+}
+
+/**
+ * The commit of the last iteration that got as far as reflecting, i.e.
+ * the tree as the agent last judged it.
+ */
+function lastReflectedCommit(states: IterationState[]): string | undefined {
+  const reflected = new Set(states.filter((s) => s.step === "reflect").map((s) => s.iteration));
+  return states.findLast((s) => s.commit && reflected.has(s.iteration))?.commit;
+}
+
 // ─── Cancellation ────────────────────────────────────────────────
 
 async function handleCancellation(
@@ -759,18 +1084,68 @@ async function handleCancellation(
   }
 
   // Notify leader
+  const payload = await completePayload(agentDir, message.content);
+  payload.cancelled = true;
   await messageQueue.send({
     id: crypto.randomUUID(),
     from: config.name,
     to: "bob",
     type: "complete",
-    content: JSON.stringify({ cancelled: true, reason: message.content }),
+    content: `Cancelled: ${message.content}`,
     timestamp: Date.now(),
+    payload,
   });
 
   logCancel(config, "exiting");
 }
 
+/**
+ * Tell the leader, in one summary, about messages the queue gave up on.
+ * The leader reports its own to the main process.
+ */
+async function reportDeadLetters(
+  config: AgentConfig,
+  messageQueue: MessageQueue,
+): Promise<void> {
+  const letters = messageQueue.drainDeadLetters();
+  if (letters.length === 0) return;
+  logDeadLettered(config, letters.length);
+  const lines = letters.map((letter) => {
+    const what = letter.message
+      ? `${letter.message.type} from ${letter.message.from}: ${letter.message.content.slice(0, 200)}`
+      : `unreadable payload: ${(letter.raw ?? "").slice(0, 200)}`;
+    return `- ${what} (${letter.reason})`;
+  });
+  const details = `Agent ${config.name} gave up on ${letters.length} message(s), now in its dead-letter queue:\n${lines.join("\n")}`;
+  await messageQueue.send({
+    id: crypto.randomUUID(),
+    from: config.name,
+    to: config.name === "bob" ? "main" : "bob",
+    type: "error",
+    content: details,
+    timestamp: Date.now(),
+    payload: { details, recoverable: true } satisfies ErrorPayload,
+  });
+}
+
+/**
+ * Completion data for the leader: where the agent's work is, so it can
+ * be merged without asking. Branch and commit are left out if the agent
+ * directory has no commits.
+ */
+async function completePayload(
+  agentDir: string,
+  summary: string,
+  filesChanged?: string[],
+): Promise<CompletePayload> {
+  const head = await currentHead(agentDir);
+  return {
+    summary,
+    ...(head ? { branch: head.branch, commit: head.commit } : {}),
+    ...(filesChanged?.length ? { filesChanged } : {}),
+  };
+}
+
 // ─── Crash Recovery ──────────────────────────────────────────────
 
 async function recoverState(
@@ -857,19 +1232,50 @@ function ensureMessages(
   return result;
 }
 
-function safeParseJson(text: string): Record<string, unknown> | null {
-  try {
-    // Try to extract JSON from the text (handle markdown code blocks)
-    const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
-    const toParse = jsonMatch ? jsonMatch[1]!.trim() : text.trim();
-    return JSON.parse(toParse) as Record<string, unknown>;
-  } catch {
-    return null;
-  }
+/**
+ * Iteration-state fields for a step's model fallbacks; empty when the
+ * step ran on its configured model throughout.
+ */
+function fallbackFields(fallbacks: ModelFallback[]): Pick<IterationState, "fallbacks"> {
+  return fallbacks.length > 0 ? { fallbacks } : {};
 }
 
 function addTokens(a: TokenUsage, b: TokenUsage): TokenUsage {
-  return { input: a.input + b.input, output: a.output + b.output };
+  const sum: TokenUsage = { input: a.input + b.input, output: a.output + b.output };
+  const cacheRead = (a.cacheRead ?? 0) + (b.cacheRead ?? 0);
+  const cacheWrite = (a.cacheWrite ?? 0) + (b.cacheWrite ?? 0);
+  const cost = (a.cost ?? 0) + (b.cost ?? 0);
+  if (cacheRead) sum.cacheRead = cacheRead;
+  if (cacheWrite) sum.cacheWrite = cacheWrite;
+  if (cost) sum.cost = cost;
+  return sum;
+}
+
+/**
+ * Thinking budget for a step: the configured budget, capped at the
+ * agent's remaining token budget. Below the API minimum, thinking is
+ * left off.
+ */
+export function thinkingBudgetFor(
+  config: AgentConfig,
+  step: StepType,
+  claudeClient: ClaudeClient,
+): number | undefined {
+  const configured = config.thinkingBudgets?.[step];
+  if (!configured) return undefined;
+  const remaining = config.tokenBudget - claudeClient.getTokenUsage().total;
+  const budget = Math.min(configured, remaining);
+  return budget >= MIN_THINKING_BUDGET ? budget : undefined;
+}
+
+function sumUsage(a: Required<TokenUsage>, b: Required<TokenUsage>): Required<TokenUsage> {
+  return {
+    input: a.input + b.input,
+    output: a.output + b.output,
+    cacheRead: a.cacheRead + b.cacheRead,
+    cacheWrite: a.cacheWrite + b.cacheWrite,
+    cost: a.cost + b.cost,
+  };
 }
 
 // ─── Subprocess Entry Point ──────────────────────────────────────
@@ -887,10 +1293,40 @@ export async function bootstrapAgent(): Promise<void> {
   }
 
   const config = JSON.parse(configJson) as AgentConfig;
+  const agentDir = `${config.workspacePath}/${config.name}`;
+
+  // Usage before a respawn carries over so the session's spend stays cumulative
+  const previousUsage = await readAgentUsage(agentDir);
+  let usageWrite = Promise.resolve();
+
+  // The leader may use the reserve that workers leave in the shared buckets
+  const rateLimits = rateLimitsFromEnv();
+  const rateLimiter = rateLimits
+    ? new RateLimiter(
+        config.valkeyUrl,
+        rateLimits,
+        config.name === "bob" ? "high" : "normal",
+        Date.now,
+        config.sessionId,
+      )
+    : undefined;
 
   // Create dependencies
-  const claudeClient = new ClaudeClient();
-  const messageQueue = new MessageQueue(config.valkeyUrl);
+  const claudeClient = new ClaudeClient({
+    cassette: cassetteOptionsFromEnv(config.name, config.workspacePath),
+    rateLimiter,
+    onUsage: (usage) => {
+      const cumulative = previousUsage ? sumUsage(previousUsage, usage) : usage;
+      usageWrite = usageWrite
+        .then(() => writeAgentUsage(agentDir, cumulative))
+        .catch(() => {});
+    },
+  });
+  const messageQueue = new MessageQueue(config.valkeyUrl, {
+    historyPath: messageHistoryPath(config.workspacePath),
+    sessionId: config.sessionId,
+    queueLimit: queueLimitFromEnv(),
+  });
   const toolRegistry = new ToolRegistry();
   const contextManager = new ContextManager(config.model);
 
@@ -911,24 +1347,43 @@ export async function bootstrapAgent(): Promise<void> {
         ? {
             workspacePath: config.workspacePath,
             valkeyUrl: config.valkeyUrl,
+            sessionId: config.sessionId,
             defaultModel: process.env.SEALTEAM_TEAM_MODEL ?? "claude-sonnet-4-6",
+            defaultFallbackModels: config.fallbackModels,
             defaultBudget: parseInt(process.env.SEALTEAM_DEFAULT_BUDGET ?? "100000", 10),
             defaultMaxIterations: parseInt(process.env.SEALTEAM_DEFAULT_MAX_ITERATIONS ?? "50", 10),
             maxWorkers: parseInt(process.env.SEALTEAM_MAX_AGENTS ?? "6", 10),
+            worktrees: process.env.SEALTEAM_WORKTREES === "1",
+            sync: (process.env.SEALTEAM_SYNC as SyncMode | undefined) ?? "merge",
             spawnCommand,
           }
         : undefined,
+    mergeContext:
+      config.name === "bob"
+        ? {
+            leaderDir: `${config.workspacePath}/${config.name}`,
+            workspacePath: config.workspacePath,
+            verifyCommand: process.env.SEALTEAM_VERIFY_COMMAND || undefined,
+            resolver: createModelResolver(claudeClient, config.model, config.name),
+            messageQueue,
+            leaderName: config.name,
+          }
+        : undefined,
   });
 
   const deps: LifeLoopDeps = { claudeClient, messageQueue, toolRegistry, contextManager };
 
   try {
     await runLifeLoop(config, deps);
+    await usageWrite;
     messageQueue.close();
+    rateLimiter?.close();
     process.exit(0);
   } catch (err) {
     console.error(`Agent ${config.name} fatal error:`, err);
+    await usageWrite;
     messageQueue.close();
+    rateLimiter?.close();
     process.exit(1);
   }
 }
@@ -25,6 +25,8 @@ import {
   printSummaryReport,
   formatDuration,
   stripAnsi,
+  createStreamPrinter,
+  logThinking,
 } from "./logger.ts";
 import type { AgentConfig, SessionState } from "./types.ts";
 
@@ -101,6 +103,13 @@ describe("Logger", () => {
       expect(output).toContain("1000");
       expect(output).toContain("500");
     });
+
+    test("includes cache reads and writes when present", () => {
+      const config = makeConfig();
+      logStepComplete(config, "plan", { input: 100, output: 50, cacheRead: 4000, cacheWrite: 300 });
+      const output = stripAnsi(logSpy.mock.calls[0]![0] as string);
+      expect(output).toContain("100+50 tokens, 4000 cached, 300 cache write");
+    });
   });
 
   describe("logToolCall", () => {
@@ -333,6 +342,33 @@ describe("Logger", () => {
       expect(allOutput).toContain("alice");
     });
 
+    test("shows cost per agent and in total", () => {
+      const session: SessionState = {
+        goal: "Test goal",
+        startTime: Date.now() - 10000,
+        workspace: "/tmp/ws",
+        valkeyUrl: "valkey://localhost:6379",
+        status: "failed",
+        cost: 5.25,
+        maxCost: 5,
+        agents: [
+          {
+            config: makeConfig({ name: "bob", role: "Leader" }),
+            pid: 1234,
+            status: "cancelled",
+            startTime: Date.now() - 10000,
+            endTime: Date.now(),
+            usage: { input: 9000, output: 1200, cacheRead: 50000, cacheWrite: 0, cost: 5.25 },
+          },
+        ],
+      };
+
+      printSummaryReport(session);
+      const allOutput = logSpy.mock.calls.map((c: unknown[]) => stripAnsi(c[0] as string)).join("\n");
+      expect(allOutput).toContain("Cost:     $5.25 (cap $5.00)");
+      expect(allOutput).toContain("Tokens: 9000+1200, 50000 cached | Cost: $5.25");
+    });
+
     test("handles running agents", () => {
       const session: SessionState = {
         goal: "Test goal",
@@ -376,6 +412,54 @@ describe("Logger", () => {
     });
   });
 
+  describe("createStreamPrinter", () => {
+    test("prints complete lines as deltas arrive and flushes the rest on end", () => {
+      const printer = createStreamPrinter(makeConfig({ name: "alice" }), "execute/turn-0");
+      printer.onText("Reading the ");
+      expect(logSpy).toHaveBeenCalledTimes(0);
+      printer.onText("file\nnow wri");
+      expect(logSpy).toHaveBeenCalledTimes(1);
+      printer.onText("ting");
+      printer.end();
+
+      const lines = logSpy.mock.calls.map((c: unknown[]) => stripAnsi(c[0] as string));
+      expect(lines[0]).toContain("[alice] [execute/turn-0] │ Reading the file");
+      expect(lines[1]).toContain("│ now writing");
+    });
+
+    test("announces tool use and wraps long input", () => {
+      const printer = createStreamPrinter(makeConfig(), "execute/turn-1");
+      printer.onToolUseStart("write-file");
+      printer.onToolInputDelta("x".repeat(200));
+      printer.end();
+
+      const lines = logSpy.mock.calls.map((c: unknown[]) => stripAnsi(c[0] as string));
+      expect(lines[0]).toContain("→ write-file");
+      expect(lines).toHaveLength(3);
+    });
+
+    test("marks thinking apart from the answer", () => {
+      const printer = createStreamPrinter(makeConfig(), "execute/turn-0");
+      printer.onThinking("Which file first?");
+      printer.onText("Reading a.txt");
+      printer.end();
+
+      const lines = logSpy.mock.calls.map((c: unknown[]) => stripAnsi(c[0] as string));
+      expect(lines[0]).toContain("┆ Which file first?");
+      expect(lines[1]).toContain("│ Reading a.txt");
+    });
+  });
+
+  describe("logThinking", () => {
+    test("logs an estimated token count and a preview", () => {
+      logThinking(makeConfig(), "plan", "a".repeat(400) + "\nmore");
+      const output = stripAnsi(logSpy.mock.calls[0]![0] as string);
+      expect(output).toContain("thinking [plan] ~102 tok:");
+      expect(output).toContain("a".repeat(300));
+      expect(output).not.toContain("more");
+    });
+  });
+
   describe("stripAnsi", () => {
     test("removes ANSI color codes", () => {
       const colored = "\x1b[31mError\x1b[0m: something";
@@ -1,5 +1,6 @@
 import { appendFileSync, mkdirSync } from "node:fs";
 import type { AgentConfig, SessionState, TokenUsage } from "./types.ts";
+import { formatCost } from "./pricing.ts";
 
 // ─── ANSI Color Codes ────────────────────────────────────────────
 
@@ -44,6 +45,13 @@ function agentTag(name: string): string {
   return `${color}[${name}]${RESET}`;
 }
 
+function formatCache(tokens: TokenUsage): string {
+  const parts: string[] = [];
+  if (tokens.cacheRead) parts.push(`${tokens.cacheRead} cached`);
+  if (tokens.cacheWrite) parts.push(`${tokens.cacheWrite} cache write`);
+  return parts.length > 0 ? `, ${parts.join(", ")}` : "";
+}
+
 // ─── Public Logging Functions ────────────────────────────────────
 
 export function logAgentStart(config: AgentConfig): void {
@@ -70,7 +78,7 @@ export function logStepComplete(
   step: string,
   tokens: TokenUsage,
 ): void {
-  const line = `${timestamp()} ${agentTag(config.name)} ${DIM}${step}${RESET} complete (${tokens.input}+${tokens.output} tokens)`;
+  const line = `${timestamp()} ${agentTag(config.name)} ${DIM}${step}${RESET} complete (${tokens.input}+${tokens.output} tokens${formatCache(tokens)})`;
   console.log(line);
   appendToFile(config.workspacePath, config.name, line);
 }
@@ -133,6 +141,15 @@ export function logRetry(context: string, attempt: number, maxAttempts: number,
   console.log(`${timestamp()} ${YELLOW}Retry${RESET} ${context} (attempt ${attempt}/${maxAttempts}, waiting ${delayMs}ms)`);
 }
 
+export function logFallback(from: string, to: string, status: number): void {
+  const reason = status === 529 ? "overloaded" : "rate limited";
+  console.log(`${timestamp()} ${YELLOW}Fallback${RESET} ${from} ${reason} (${status}), switching to ${BOLD}${to}${RESET}`);
+}
+
+export function logRateLimitWait(priority: string, waitMs: number): void {
+  console.log(`${timestamp()} ${YELLOW}Rate limit${RESET} reached, waiting ${(waitMs / 1000).toFixed(1)}s (${priority} priority)`);
+}
+
 // ─── Debug Logging ──────────────────────────────────────────────
 
 export function logDebug(config: AgentConfig, message: string): void {
@@ -148,6 +165,33 @@ export function logMessageReceived(config: AgentConfig, msg: { from: string; typ
   appendToFile(config.workspacePath, config.name, line);
 }
 
+export function logRedelivered(config: AgentConfig, count: number): void {
+  const line = `${timestamp()} ${agentTag(config.name)} ${YELLOW}Redelivering${RESET} ${count} unacknowledged message(s) from the previous run`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
+export function logDeadLettered(config: AgentConfig, count: number): void {
+  const line = `${timestamp()} ${agentTag(config.name)} ${RED}Dead-lettered${RESET} ${count} message(s) after repeated failures`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
+export function logSync(config: AgentConfig, status: string, detail: string): void {
+  const color = status === "conflict" ? YELLOW : status === "synced" ? GREEN : DIM;
+  const line = `${timestamp()} ${agentTag(config.name)} ${color}sync ${status}${RESET} ${DIM}${detail}${RESET}`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
+export function logReset(config: AgentConfig, commit: string, error: string | null): void {
+  const line = error
+    ? `${timestamp()} ${agentTag(config.name)} ${RED}Reset to ${commit.slice(0, 7)} failed${RESET}: ${error}`
+    : `${timestamp()} ${agentTag(config.name)} ${YELLOW}Reset${RESET} tree to last reflected commit ${commit.slice(0, 7)}`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
 export function logApiCall(
   config: AgentConfig,
   step: string,
@@ -165,12 +209,40 @@ export function logApiCall(
 export function logApiResult(
   config: AgentConfig,
   step: string,
-  tokens: { input: number; output: number },
+  tokens: TokenUsage,
   stopReason: string,
   contentTypes: string[],
 ): void {
   const types = contentTypes.join(",");
-  const line = `${timestamp()} ${agentTag(config.name)} ${GREEN}API done${RESET} [${step}] ${tokens.input}+${tokens.output} tok, stop=${stopReason}, content=[${types}]`;
+  const line = `${timestamp()} ${agentTag(config.name)} ${GREEN}API done${RESET} [${step}] ${tokens.input}+${tokens.output} tok${formatCache(tokens)}, stop=${stopReason}, content=[${types}]`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
+/**
+ * Log the extended thinking of a non-streamed call: an estimated token
+ * count and the start of the text.
+ */
+export function logThinking(config: AgentConfig, step: string, thinking: string): void {
+  const estimate = Math.ceil(thinking.length / 4);
+  const preview = thinking.slice(0, 300).replace(/\n/g, " ");
+  const line = `${timestamp()} ${agentTag(config.name)} ${MAGENTA}thinking${RESET} [${step}] ~${estimate} tok: ${DIM}${preview}${RESET}`;
+  console.log(line);
+  appendToFile(config.workspacePath, config.name, line);
+}
+
+/**
+ * Log a plan or reflect output that failed validation and is being
+ * sent back to the model for repair.
+ */
+export function logOutputRepair(
+  config: AgentConfig,
+  step: string,
+  errors: string[],
+  attempt: number,
+  max: number,
+): void {
+  const line = `${timestamp()} ${agentTag(config.name)} ${YELLOW}Invalid ${step} output${RESET}, re-asking (${attempt}/${max}): ${errors.join("; ").slice(0, 200)}`;
   console.log(line);
   appendToFile(config.workspacePath, config.name, line);
 }
@@ -206,6 +278,78 @@ export function logContextAssembly(
   appendToFile(config.workspacePath, config.name, line);
 }
 
+// ─── Streaming Output ───────────────────────────────────────────
+
+const STREAM_LINE_WIDTH = 160;
+
+export interface StreamPrinter {
+  onText(delta: string): void;
+  onThinking(delta: string): void;
+  onToolUseStart(name: string): void;
+  onToolInputDelta(partialJson: string): void;
+  /** Print whatever is still buffered. */
+  end(): void;
+}
+
+/**
+ * Print streamed model output as it arrives, one line at a time under the
+ * agent's tag, so a long turn shows progress and output from parallel
+ * agents does not interleave mid-line. Thinking is marked with `┆`
+ * instead of `│`.
+ */
+export function createStreamPrinter(config: AgentConfig, step: string): StreamPrinter {
+  let buffer = "";
+  let thinking = false;
+
+  const print = (text: string) => {
+    const bar = thinking ? "┆" : "│";
+    const line = `${timestamp()} ${agentTag(config.name)} ${DIM}[${step}] ${bar} ${text}${RESET}`;
+    console.log(line);
+    appendToFile(config.workspacePath, config.name, line);
+  };
+  const flush = () => {
+    if (buffer.trim()) print(buffer);
+    buffer = "";
+  };
+  const write = (delta: string) => {
+    buffer += delta;
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    for (const line of lines) {
+      if (line.trim()) print(line);
+    }
+    while (buffer.length >= STREAM_LINE_WIDTH) {
+      print(buffer.slice(0, STREAM_LINE_WIDTH));
+      buffer = buffer.slice(STREAM_LINE_WIDTH);
+    }
+  };
+
+  const mode = (isThinking: boolean) => {
+    if (thinking !== isThinking) {
+      flush();
+      thinking = isThinking;
+    }
+  };
+
+  return {
+    onText(delta: string) {
+      mode(false);
+      write(delta);
+    },
+    onThinking(delta: string) {
+      mode(true);
+      write(delta);
+    },
+    onToolUseStart(name: string) {
+      mode(false);
+      flush();
+      print(`→ ${name}`);
+    },
+    onToolInputDelta: write,
+    end: flush,
+  };
+}
+
 // ─── Main Process Logging ────────────────────────────────────────
 
 export function logMainStart(goal: string, workspace: string, workers: number): void {
@@ -263,6 +407,9 @@ export function printSummaryReport(session: SessionState): void {
   console.log(`  ${BOLD}Status:${RESET}   ${statusColor}${BOLD}${session.status}${RESET}`);
   console.log(`  ${BOLD}Duration:${RESET} ${duration}`);
   console.log(`  ${BOLD}Workspace:${RESET} ${session.workspace}`);
+  const totalCost = session.cost ?? session.agents.reduce((sum, a) => sum + (a.usage?.cost ?? 0), 0);
+  const cap = session.maxCost !== undefined ? ` ${DIM}(cap ${formatCost(session.maxCost)})${RESET}` : "";
+  console.log(`  ${BOLD}Cost:${RESET}     ${formatCost(totalCost)}${cap}`);
   console.log("");
 
   if (session.agents.length > 0) {
@@ -281,6 +428,10 @@ export function printSummaryReport(session: SessionState): void {
 
       console.log(`  ${statusIcon} ${BOLD}${agent.config.name}${RESET} ${DIM}(${roleSnippet})${RESET}`);
       console.log(`    Status: ${agent.status} | Duration: ${agentDuration} | Model: ${DIM}${agent.config.model}${RESET}`);
+      if (agent.usage) {
+        const { input, output, cacheRead, cacheWrite, cost } = agent.usage;
+        console.log(`    Tokens: ${input}+${output}${formatCache({ input, output, cacheRead, cacheWrite })} | Cost: ${formatCost(cost)}`);
+      }
     }
 
     console.log("");
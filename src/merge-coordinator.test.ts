@@ -0,0 +1,269 @@
+import { test, expect, beforeEach, afterEach, describe } from "bun:test";
+import { MergeCoordinator } from "./merge-coordinator.ts";
+import type { MergeCoordinatorOptions } from "./merge-coordinator.ts";
+import type { HunkResolver } from "./conflict-resolver.ts";
+import { addAgentWorktree, cloneForAgent, commitAll, createGitignore, gitExec, initRepo } from "./git-manager.ts";
+import { MessageQueue } from "./message-queue.ts";
+import { MockRedis } from "./mock-redis.ts";
+import type { ReviewPayload } from "./types.ts";
+
+let tmpDir: string;
+let leaderDir: string;
+let agentDir: string;
+
+beforeEach(async () => {
+  tmpDir = `/tmp/sealteam-merge-test-${crypto.randomUUID()}`;
+  leaderDir = `${tmpDir}/bob`;
+  agentDir = `${tmpDir}/alice`;
+  await initRepo(leaderDir);
+  await createGitignore(leaderDir);
+  await Bun.write(`${leaderDir}/app.ts`, "export const greeting = 'hi';\n");
+  await commitAll(leaderDir, "Initial commit");
+  await cloneForAgent(leaderDir, agentDir, "alice");
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+function coordinator(verifyCommand?: string, options: Partial<MergeCoordinatorOptions> = {}): MergeCoordinator {
+  return new MergeCoordinator({ leaderDir, workspacePath: tmpDir, verifyCommand, ...options });
+}
+
+/** Alice and the leader both change the greeting. */
+async function conflictingGreetings(): Promise<void> {
+  await Bun.write(`${agentDir}/app.ts`, "export const greeting = 'hello';\n");
+  await commitAll(agentDir, "Alice's greeting");
+  await Bun.write(`${leaderDir}/app.ts`, "export const greeting = 'howdy';\n");
+  await commitAll(leaderDir, "Bob's greeting");
+}
+
+// Keeps both sides, one after the other
+const keepBoth: HunkResolver = {
+  name: "test-model",
+  resolve: async (hunk) => `${hunk.ours.text}\n${hunk.theirs.text}`,
+};
+
+async function head(dir: string): Promise<string> {
+  return (await gitExec(dir, ["rev-parse", "HEAD"])).stdout;
+}
+
+describe("MergeCoordinator", () => {
+  test("merges a clean branch once verification passes", async () => {
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+
+    const report = await coordinator("test -f api.ts && echo verified").merge("alice");
+
+    expect(report.status).toBe("merged");
+    expect(report.filesChanged).toEqual(["api.ts"]);
+    expect(report.verification).toEqual({ command: "test -f api.ts && echo verified", exitCode: 0, output: "verified\n" });
+    expect(report.commit).toBe(await head(leaderDir));
+    const log = await gitExec(leaderDir, ["log", "--oneline", "-1"]);
+    expect(log.stdout).toContain("Merge agent/alice");
+    expect(await Bun.file(`${leaderDir}/api.ts`).exists()).toBe(true);
+  });
+
+  test("merges a worktree agent's branch without a remote", async () => {
+    await addAgentWorktree(leaderDir, `${tmpDir}/carol`, "carol");
+    await Bun.write(`${tmpDir}/carol/ui.ts`, "export const ui = true;\n");
+    await commitAll(`${tmpDir}/carol`, "Add UI");
+
+    const report = await coordinator().merge("carol");
+
+    expect(report.status).toBe("merged");
+    expect(report.ref).toBe("agent/carol");
+    expect(await Bun.file(`${leaderDir}/ui.ts`).exists()).toBe(true);
+    expect((await gitExec(leaderDir, ["remote"])).stdout).toBe("");
+  });
+
+  test("merges a given commit of the branch rather than its tip", async () => {
+    await Bun.write(`${agentDir}/one.ts`, "1\n");
+    await commitAll(agentDir, "One");
+    const first = await head(agentDir);
+    await Bun.write(`${agentDir}/two.ts`, "2\n");
+    await commitAll(agentDir, "Two");
+
+    const report = await coordinator().merge("alice", { commit: first });
+
+    expect(report.status).toBe("merged");
+    expect(report.ref).toBe(first);
+    expect(await Bun.file(`${leaderDir}/one.ts`).exists()).toBe(true);
+    expect(await Bun.file(`${leaderDir}/two.ts`).exists()).toBe(false);
+  });
+
+  test("refuses a commit that is not on the agent's branch", async () => {
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+    await Bun.write(`${leaderDir}/ui.ts`, "export const ui = true;\n");
+    await commitAll(leaderDir, "Leader's UI");
+    const onMain = await head(leaderDir);
+
+    const report = await coordinator().merge("alice", { commit: onMain });
+
+    expect(report.status).toBe("refused");
+    expect(report.reason).toBe(`commit ${onMain} is not on alice's branch`);
+    expect(await head(leaderDir)).toBe(onMain);
+  });
+
+  test("reports conflicts and leaves the leader's work untouched", async () => {
+    await conflictingGreetings();
+    const before = await head(leaderDir);
+
+    const report = await coordinator().merge("alice");
+
+    expect(report.status).toBe("conflict");
+    expect(report.conflicts).toEqual([{
+      file: "app.ts",
+      kind: "both modified",
+      regions: 1,
+      hunks: [{
+        file: "app.ts",
+        line: 1,
+        ours: { text: "export const greeting = 'howdy';" },
+        base: "export const greeting = 'hi';",
+        theirs: { text: "export const greeting = 'hello';", agent: "alice" },
+      }],
+    }]);
+    expect(await head(leaderDir)).toBe(before);
+    expect(await Bun.file(`${leaderDir}/app.ts`).text()).toBe("export const greeting = 'howdy';\n");
+    const status = await gitExec(leaderDir, ["status", "--porcelain"]);
+    expect(status.stdout).toBe("");
+  });
+
+  test("sends the hunks to the file's owner as a review", async () => {
+    await Bun.write(`${leaderDir}/PLAN.md`, "## Assignments\n- carol owns app.ts and src/ui/\n");
+    await commitAll(leaderDir, "Add plan");
+    await conflictingGreetings();
+    const mq = new MessageQueue(new MockRedis());
+
+    const report = await coordinator(undefined, { messageQueue: mq, leaderName: "bob" })
+      .merge("alice", { resolve: "owner" });
+
+    expect(report.status).toBe("conflict");
+    expect(report.sentTo).toEqual(["carol"]);
+    const hunk = report.conflicts![0]!.hunks[0]!;
+    expect(hunk.owner).toBe("carol");
+    expect(hunk.ours.agent).toBe("carol");
+    const review = await mq.receiveNonBlocking("carol");
+    expect(review!.from).toBe("bob");
+    expect(review!.type).toBe("review");
+    const payload = review!.payload as ReviewPayload;
+    expect(payload.verdict).toBe("request-changes");
+    expect(payload.comments[0]!.file).toBe("app.ts");
+    expect(payload.comments[0]!.comment).toContain("--- theirs (alice)\nexport const greeting = 'hello';");
+    mq.close();
+  });
+
+  test("commits model resolutions with their provenance", async () => {
+    await conflictingGreetings();
+
+    const report = await coordinator("grep -q hello app.ts", { resolver: keepBoth })
+      .merge("alice", { resolve: "model" });
+
+    expect(report.status).toBe("merged");
+    expect(report.resolutions).toEqual([{ file: "app.ts", line: 1, resolvedBy: "test-model", theirs: "alice" }]);
+    expect(await Bun.file(`${leaderDir}/app.ts`).text()).toBe(
+      "export const greeting = 'howdy';\nexport const greeting = 'hello';\n",
+    );
+    const message = await gitExec(leaderDir, ["log", "-1", "--format=%B"]);
+    expect(message.stdout).toContain("Merge agent/alice");
+    expect(message.stdout).toContain("- app.ts:1 (theirs: alice)");
+    expect(message.stdout).toContain("Conflicts-Resolved-By: test-model");
+    const parents = await gitExec(leaderDir, ["rev-list", "--parents", "-1", "HEAD"]);
+    expect(parents.stdout.split(" ")).toHaveLength(3);
+  });
+
+  test("leaves conflicts the model cannot resolve", async () => {
+    await conflictingGreetings();
+    const before = await head(leaderDir);
+    const declines: HunkResolver = { name: "test-model", resolve: async () => null };
+
+    const report = await coordinator(undefined, { resolver: declines }).merge("alice", { resolve: "model" });
+
+    expect(report.status).toBe("conflict");
+    expect(report.reason).toBe("test-model could not resolve app.ts:1");
+    expect(await head(leaderDir)).toBe(before);
+    expect(await Bun.file(`${leaderDir}/app.ts`).text()).toBe("export const greeting = 'howdy';\n");
+  });
+
+  test("commits the merge without what verification wrote", async () => {
+    await Bun.write(`${leaderDir}/bun.lock`, "lock v1\n");
+    await commitAll(leaderDir, "Add lockfile");
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+
+    const report = await coordinator("echo lock v2 > bun.lock && echo snapshot > api.snap").merge("alice");
+
+    expect(report.status).toBe("merged");
+    expect(report.filesChanged).toEqual(["api.ts"]);
+    expect(await Bun.file(`${leaderDir}/bun.lock`).text()).toBe("lock v1\n");
+    expect(await Bun.file(`${leaderDir}/api.snap`).exists()).toBe(false);
+    expect((await gitExec(leaderDir, ["status", "--porcelain"])).stdout).toBe("");
+
+    // The next merge is not refused over leftovers
+    await Bun.write(`${agentDir}/db.ts`, "export const db = true;\n");
+    await commitAll(agentDir, "Add DB");
+    expect((await coordinator("echo lock v3 > bun.lock").merge("alice")).status).toBe("merged");
+  });
+
+  test("aborts the merge when verification fails", async () => {
+    await Bun.write(`${agentDir}/api.ts`, "broken\n");
+    await commitAll(agentDir, "Add broken API");
+    const before = await head(leaderDir);
+
+    const report = await coordinator("echo 1 test failed; exit 1").merge("alice");
+
+    expect(report.status).toBe("verification-failed");
+    expect(report.verification?.exitCode).toBe(1);
+    expect(report.verification?.output).toContain("1 test failed");
+    expect(await head(leaderDir)).toBe(before);
+    expect(await Bun.file(`${leaderDir}/api.ts`).exists()).toBe(false);
+  });
+
+  test("aborts the merge when the commit is rejected", async () => {
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+    await Bun.write(`${leaderDir}/.git/hooks/pre-commit`, "#!/bin/sh\necho 'lint failed' >&2\nexit 1\n");
+    await Bun.$`chmod +x ${leaderDir}/.git/hooks/pre-commit`.quiet();
+    const before = await head(leaderDir);
+
+    // Hooks may be switched off for the whole environment (GIT_CONFIG_*)
+    const saved = process.env.GIT_CONFIG_COUNT;
+    delete process.env.GIT_CONFIG_COUNT;
+    const report = await coordinator().merge("alice").finally(() => {
+      if (saved !== undefined) process.env.GIT_CONFIG_COUNT = saved;
+    });
+
+    expect(report.status).toBe("refused");
+    expect(report.reason).toBe("commit failed: lint failed");
+    expect(report.commit).toBeUndefined();
+    expect(await head(leaderDir)).toBe(before);
+    expect(await Bun.file(`${leaderDir}/api.ts`).exists()).toBe(false);
+    expect((await gitExec(leaderDir, ["status", "--porcelain"])).stdout).toBe("");
+  });
+
+  test("refuses to start with uncommitted changes", async () => {
+    await Bun.write(`${agentDir}/api.ts`, "export const ok = true;\n");
+    await commitAll(agentDir, "Add API");
+    await Bun.write(`${leaderDir}/app.ts`, "work in progress\n");
+
+    const report = await coordinator().merge("alice");
+
+    expect(report.status).toBe("refused");
+    expect(report.reason).toContain("app.ts");
+    expect(await Bun.file(`${leaderDir}/app.ts`).text()).toBe("work in progress\n");
+    expect(await Bun.file(`${leaderDir}/api.ts`).exists()).toBe(false);
+  });
+
+  test("reports up-to-date when the branch is already merged", async () => {
+    const report = await coordinator().merge("alice");
+    expect(report.status).toBe("up-to-date");
+  });
+
+  test("refuses unknown agents", async () => {
+    const report = await coordinator().merge("carol");
+    expect(report.status).toBe("refused");
+    expect(report.reason).toContain("could not fetch agent/carol");
+  });
+});
@@ -0,0 +1,330 @@
+import { rm } from "node:fs/promises";
+import { resolve } from "node:path";
+import { addRemoteAndFetch, gitExec, hasAgentBranch, mergeAgentBranch } from "./git-manager.ts";
+import type { MessageQueue } from "./message-queue.ts";
+import {
+  applyResolutions,
+  attributeHunks,
+  conflictReview,
+  parseOwnership,
+  readConflicts,
+} from "./conflict-resolver.ts";
+import type { ConflictHunk, HunkResolver, MergeConflict } from "./conflict-resolver.ts";
+
+/** How long the verification command may run before it counts as failed. */
+const DEFAULT_VERIFY_TIMEOUT_MS = 10 * 60_000;
+// Tail of a failed verification's output kept in the report
+const VERIFY_OUTPUT_LIMIT = 4000;
+const AGENT_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * - "merged": the branch passed verification and was committed to the
+ *   leader's branch
+ * - "up-to-date": the leader's branch already contains it
+ * - "conflict" / "verification-failed": the test merge was aborted and
+ *   the leader's working tree is as it was
+ * - "refused": the merge could not be started, or git turned it down
+ *   (see `reason`); nothing changed
+ */
+export type MergeStatus = "merged" | "up-to-date" | "conflict" | "verification-failed" | "refused";
+
+/**
+ * What to do with conflicts besides reporting them:
+ * - "owner": send each file owner's hunks to it as a review message
+ * - "model": resolve every hunk with the coordinator's HunkResolver and
+ *   carry on with verification; if any hunk is left, report as usual
+ */
+export type ConflictResolution = "owner" | "model";
+
+export interface MergeOptions {
+  /** Merge this commit of the agent's branch instead of its tip. */
+  commit?: string;
+  resolve?: ConflictResolution;
+}
+
+/** Who resolved a hunk of a merge, and whose sides it joined, as recorded in its commit. */
+export interface HunkProvenance {
+  file: string;
+  line: number;
+  resolvedBy: string;
+  ours?: string;
+  theirs?: string;
+}
+
+export interface VerificationResult {
+  command: string;
+  /** Null when the command was killed at the timeout. */
+  exitCode: number | null;
+  /** Combined stdout and stderr, truncated from the front. */
+  output: string;
+}
+
+export interface MergeReport {
+  agent: string;
+  /** What was merged: the agent's fetched branch or a commit on it. */
+  ref: string;
+  status: MergeStatus;
+  /** The merge commit, when merged. */
+  commit?: string;
+  /** Files the branch changes relative to the leader's branch. */
+  filesChanged?: string[];
+  conflicts?: MergeConflict[];
+  /** Hunks resolved by the HunkResolver, when merged that way. */
+  resolutions?: HunkProvenance[];
+  /** Agents sent a review of their conflicting hunks. */
+  sentTo?: string[];
+  verification?: VerificationResult;
+  reason?: string;
+}
+
+export interface MergeCoordinatorOptions {
+  /** The leader's repo, whose checked-out branch receives the merges. */
+  leaderDir: string;
+  workspacePath: string;
+  /** Shell command run on each test merge, e.g. "bun test"; skipped when unset. */
+  verifyCommand?: string;
+  verifyTimeoutMs?: number;
+  /** Resolves hunks when a merge asks for resolve "model". */
+  resolver?: HunkResolver;
+  /** Sends the reviews of resolve "owner", from `leaderName`. */
+  messageQueue?: MessageQueue;
+  leaderName?: string;
+}
+
+/**
+ * Merges agents' branches into the leader's repo without ever choosing
+ * a side: each merge is first made without committing, then verified,
+ * and only committed if it merged cleanly and the verification passed.
+ * Otherwise it is aborted and the report says why.
+ */
+export class MergeCoordinator {
+  constructor(private options: MergeCoordinatorOptions) {}
+
+  /**
+   * Fetch `agentName`'s branch (or a commit on it) and merge it. Refuses
+   * to start when the leader's working tree has uncommitted changes, so
+   * an abort can never take them with it.
+   */
+  async merge(agentName: string, options: MergeOptions = {}): Promise<MergeReport> {
+    const { leaderDir, workspacePath } = this.options;
+    const { commit } = options;
+    let ref = commit ?? `${agentName}/agent/${agentName}`;
+    const agentDir = resolve(workspacePath, agentName);
+    const refused = (reason: string): MergeReport => ({ agent: agentName, ref, status: "refused", reason });
+
+    if (!AGENT_NAME.test(agentName)) return refused(`invalid agent name "${agentName}"`);
+    if (commit && !/^[0-9a-f]{4,40}$/i.test(commit)) return refused(`invalid commit "${commit}"`);
+
+    // Untracked files are safe: git refuses merges that would overwrite them
+    const dirty = await gitExec(leaderDir, ["status", "--porcelain", "--untracked-files=no"]);
+    if (dirty.exitCode !== 0) return refused(`not a git repository: ${dirty.stderr}`);
+    if (dirty.stdout) {
+      // gitExec trims the output, so the first line may have lost its leading space
+      const files = dirty.stdout.split("\n").map((line) => line.slice(2).trim());
+      return refused(`uncommitted changes in ${files.join(", ")}; commit them first`);
+    }
+
+    // An agent in a worktree commits straight into the leader's repo
+    let branch = `${agentName}/agent/${agentName}`;
+    if (await hasAgentBranch(leaderDir, agentName)) {
+      branch = `agent/${agentName}`;
+      ref = commit ?? branch;
+    } else {
+      await addRemoteAndFetch(leaderDir, agentName, agentDir);
+    }
+    const resolved = await gitExec(leaderDir, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+    if (resolved.exitCode !== 0) {
+      return refused(commit
+        ? `commit ${commit} is not on ${agentName}'s branch`
+        : `could not fetch agent/${agentName} from ${agentDir}`);
+    }
+    if (commit) {
+      // Any commit in the repo resolves, main's included
+      const onBranch = await gitExec(leaderDir, ["merge-base", "--is-ancestor", resolved.stdout, branch]);
+      if (onBranch.exitCode !== 0) return refused(`commit ${commit} is not on ${agentName}'s branch`);
+      ref = resolved.stdout;
+    }
+
+    const ancestor = await gitExec(leaderDir, ["merge-base", "--is-ancestor", ref, "HEAD"]);
+    if (ancestor.exitCode === 0) return { agent: agentName, ref, status: "up-to-date" };
+
+    const changed = await gitExec(leaderDir, ["diff", "--name-only", `HEAD...${ref}`]);
+    const filesChanged = changed.stdout ? changed.stdout.split("\n") : [];
+    const report: MergeReport = { agent: agentName, ref, status: "merged", filesChanged };
+
+    const merged = await mergeAgentBranch(leaderDir, agentName, { ref, commit: false });
+    if (merged.exitCode !== 0) {
+      const conflicts = await this.conflicts(agentName);
+      if (conflicts.length === 0) {
+        await gitExec(leaderDir, ["merge", "--abort"]);
+        return { ...report, status: "refused", reason: merged.stderr || merged.stdout };
+      }
+      const resolved = options.resolve === "model" ? await this.resolveHunks(conflicts) : null;
+      if (typeof resolved === "string" || resolved === null) {
+        await gitExec(leaderDir, ["merge", "--abort"]);
+        const failed: MergeReport = { ...report, status: "conflict", conflicts };
+        if (typeof resolved === "string") failed.reason = resolved;
+        if (options.resolve === "owner") failed.sentTo = await this.sendToOwners(agentName, conflicts);
+        return failed;
+      }
+      report.resolutions = resolved;
+    }
+
+    if (this.options.verifyCommand) {
+      const untracked = await this.untrackedFiles();
+      const verification = await this.verify(this.options.verifyCommand);
+      await this.discardVerifyWrites(untracked);
+      if (verification.exitCode !== 0) {
+        await gitExec(leaderDir, ["merge", "--abort"]);
+        return { ...report, status: "verification-failed", verification };
+      }
+      report.verification = verification;
+    }
+
+    const committed = await gitExec(leaderDir, report.resolutions
+      ? ["commit", "--allow-empty", ...provenanceMessage(agentName, report.resolutions, this.options.resolver!.name)]
+      : ["commit", "--no-edit", "--allow-empty"]);
+    if (committed.exitCode !== 0) {
+      // e.g. a hook rejected it; never leave the merge half done
+      await gitExec(leaderDir, ["merge", "--abort"]);
+      return { ...report, status: "refused", reason: `commit failed: ${committed.stderr || committed.stdout}` };
+    }
+    const head = await gitExec(leaderDir, ["rev-parse", "HEAD"]);
+    return { ...report, commit: head.stdout };
+  }
+
+  /** Unmerged paths of the merge in progress, with their attributed hunks. */
+  private async conflicts(agentName: string): Promise<MergeConflict[]> {
+    const { leaderDir } = this.options;
+    const plan = await Bun.file(`${leaderDir}/PLAN.md`).text().catch(() => "");
+    const ownership = parseOwnership(plan);
+    return (await readConflicts(leaderDir)).map((conflict) => ({
+      ...conflict,
+      hunks: attributeHunks(conflict.hunks, ownership, agentName),
+    }));
+  }
+
+  /**
+   * Resolve every hunk of the merge in progress and stage the files.
+   * Returns the provenance of each hunk, or why the conflicts were left
+   * alone; nothing is written unless every hunk was resolved.
+   */
+  private async resolveHunks(conflicts: MergeConflict[]): Promise<HunkProvenance[] | string> {
+    const { leaderDir, resolver } = this.options;
+    if (!resolver) return "no conflict resolver is configured";
+    const unparsed = conflicts.find((c) => c.hunks.length === 0);
+    if (unparsed) return `${unparsed.file} is ${unparsed.kind}; only conflicting edits can be resolved`;
+
+    const resolved: { file: string; resolutions: string[] }[] = [];
+    for (const conflict of conflicts) {
+      const resolutions: string[] = [];
+      for (const hunk of conflict.hunks) {
+        const resolution = await resolver.resolve(hunk);
+        if (resolution === null) return `${resolver.name} could not resolve ${hunk.file}:${hunk.line}`;
+        resolutions.push(resolution);
+      }
+      resolved.push({ file: conflict.file, resolutions });
+    }
+
+    for (const { file, resolutions } of resolved) {
+      const content = await Bun.file(`${leaderDir}/${file}`).text();
+      await Bun.write(`${leaderDir}/${file}`, applyResolutions(content, resolutions));
+      await gitExec(leaderDir, ["add", "--", file]);
+    }
+    return conflicts.flatMap((c) =>
+      c.hunks.map((hunk) => ({
+        file: hunk.file,
+        line: hunk.line,
+        resolvedBy: resolver.name,
+        ...(hunk.ours.agent ? { ours: hunk.ours.agent } : {}),
+        ...(hunk.theirs.agent ? { theirs: hunk.theirs.agent } : {}),
+      })),
+    );
+  }
+
+  /** Send each owner its hunks as a review; returns who was sent one. */
+  private async sendToOwners(agentName: string, conflicts: MergeConflict[]): Promise<string[]> {
+    const { messageQueue, leaderName, workspacePath } = this.options;
+    if (!messageQueue || !leaderName) return [];
+    const byOwner = new Map<string, ConflictHunk[]>();
+    for (const hunk of conflicts.flatMap((c) => c.hunks)) {
+      const owner = hunk.owner ?? agentName;
+      byOwner.set(owner, [...(byOwner.get(owner) ?? []), hunk]);
+    }
+    // A worktree shares the leader's branches; a clone has them as origin's
+    const update = await hasAgentBranch(this.options.leaderDir, agentName)
+      ? "git merge main"
+      : "git pull origin main";
+    for (const [owner, hunks] of byOwner) {
+      const content = owner === agentName
+        ? `agent/${agentName} conflicts with main. Bring main in with \`${update}\`, resolve these hunks on your branch, commit and complete again.`
+        : `agent/${agentName} conflicts with your files on main. Agree a resolution with ${agentName}; ${agentName} will resolve them on its branch.`;
+      await messageQueue.send({
+        id: crypto.randomUUID(),
+        from: leaderName,
+        to: owner,
+        type: "review",
+        content,
+        payload: conflictReview(hunks),
+        timestamp: Date.now(),
+      }, workspacePath);
+    }
+    return [...byOwner.keys()];
+  }
+
+  /** Untracked files that are not ignored, relative to the leader's repo. */
+  private async untrackedFiles(): Promise<Set<string>> {
+    const result = await gitExec(this.options.leaderDir, ["ls-files", "--others", "--exclude-standard"]);
+    return new Set(result.stdout ? result.stdout.split("\n") : []);
+  }
+
+  /**
+   * Put the tree back to the merge as staged. What verification wrote,
+   * e.g. a regenerated lockfile or snapshots, is not part of the merge,
+   * and left behind it would block the next merge as uncommitted changes.
+   * Ignored files such as build output are left alone.
+   */
+  private async discardVerifyWrites(untrackedBefore: Set<string>): Promise<void> {
+    const { leaderDir } = this.options;
+    await gitExec(leaderDir, ["checkout", "--", "."]);
+    for (const file of await this.untrackedFiles()) {
+      if (!untrackedBefore.has(file)) await rm(`${leaderDir}/${file}`, { force: true });
+    }
+  }
+
+  private async verify(command: string): Promise<VerificationResult> {
+    const proc = Bun.spawn(["bash", "-c", command], {
+      cwd: this.options.leaderDir,
+      stdout: "pipe",
+      stderr: "pipe",
+      timeout: this.options.verifyTimeoutMs ?? DEFAULT_VERIFY_TIMEOUT_MS,
+    });
+    const [stdout, stderr] = await Promise.all([
+      new Response(proc.stdout).text(),
+      new Response(proc.stderr).text(),
+    ]);
+    await proc.exited;
+    const output = [stdout, stderr].filter(Boolean).join("\n");
+    return {
+      command,
+      exitCode: proc.signalCode ? null : proc.exitCode,
+      output: output.length > VERIFY_OUTPUT_LIMIT ? `…${output.slice(-VERIFY_OUTPUT_LIMIT)}` : output,
+    };
+  }
+}
+
+/**
+ * `git commit` arguments recording which resolver resolved which hunks,
+ * with a trailer naming the resolver.
+ */
+function provenanceMessage(agentName: string, resolutions: HunkProvenance[], resolver: string): string[] {
+  const hunks = resolutions.map(({ file, line, ours, theirs }) => {
+    const sides = [ours && `ours: ${ours}`, theirs && `theirs: ${theirs}`].filter(Boolean).join(", ");
+    return `- ${file}:${line}${sides ? ` (${sides})` : ""}`;
+  }).join("\n");
+  return [
+    "-m", `Merge agent/${agentName}`,
+    "-m", `Resolved ${resolutions.length} conflict hunk${resolutions.length === 1 ? "" : "s"}:\n${hunks}`,
+    "-m", `Conflicts-Resolved-By: ${resolver}`,
+  ];
+}
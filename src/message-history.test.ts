@@ -0,0 +1,106 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { appendFileSync } from "node:fs";
+import {
+  MessageHistory,
+  filterMessageHistory,
+  formatMessageRecord,
+  messageHistoryPath,
+  readMessageHistory,
+} from "./message-history.ts";
+import { MessageQueue } from "./message-queue.ts";
+import { MockRedis } from "./mock-redis.ts";
+import { writeSessionState } from "./state-manager.ts";
+import type { AgentConfig, QueueMessage } from "./types.ts";
+
+let tmpDir: string;
+let path: string;
+
+beforeEach(async () => {
+  tmpDir = `/tmp/sealteam-history-test-${crypto.randomUUID()}`;
+  await Bun.$`mkdir -p ${tmpDir}`.quiet();
+  path = messageHistoryPath(tmpDir);
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+function makeMessage(from: string, to: string, content: string, type: QueueMessage["type"] = "task"): QueueMessage {
+  return { id: crypto.randomUUID(), from, to, type, content, timestamp: Date.now() };
+}
+
+function makeConfig(name: string): AgentConfig {
+  return {
+    name, role: "r", purpose: "p", tools: [], model: "m",
+    tokenBudget: 1, maxIterations: 1, workspacePath: tmpDir, valkeyUrl: "",
+  };
+}
+
+describe("MessageQueue history", () => {
+  test("logs sends and consumes, one record per fan-out recipient", async () => {
+    await writeSessionState(tmpDir, {
+      goal: "g", startTime: 0, workspace: tmpDir, valkeyUrl: "", status: "running",
+      agents: ["bob", "alice", "carol"].map((name, i) => ({
+        config: makeConfig(name), pid: i + 1, status: "running" as const, startTime: 0,
+      })),
+    });
+    const mq = new MessageQueue(new MockRedis(), { historyPath: path });
+
+    await mq.send(makeMessage("bob", "alice", "Build the API"));
+    await mq.send(makeMessage("alice", "shared", "API is GET /items"), tmpDir);
+    await mq.receive("alice", 1);
+    await mq.receiveNonBlocking("carol");
+
+    const records = await readMessageHistory(path);
+    expect(records.map((r) => `${r.message.from}>${r.message.to}`)).toEqual([
+      "bob>alice", "alice>bob", "alice>carol",
+    ]);
+    const byRecipient = Object.fromEntries(records.map((r) => [r.message.to, r]));
+    expect(byRecipient.alice!.consumedAt).toBeNumber();
+    expect(byRecipient.carol!.consumedAt).toBeNumber();
+    expect(byRecipient.bob!.consumedAt).toBeUndefined();
+  });
+});
+
+describe("readMessageHistory", () => {
+  test("returns an empty list without a history file", async () => {
+    expect(await readMessageHistory(path)).toEqual([]);
+  });
+
+  test("keeps the first consume of a redelivered message and skips torn lines", async () => {
+    const history = new MessageHistory(path);
+    const message = makeMessage("bob", "alice", "hi");
+    history.recordSent(message);
+    history.recordConsumed(message, "alice");
+    const [first] = await readMessageHistory(path);
+    appendFileSync(path, '{"event":"consu\n');
+    history.recordConsumed(message, "alice");
+
+    const records = await readMessageHistory(path);
+    expect(records).toHaveLength(1);
+    expect(records[0]!.consumedAt).toBe(first!.consumedAt!);
+  });
+});
+
+describe("filterMessageHistory and formatMessageRecord", () => {
+  const records = [
+    { message: makeMessage("bob", "alice", "Build it"), sentAt: 0, consumedAt: 2300 },
+    { message: makeMessage("alice", "bob", "Please review", "review"), sentAt: 5000 },
+    { message: makeMessage("carol", "bob", "Done", "complete"), sentAt: 6000 },
+  ];
+
+  test("filters by agent (either side) and type", () => {
+    expect(filterMessageHistory(records, { agent: "alice" })).toHaveLength(2);
+    expect(filterMessageHistory(records, { type: "review" })).toEqual([records[1]!]);
+    expect(filterMessageHistory(records, { agent: "carol", type: "review" })).toEqual([]);
+  });
+
+  test("formats sender, recipient, type and read delay", () => {
+    expect(formatMessageRecord(records[0]!)).toBe(
+      "1970-01-01 00:00:00  bob → alice  [task]  Build it  (read after 2.3s)",
+    );
+    expect(formatMessageRecord(records[1]!)).toEndWith("[review]  Please review  (never read)");
+    expect(formatMessageRecord({ ...records[2]!, message: { ...records[2]!.message, content: "x".repeat(10) } }, 4))
+      .toContain("xxxx…");
+  });
+});
@@ -0,0 +1,129 @@
+import { appendFileSync, mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { MessageType, QueueMessage } from "./types.ts";
+
+/** File name of the message log inside the workspace. */
+export const MESSAGE_HISTORY_FILE = "messages.jsonl";
+
+export function messageHistoryPath(workspacePath: string): string {
+  return `${workspacePath}/${MESSAGE_HISTORY_FILE}`;
+}
+
+/**
+ * One line of messages.jsonl. A message is logged once per queue it is
+ * pushed to (a "shared" message once per recipient), and again each
+ * time its recipient takes it off the queue.
+ */
+export type MessageHistoryEntry =
+  | { event: "sent"; at: number; message: QueueMessage }
+  | { event: "consumed"; at: number; id: string; by: string };
+
+/**
+ * Append-only log of every message sent and consumed in a session,
+ * shared by all processes of the session. Writes are best effort: a
+ * failed write never fails the queue operation.
+ */
+export class MessageHistory {
+  constructor(readonly path: string) {}
+
+  recordSent(message: QueueMessage): void {
+    this.append({ event: "sent", at: Date.now(), message });
+  }
+
+  recordConsumed(message: QueueMessage, by: string): void {
+    this.append({ event: "consumed", at: Date.now(), id: message.id, by });
+  }
+
+  private append(entry: MessageHistoryEntry): void {
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, JSON.stringify(entry) + "\n");
+    } catch {
+      // Best effort — losing a history line must not lose the message
+    }
+  }
+}
+
+// ─── Reading ─────────────────────────────────────────────────────
+
+/** A sent message joined with when its recipient first consumed it. */
+export interface MessageRecord {
+  message: QueueMessage;
+  sentAt: number;
+  consumedAt?: number;
+}
+
+/**
+ * Read messages.jsonl into one record per delivered message, in send
+ * order. Unparseable lines (e.g. a write cut short by a crash) are
+ * skipped. Returns an empty list if the file does not exist.
+ */
+export async function readMessageHistory(path: string): Promise<MessageRecord[]> {
+  const file = Bun.file(path);
+  if (!(await file.exists())) return [];
+
+  const records: MessageRecord[] = [];
+  const byDelivery = new Map<string, MessageRecord>();
+  for (const line of (await file.text()).split("\n")) {
+    if (!line.trim()) continue;
+    let entry: MessageHistoryEntry;
+    try {
+      entry = JSON.parse(line) as MessageHistoryEntry;
+    } catch {
+      continue;
+    }
+    if (entry.event === "sent") {
+      const record: MessageRecord = { message: entry.message, sentAt: entry.at };
+      records.push(record);
+      byDelivery.set(deliveryKey(entry.message.id, entry.message.to), record);
+    } else if (entry.event === "consumed") {
+      const record = byDelivery.get(deliveryKey(entry.id, entry.by));
+      // Redelivered messages are consumed again; keep the first time
+      if (record && record.consumedAt === undefined) {
+        record.consumedAt = entry.at;
+      }
+    }
+  }
+  return records;
+}
+
+// Fan-out copies share an id, so a delivery is an id and a recipient
+function deliveryKey(id: string, recipient: string): string {
+  return `${id}\u0000${recipient}`;
+}
+
+/** Every message type, for validating a --type filter. */
+export const MESSAGE_TYPES: MessageType[] = [
+  "task", "status", "review", "complete", "error", "cancel", "all-complete", "question", "reply",
+];
+
+export interface MessageFilter {
+  /** Only messages sent by or to this agent. */
+  agent?: string;
+  type?: MessageType;
+}
+
+export function filterMessageHistory(
+  records: MessageRecord[],
+  filter: MessageFilter,
+): MessageRecord[] {
+  return records.filter(({ message }) =>
+    (!filter.agent || message.from === filter.agent || message.to === filter.agent) &&
+    (!filter.type || message.type === filter.type),
+  );
+}
+
+/**
+ * One-line summary of a record for the `messages` subcommand, e.g.
+ * "2026-03-02 14:05:11  bob → alice  [task]  Build the API  (read after 2.3s)".
+ */
+export function formatMessageRecord(record: MessageRecord, maxContent = 160): string {
+  const { message, sentAt, consumedAt } = record;
+  const time = new Date(sentAt).toISOString().replace("T", " ").slice(0, 19);
+  const content = message.content.replace(/\s+/g, " ").trim();
+  const preview = content.length > maxContent ? `${content.slice(0, maxContent)}…` : content;
+  const status = consumedAt === undefined
+    ? "never read"
+    : `read after ${((consumedAt - sentAt) / 1000).toFixed(1)}s`;
+  return `${time}  ${message.from} → ${message.to}  [${message.type}]  ${preview}  (${status})`;
+}
@@ -0,0 +1,58 @@
+import { test, expect, describe } from "bun:test";
+import { formatMessageBody, payloadOf, renderPayload, validatePayload } from "./message-payloads.ts";
+import type { QueueMessage } from "./types.ts";
+
+function makeMessage(overrides: Partial<QueueMessage>): QueueMessage {
+  return {
+    id: "m-1",
+    from: "alice",
+    to: "bob",
+    type: "complete",
+    content: "",
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe("validatePayload", () => {
+  test("checks each type against its schema", () => {
+    expect(validatePayload("complete", { summary: "Done", filesChanged: "a.ts" })).toEqual({
+      value: { summary: "Done", filesChanged: ["a.ts"] },
+      errors: [],
+    });
+    expect(validatePayload("error", { details: "Disk full", recoverable: "false" }).value)
+      .toEqual({ details: "Disk full", recoverable: false });
+    expect(validatePayload("review", { verdict: "lgtm", comments: [{ file: "a.ts" }] }).errors).toEqual([
+      '$.verdict: must be one of "approve", "request-changes", "comment", got "lgtm"',
+      "$.comments[0].comment: required",
+    ]);
+  });
+});
+
+describe("renderPayload", () => {
+  test("renders reviews and errors readably", () => {
+    expect(renderPayload("review", {
+      verdict: "request-changes",
+      comments: [{ comment: "Handle null", file: "api.ts", line: 12 }, { comment: "Add tests" }],
+    })).toBe("Verdict: request-changes\n- api.ts:12: Handle null\n- Add tests");
+    expect(renderPayload("error", { details: "Disk full", recoverable: false }))
+      .toBe("Disk full\nRecoverable: no");
+  });
+});
+
+describe("formatMessageBody", () => {
+  test("keeps content the rendering does not already include", () => {
+    const payload = { summary: "Cancelled work", cancelled: true };
+    expect(formatMessageBody(makeMessage({ content: "Cancelled work", payload })))
+      .toBe("Cancelled: Cancelled work");
+    expect(formatMessageBody(makeMessage({ content: "Over to you", payload })))
+      .toBe("Over to you\nCancelled: Cancelled work");
+    expect(formatMessageBody(makeMessage({ type: "task", content: "Build it" }))).toBe("Build it");
+  });
+
+  test("payloadOf only returns payloads of the requested type", () => {
+    const message = makeMessage({ payload: { summary: "Done" } });
+    expect(payloadOf(message, "complete")?.summary).toBe("Done");
+    expect(payloadOf(message, "error")).toBeUndefined();
+  });
+});
@@ -0,0 +1,144 @@
+import type {
+  CompletePayload,
+  ErrorPayload,
+  MessagePayloads,
+  MessageType,
+  PayloadMessageType,
+  QueueMessage,
+  ReviewComment,
+  ReviewPayload,
+} from "./types.ts";
+import { STRING_LIST, validateStructured } from "./structured-output.ts";
+import type { JsonSchema, PropertiesOf, ValidationResult } from "./structured-output.ts";
+
+// ─── Schemas ─────────────────────────────────────────────────────
+
+const COMPLETE_PROPERTIES: PropertiesOf<CompletePayload> = {
+  summary: { type: "string", description: "What was accomplished" },
+  branch: { type: "string", description: 'Branch holding the work, e.g. "agent/alice"' },
+  commit: { type: "string", description: "Commit SHA the branch is at" },
+  filesChanged: { ...STRING_LIST, description: "Files created or modified" },
+  cancelled: { type: "boolean", description: "True if the work stopped because it was cancelled" },
+};
+
+const REVIEW_COMMENT_PROPERTIES: PropertiesOf<ReviewComment> = {
+  comment: { type: "string" },
+  file: { type: "string" },
+  line: { type: "integer" },
+};
+
+const REVIEW_PROPERTIES: PropertiesOf<ReviewPayload> = {
+  verdict: { type: "string", enum: ["approve", "request-changes", "comment"] },
+  comments: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: REVIEW_COMMENT_PROPERTIES,
+      required: ["comment"] satisfies (keyof ReviewComment)[],
+    },
+  },
+};
+
+const ERROR_PROPERTIES: PropertiesOf<ErrorPayload> = {
+  details: { type: "string", description: "What went wrong" },
+  recoverable: { type: "boolean", description: "True if the sender can carry on" },
+};
+
+/** Schema of each typed message type's payload. */
+export const PAYLOAD_SCHEMAS: Record<PayloadMessageType, JsonSchema> = {
+  complete: {
+    type: "object",
+    properties: COMPLETE_PROPERTIES,
+    required: ["summary"] satisfies (keyof CompletePayload)[],
+  },
+  review: {
+    type: "object",
+    properties: REVIEW_PROPERTIES,
+    required: ["verdict", "comments"] satisfies (keyof ReviewPayload)[],
+  },
+  error: {
+    type: "object",
+    properties: ERROR_PROPERTIES,
+    required: ["details", "recoverable"] satisfies (keyof ErrorPayload)[],
+  },
+};
+
+export function isPayloadType(type: MessageType): type is PayloadMessageType {
+  return type in PAYLOAD_SCHEMAS;
+}
+
+/**
+ * Check a payload against its message type's schema, with the same
+ * repairs as step outputs (see validateStructured).
+ */
+export function validatePayload<K extends PayloadMessageType>(
+  type: K,
+  raw: unknown,
+): ValidationResult<MessagePayloads[K]> {
+  return validateStructured<MessagePayloads[K]>(PAYLOAD_SCHEMAS[type], raw);
+}
+
+/** A message's payload, if it is of the given type and has one. */
+export function payloadOf<K extends PayloadMessageType>(
+  message: QueueMessage,
+  type: K,
+): MessagePayloads[K] | undefined {
+  return message.type === type ? (message.payload as MessagePayloads[K] | undefined) : undefined;
+}
+
+// ─── Rendering ───────────────────────────────────────────────────
+
+/**
+ * Readable multi-line rendering of a payload, for agents' context and as
+ * the content of messages sent with a payload only.
+ */
+export function renderPayload<K extends PayloadMessageType>(
+  type: K,
+  payload: MessagePayloads[K],
+): string {
+  switch (type) {
+    case "complete":
+      return renderComplete(payload as CompletePayload);
+    case "review":
+      return renderReview(payload as ReviewPayload);
+    default:
+      return renderError(payload as ErrorPayload);
+  }
+}
+
+function renderComplete(payload: CompletePayload): string {
+  const lines = [`${payload.cancelled ? "Cancelled" : "Summary"}: ${payload.summary}`];
+  if (payload.branch) {
+    lines.push(`Branch: ${payload.branch}${payload.commit ? ` @ ${payload.commit}` : ""}`);
+  } else if (payload.commit) {
+    lines.push(`Commit: ${payload.commit}`);
+  }
+  if (payload.filesChanged?.length) {
+    lines.push(`Files changed: ${payload.filesChanged.join(", ")}`);
+  }
+  return lines.join("\n");
+}
+
+function renderReview(payload: ReviewPayload): string {
+  const lines = [`Verdict: ${payload.verdict}`];
+  for (const { comment, file, line } of payload.comments) {
+    const where = file ? `${file}${line !== undefined ? `:${line}` : ""}: ` : "";
+    lines.push(`- ${where}${comment}`);
+  }
+  return lines.join("\n");
+}
+
+function renderError(payload: ErrorPayload): string {
+  return `${payload.details}\nRecoverable: ${payload.recoverable ? "yes" : "no"}`;
+}
+
+/**
+ * Body of a message as an agent reads it: the rendered payload, preceded
+ * by the content unless the rendering already says it (e.g. content that
+ * is just the summary).
+ */
+export function formatMessageBody(message: QueueMessage): string {
+  if (!message.payload || !isPayloadType(message.type)) return message.content;
+  const rendered = renderPayload(message.type, message.payload);
+  return rendered.includes(message.content) ? rendered : `${message.content}\n${rendered}`;
+}
@@ -1,11 +1,15 @@
 import { test, expect, beforeEach, afterEach, describe } from "bun:test";
-import { MessageQueue } from "./message-queue.ts";
+import { MessageQueue, QueueFullError, connectRedis, queueLimitFromEnv } from "./message-queue.ts";
+import type { RedisLike } from "./message-queue.ts";
 import { MockRedis } from "./mock-redis.ts";
+import { SqliteRedis } from "./sqlite-redis.ts";
 import { writeSessionState } from "./state-manager.ts";
 import type { QueueMessage, SessionState, AgentConfig } from "./types.ts";
 
 // Unique prefix per test run to avoid collisions
 const prefix = `test-${crypto.randomUUID().slice(0, 8)}`;
+const s1 = `${prefix}-s1`;
+const s2 = `${prefix}-s2`;
 let mq: MessageQueue;
 let tmpDir: string;
 
@@ -21,7 +25,7 @@ function makeMessage(
   return {
     id: crypto.randomUUID(),
     from: agentName(from),
-    to: to === "shared" || to === "main" ? to : agentName(to),
+    to: to === "shared" || to === "main" || to.startsWith("#") ? to : agentName(to),
     type: "task",
     content,
     timestamp: Date.now(),
@@ -42,173 +46,573 @@ function makeAgentConfig(name: string): AgentConfig {
   };
 }
 
-beforeEach(async () => {
-  tmpDir = `/tmp/sealteam-mq-test-${crypto.randomUUID()}`;
-  await Bun.$`mkdir -p ${tmpDir}`.quiet();
-  mq = new MessageQueue(new MockRedis());
-});
-
-afterEach(async () => {
-  mq.close();
-  await Bun.$`rm -rf ${tmpDir}`.quiet();
-});
-
-describe("send and receive", () => {
-  test("round-trip: send then receive", async () => {
-    const msg = makeMessage("bob", "alice", "hello alice");
-
-    await mq.send(msg);
-    const received = await mq.receive(agentName("alice"), 1);
-
-    expect(received).not.toBeNull();
-    expect(received!.from).toBe(agentName("bob"));
-    expect(received!.content).toBe("hello alice");
-    expect(received!.type).toBe("task");
-  });
-
-  test("receive returns null on timeout (empty queue)", async () => {
-    const received = await mq.receive(agentName("nobody"), 1);
-    expect(received).toBeNull();
-  });
-
-  test("non-blocking receive returns null on empty queue", async () => {
-    const received = await mq.receiveNonBlocking(agentName("nobody"));
-    expect(received).toBeNull();
-  });
-
-  test("non-blocking receive returns message when available", async () => {
-    const msg = makeMessage("bob", "charlie", "quick check");
-    await mq.send(msg);
-
-    const received = await mq.receiveNonBlocking(agentName("charlie"));
-    expect(received).not.toBeNull();
-    expect(received!.content).toBe("quick check");
-  });
-
-  test("FIFO order: messages received in order sent", async () => {
-    const msg1 = makeMessage("bob", "alice", "first");
-    const msg2 = makeMessage("bob", "alice", "second");
-    const msg3 = makeMessage("bob", "alice", "third");
-
-    await mq.send(msg1);
-    await mq.send(msg2);
-    await mq.send(msg3);
-
-    const r1 = await mq.receive(agentName("alice"), 1);
-    const r2 = await mq.receive(agentName("alice"), 1);
-    const r3 = await mq.receive(agentName("alice"), 1);
-
-    expect(r1!.content).toBe("first");
-    expect(r2!.content).toBe("second");
-    expect(r3!.content).toBe("third");
-  });
-
-  test("send to main queue", async () => {
-    // Use a prefixed main queue name to avoid collisions
-    const msg: QueueMessage = {
-      id: crypto.randomUUID(),
-      from: agentName("bob"),
-      to: "main",
-      type: "all-complete",
-      content: "done",
-      timestamp: Date.now(),
-    };
-
-    await mq.send(msg);
-    const received = await mq.receive("main", 1);
-
-    expect(received).not.toBeNull();
-    expect(received!.type).toBe("all-complete");
-    expect(received!.content).toBe("done");
-  });
-});
-
-describe("shared fan-out", () => {
-  test("fan-out sends to all active agents except sender", async () => {
-    const session: SessionState = {
-      goal: "test",
-      startTime: Date.now(),
-      workspace: tmpDir,
-      valkeyUrl: "valkey://localhost:6379",
-      agents: [
-        { config: makeAgentConfig("bob"), pid: 1, status: "running", startTime: Date.now() },
-        { config: makeAgentConfig("alice"), pid: 2, status: "running", startTime: Date.now() },
-        { config: makeAgentConfig("charlie"), pid: 3, status: "running", startTime: Date.now() },
-      ],
-      status: "running",
-    };
-    await writeSessionState(tmpDir, session);
-
-    const msg = makeMessage("bob", "shared", "API schema finalized");
-    await mq.send(msg, tmpDir);
-
-    // alice and charlie should receive it, bob should not
-    const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
-    const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
-    const bobMsg = await mq.receiveNonBlocking(agentName("bob"));
-
-    expect(aliceMsg).not.toBeNull();
-    expect(aliceMsg!.content).toBe("API schema finalized");
-    expect(charlieMsg).not.toBeNull();
-    expect(charlieMsg!.content).toBe("API schema finalized");
-    expect(bobMsg).toBeNull();
-  });
-
-  test("fan-out skips completed agents", async () => {
-    const session: SessionState = {
-      goal: "test",
-      startTime: Date.now(),
-      workspace: tmpDir,
-      valkeyUrl: "valkey://localhost:6379",
-      agents: [
-        { config: makeAgentConfig("bob"), pid: 1, status: "running", startTime: Date.now() },
-        { config: makeAgentConfig("alice"), pid: 2, status: "completed", startTime: Date.now(), endTime: Date.now() },
-        { config: makeAgentConfig("charlie"), pid: 3, status: "running", startTime: Date.now() },
-      ],
-      status: "running",
-    };
-    await writeSessionState(tmpDir, session);
-
-    const msg = makeMessage("bob", "shared", "update");
-    await mq.send(msg, tmpDir);
-
-    const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
-    const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
-
-    expect(aliceMsg).toBeNull(); // completed, should not receive
-    expect(charlieMsg).not.toBeNull();
-  });
-
-  test("fan-out throws without workspacePath", async () => {
-    const msg = makeMessage("bob", "shared", "test");
-    expect(mq.send(msg)).rejects.toThrow("workspacePath is required");
-  });
-
-  test("fan-out throws when session.json missing", async () => {
-    const msg = makeMessage("bob", "shared", "test");
-    expect(mq.send(msg, "/tmp/nonexistent-dir")).rejects.toThrow(
-      "session.json not found",
-    );
-  });
-});
-
-describe("flushAll", () => {
-  test("removes all queue keys", async () => {
-    await mq.send(makeMessage("bob", "alice", "msg1"));
-    await mq.send(makeMessage("bob", "charlie", "msg2"));
-
-    const flushed = await mq.flushAll();
-    expect(flushed).toBe(2);
-
-    // Queues should be empty
-    const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
-    const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
-    expect(aliceMsg).toBeNull();
-    expect(charlieMsg).toBeNull();
+/**
+ * The suite runs against every store. Stores connected within one test
+ * share their data, like processes of one session. Set
+ * SEALTEAM_TEST_VALKEY_URL to a scratch server to include Valkey; the
+ * flushAll tests delete its unnamespaced queue keys.
+ */
+const backends: { name: string; connect: () => RedisLike }[] = [
+  { name: "MockRedis", connect: () => new MockRedis() },
+  { name: "SqliteRedis", connect: () => new SqliteRedis(`${tmpDir}/queue.db`) },
+  ...(process.env.SEALTEAM_TEST_VALKEY_URL
+    ? [{ name: "Valkey", connect: () => connectRedis(process.env.SEALTEAM_TEST_VALKEY_URL) }]
+    : []),
+];
+
+for (const backend of backends) {
+  describe(`on ${backend.name}`, () => {
+    beforeEach(async () => {
+      tmpDir = `/tmp/sealteam-mq-test-${crypto.randomUUID()}`;
+      await Bun.$`mkdir -p ${tmpDir}`.quiet();
+      mq = new MessageQueue(backend.connect());
+    });
+
+    afterEach(async () => {
+      mq.close();
+      await Bun.$`rm -rf ${tmpDir}`.quiet();
+    });
+
+    describe("send and receive", () => {
+      test("round-trip: send then receive", async () => {
+        const msg = makeMessage("bob", "alice", "hello alice");
+
+        await mq.send(msg);
+        const received = await mq.receive(agentName("alice"), 1);
+
+        expect(received).not.toBeNull();
+        expect(received!.from).toBe(agentName("bob"));
+        expect(received!.content).toBe("hello alice");
+        expect(received!.type).toBe("task");
+      });
+
+      test("receive returns null on timeout (empty queue)", async () => {
+        const received = await mq.receive(agentName("nobody"), 1);
+        expect(received).toBeNull();
+      });
+
+      test("non-blocking receive returns null on empty queue", async () => {
+        const received = await mq.receiveNonBlocking(agentName("nobody"));
+        expect(received).toBeNull();
+      });
+
+      test("non-blocking receive returns message when available", async () => {
+        const msg = makeMessage("bob", "charlie", "quick check");
+        await mq.send(msg);
+
+        const received = await mq.receiveNonBlocking(agentName("charlie"));
+        expect(received).not.toBeNull();
+        expect(received!.content).toBe("quick check");
+      });
+
+      test("FIFO order: messages received in order sent", async () => {
+        const msg1 = makeMessage("bob", "alice", "first");
+        const msg2 = makeMessage("bob", "alice", "second");
+        const msg3 = makeMessage("bob", "alice", "third");
+
+        await mq.send(msg1);
+        await mq.send(msg2);
+        await mq.send(msg3);
+
+        const r1 = await mq.receive(agentName("alice"), 1);
+        const r2 = await mq.receive(agentName("alice"), 1);
+        const r3 = await mq.receive(agentName("alice"), 1);
+
+        expect(r1!.content).toBe("first");
+        expect(r2!.content).toBe("second");
+        expect(r3!.content).toBe("third");
+      });
+
+      test("send to main queue", async () => {
+        // Use a prefixed main queue name to avoid collisions
+        const msg: QueueMessage = {
+          id: crypto.randomUUID(),
+          from: agentName("bob"),
+          to: "main",
+          type: "all-complete",
+          content: "done",
+          timestamp: Date.now(),
+        };
+
+        await mq.send(msg);
+        const received = await mq.receive("main", 1);
+
+        expect(received).not.toBeNull();
+        expect(received!.type).toBe("all-complete");
+        expect(received!.content).toBe("done");
+      });
+    });
+
+    describe("acknowledgement and redelivery", () => {
+      test("unacked messages are redelivered in order to the next run", async () => {
+        const redis = backend.connect();
+        const crashed = new MessageQueue(redis);
+        await crashed.send(makeMessage("bob", "alice", "first"));
+        await crashed.send(makeMessage("bob", "alice", "second"));
+        await crashed.send(makeMessage("bob", "alice", "third"));
+
+        // The first is finished and acked; the crash takes the second mid-work
+        const first = await crashed.receive(agentName("alice"), 1);
+        expect(await crashed.ack(first!.id)).toBe(true);
+        await crashed.receive(agentName("alice"), 1);
+
+        const respawned = new MessageQueue(redis);
+        expect(await respawned.requeueUnacked(agentName("alice"))).toBe(1);
+        expect((await respawned.receive(agentName("alice"), 1))?.content).toBe("second");
+        expect((await respawned.receive(agentName("alice"), 1))?.content).toBe("third");
+      });
+
+      test("acked messages are not redelivered", async () => {
+        await mq.send(makeMessage("bob", "alice", "done"));
+        const received = await mq.receive(agentName("alice"), 1);
+        await mq.ack(received!.id);
+
+        expect(await mq.requeueUnacked(agentName("alice"))).toBe(0);
+        expect(await mq.receiveNonBlocking(agentName("alice"))).toBeNull();
+      });
+
+      test("ack of an unknown id returns false", async () => {
+        expect(await mq.ack("no-such-message")).toBe(false);
+      });
+    });
+
+    describe("priority lanes", () => {
+      test("receive takes control, then normal, then bulk messages", async () => {
+        await mq.send({ ...makeMessage("carol", "alice", "fyi"), priority: "bulk" });
+        await mq.send(makeMessage("carol", "alice", "work"));
+        await mq.send({ ...makeMessage("carol", "alice", "directive"), from: "bob" });
+        await mq.send({ ...makeMessage("carol", "alice", "stop"), type: "cancel", priority: "bulk" });
+
+        const order: string[] = [];
+        for (let i = 0; i < 4; i++) {
+          const received = await mq.receive(agentName("alice"), 1);
+          order.push(`${received?.priority}:${received?.content}`);
+        }
+        expect(order).toEqual(["control:directive", "control:stop", "normal:work", "bulk:fyi"]);
+      });
+
+      test("peek lists waiting messages without consuming them", async () => {
+        await mq.send(makeMessage("carol", "alice", "work"));
+        await mq.send({ ...makeMessage("carol", "alice", "stop"), type: "cancel" });
+
+        expect((await mq.peek(agentName("alice"))).map((m) => m.content)).toEqual(["stop", "work"]);
+        expect((await mq.peek(agentName("alice"), "control")).map((m) => m.content)).toEqual(["stop"]);
+        expect(await mq.peek(agentName("alice"), "bulk")).toEqual([]);
+        expect((await mq.receive(agentName("alice"), 1))?.content).toBe("stop");
+      });
+
+      test("unacked messages are redelivered to their own lanes", async () => {
+        const redis = backend.connect();
+        const crashed = new MessageQueue(redis);
+        await crashed.send(makeMessage("carol", "alice", "work"));
+        await crashed.send({ ...makeMessage("carol", "alice", "stop"), type: "cancel" });
+        await crashed.receive(agentName("alice"), 1);
+        await crashed.receive(agentName("alice"), 1);
+
+        const respawned = new MessageQueue(redis);
+        expect(await respawned.requeueUnacked(agentName("alice"))).toBe(2);
+        expect((await respawned.peek(agentName("alice"), "control")).map((m) => m.content)).toEqual(["stop"]);
+        expect((await respawned.peek(agentName("alice"), "normal")).map((m) => m.content)).toEqual(["work"]);
+      });
+    });
+
+    describe("queue limits", () => {
+      test("rejects sends to a full queue, except control messages and completions", async () => {
+        const queue = new MessageQueue(backend.connect(), { queueLimit: { maxDepth: 2, overflow: "reject" } });
+        await queue.send(makeMessage("carol", "alice", "one"));
+        await queue.send({ ...makeMessage("dave", "alice", "two"), priority: "bulk" });
+
+        const error = await queue.send(makeMessage("carol", "alice", "three")).catch((e) => e);
+        expect(error).toBeInstanceOf(QueueFullError);
+        expect(error.agents).toEqual([agentName("alice")]);
+        await queue.send({ ...makeMessage("carol", "alice", "done"), type: "complete" });
+        await queue.send({ ...makeMessage("carol", "alice", "now"), from: "bob" });
+
+        expect((await queue.peek(agentName("alice"))).map((m) => m.content)).toEqual(["now", "one", "done", "two"]);
+        queue.close();
+      });
+
+      test("coalesce merges overflow into the sender's newest waiting message", async () => {
+        const queue = new MessageQueue(backend.connect(), { queueLimit: { maxDepth: 2, overflow: "coalesce" } });
+        await queue.send({ ...makeMessage("carol", "alice", "a"), type: "status" });
+        await queue.send(makeMessage("dave", "alice", "b"));
+        await queue.send({ ...makeMessage("carol", "alice", "c"), type: "status" });
+        await queue.send({ ...makeMessage("carol", "alice", "d"), type: "status" });
+
+        const waiting = await queue.peek(agentName("alice"));
+        expect(waiting.map((m) => [m.content, m.coalesced])).toEqual([["b", undefined], ["a\n\nc\n\nd", 3]]);
+        // Nothing from dave's side to merge a question into
+        await expect(queue.send({ ...makeMessage("dave", "alice", "?"), type: "question" })).rejects.toThrow("Queue full");
+        queue.close();
+      });
+
+      test("fan-out reaches every recipient with room and names the rest", async () => {
+        const queue = new MessageQueue(backend.connect(), { queueLimit: { maxDepth: 1, overflow: "reject" } });
+        await queue.subscribe(agentName("alice"), ["design"]);
+        await queue.subscribe(agentName("carol"), ["design"]);
+        await queue.send(makeMessage("dave", "alice", "busy"));
+
+        await expect(queue.send(makeMessage("bob", "#design", "blue"))).rejects.toThrow(
+          `Queue full for ${agentName("alice")}`,
+        );
+        expect((await queue.peek(agentName("carol"))).map((m) => m.content)).toEqual(["blue"]);
+        queue.close();
+      });
+    });
+
+    describe("batches", () => {
+      test("receiveBatch takes matching messages from one lane, oldest first, until acked", async () => {
+        await mq.send(makeMessage("carol", "alice", "first"));
+        await mq.send(makeMessage("dave", "alice", "other"));
+        await mq.send(makeMessage("carol", "alice", "second"));
+        await mq.send(makeMessage("carol", "alice", "third"));
+        const first = await mq.receive(agentName("alice"), 1);
+
+        const batch = await mq.receiveBatch(agentName("alice"), "normal", (m) => m.from === first!.from, 1);
+        expect(batch.map((m) => m.content)).toEqual(["second"]);
+        expect((await mq.peek(agentName("alice"))).map((m) => m.content)).toEqual(["other", "third"]);
+
+        await mq.ack(first!.id);
+        expect(await mq.requeueUnacked(agentName("alice"))).toBe(1);
+        expect(await mq.ack(batch[0]!.id)).toBe(false);
+      });
+    });
+
+    describe("dead letters", () => {
+      test("receive dead-letters an unparseable payload and moves on", async () => {
+        const redis = backend.connect();
+        const queue = new MessageQueue(redis);
+        await redis.lpush(`queue:${agentName("alice")}`, "{not json");
+        await queue.send(makeMessage("carol", "alice", "fine"));
+
+        expect(await queue.receive(agentName("alice"), 1)).toBeNull();
+        expect((await queue.receive(agentName("alice"), 1))?.content).toBe("fine");
+
+        const letters = await queue.deadLetters(agentName("alice"));
+        expect(letters).toHaveLength(1);
+        expect(letters[0]).toMatchObject({ raw: "{not json", reason: "unparseable payload" });
+        expect(queue.drainDeadLetters()).toHaveLength(1);
+        expect(queue.drainDeadLetters()).toHaveLength(0);
+      });
+
+      test("redelivery counts attempts and dead-letters at the limit", async () => {
+        const redis = backend.connect();
+        await new MessageQueue(redis).send(makeMessage("carol", "alice", "poison"));
+
+        // Each run crashes before acknowledging the message
+        for (let run = 1; run <= 2; run++) {
+          const crashed = new MessageQueue(redis, { maxAttempts: 2 });
+          expect(await crashed.requeueUnacked(agentName("alice"))).toBe(run === 1 ? 0 : 1);
+          expect((await crashed.receive(agentName("alice"), 1))?.attempts).toBe(run === 1 ? undefined : 1);
+        }
+
+        const respawned = new MessageQueue(redis, { maxAttempts: 2 });
+        expect(await respawned.requeueUnacked(agentName("alice"))).toBe(0);
+        expect(await respawned.receiveNonBlocking(agentName("alice"))).toBeNull();
+        const [letter] = respawned.drainDeadLetters();
+        expect(letter!.message).toMatchObject({ content: "poison", attempts: 2 });
+        expect(letter!.reason).toBe("delivered 2 times without being acknowledged");
+      });
+
+      test("deadLetter keeps the message and acknowledges it", async () => {
+        await mq.send(makeMessage("carol", "alice", "hopeless"));
+        const received = await mq.receive(agentName("alice"), 1);
+        await mq.deadLetter(agentName("alice"), received!, "boom");
+
+        expect(await mq.requeueUnacked(agentName("alice"))).toBe(0);
+        const [letter] = await mq.deadLetters(agentName("alice"));
+        expect(letter).toMatchObject({ agent: agentName("alice"), reason: "boom" });
+        expect(letter!.message!.content).toBe("hopeless");
+      });
+    });
+
+    describe("request", () => {
+      test("returns the matching reply and leaves other messages queued", async () => {
+        const asker = agentName("alice");
+        const pending = mq.request(makeMessage("alice", "bob", "Which port?"), 1000, 5);
+
+        const question = await mq.receive(agentName("bob"), 1);
+        expect(question!.correlationId).toBeString();
+        expect(question!.replyTo).toBe(asker);
+        await mq.send(makeMessage("charlie", "alice", "unrelated"));
+        await mq.send({
+          ...makeMessage("bob", "alice", "3000"),
+          type: "reply",
+          correlationId: question!.correlationId,
+        });
+
+        const reply = await pending;
+        expect(reply!.content).toBe("3000");
+        expect((await mq.receiveNonBlocking(asker))?.content).toBe("unrelated");
+        expect(await mq.receiveNonBlocking(asker)).toBeNull();
+      });
+
+      test("returns null on timeout and a late reply is delivered normally", async () => {
+        const asker = agentName("alice");
+        const reply = await mq.request(makeMessage("alice", "bob", "Anyone?"), 20, 5);
+        expect(reply).toBeNull();
+
+        const question = await mq.receive(agentName("bob"), 1);
+        await mq.send({
+          ...makeMessage("bob", "alice", "late answer"),
+          type: "reply",
+          correlationId: question!.correlationId,
+        });
+        expect((await mq.receiveNonBlocking(asker))?.content).toBe("late answer");
+      });
+
+      test("rejects shared and main recipients", async () => {
+        expect(mq.request(makeMessage("alice", "shared"), 10)).rejects.toThrow("single agent");
+      });
+    });
+
+    describe("shared fan-out", () => {
+      test("fan-out sends to all active agents except sender", async () => {
+        const session: SessionState = {
+          goal: "test",
+          startTime: Date.now(),
+          workspace: tmpDir,
+          valkeyUrl: "valkey://localhost:6379",
+          agents: [
+            { config: makeAgentConfig("bob"), pid: 1, status: "running", startTime: Date.now() },
+            { config: makeAgentConfig("alice"), pid: 2, status: "running", startTime: Date.now() },
+            { config: makeAgentConfig("charlie"), pid: 3, status: "running", startTime: Date.now() },
+          ],
+          status: "running",
+        };
+        await writeSessionState(tmpDir, session);
+
+        const msg = makeMessage("bob", "shared", "API schema finalized");
+        await mq.send(msg, tmpDir);
+
+        // alice and charlie should receive it, bob should not
+        const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
+        const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
+        const bobMsg = await mq.receiveNonBlocking(agentName("bob"));
+
+        expect(aliceMsg).not.toBeNull();
+        expect(aliceMsg!.content).toBe("API schema finalized");
+        expect(aliceMsg!.priority).toBe("bulk");
+        expect(charlieMsg).not.toBeNull();
+        expect(charlieMsg!.content).toBe("API schema finalized");
+        expect(bobMsg).toBeNull();
+      });
+
+      test("fan-out skips completed agents", async () => {
+        const session: SessionState = {
+          goal: "test",
+          startTime: Date.now(),
+          workspace: tmpDir,
+          valkeyUrl: "valkey://localhost:6379",
+          agents: [
+            { config: makeAgentConfig("bob"), pid: 1, status: "running", startTime: Date.now() },
+            { config: makeAgentConfig("alice"), pid: 2, status: "completed", startTime: Date.now(), endTime: Date.now() },
+            { config: makeAgentConfig("charlie"), pid: 3, status: "running", startTime: Date.now() },
+          ],
+          status: "running",
+        };
+        await writeSessionState(tmpDir, session);
+
+        const msg = makeMessage("bob", "shared", "update");
+        await mq.send(msg, tmpDir);
+
+        const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
+        const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
+
+        expect(aliceMsg).toBeNull(); // completed, should not receive
+        expect(charlieMsg).not.toBeNull();
+      });
+
+      test("fan-out throws without workspacePath", async () => {
+        const msg = makeMessage("bob", "shared", "test");
+        expect(mq.send(msg)).rejects.toThrow("workspacePath is required");
+      });
+
+      test("fan-out throws when session.json missing", async () => {
+        const msg = makeMessage("bob", "shared", "test");
+        expect(mq.send(msg, "/tmp/nonexistent-dir")).rejects.toThrow(
+          "session.json not found",
+        );
+      });
+    });
+
+    describe("channels", () => {
+      test("reaches only subscribers, marked with the channel", async () => {
+        await mq.subscribe(agentName("alice"), ["api-contracts"]);
+        await mq.subscribe(agentName("bob"), ["#api-contracts", "design"]);
+        await mq.subscribe(agentName("carol"), ["design"]);
+
+        await mq.send(makeMessage("bob", "#api-contracts", "GET /items"));
+
+        const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
+        expect(aliceMsg!.content).toBe("GET /items");
+        expect(aliceMsg!.channel).toBe("api-contracts");
+        expect(aliceMsg!.to).toBe(agentName("alice"));
+        // Not the sender, not other channels' subscribers
+        expect(await mq.receiveNonBlocking(agentName("bob"))).toBeNull();
+        expect(await mq.receiveNonBlocking(agentName("carol"))).toBeNull();
+      });
+
+      test("late subscribers can ask for retained history, oldest first", async () => {
+        await mq.send(makeMessage("bob", "#design", "blue"));
+        await mq.send(makeMessage("alice", "#design", "rounded corners"));
+
+        expect(await mq.subscribe(agentName("carol"), ["design"])).toBe(0);
+        expect(await mq.receiveNonBlocking(agentName("carol"))).toBeNull();
+
+        // The sender's own messages are not replayed to it
+        expect(await mq.subscribe(agentName("alice"), ["design"], { history: true })).toBe(1);
+        expect((await mq.receiveNonBlocking(agentName("alice")))?.content).toBe("blue");
+
+        expect(await mq.subscribe(agentName("dave"), ["design"], { history: true })).toBe(2);
+        expect((await mq.receiveNonBlocking(agentName("dave")))?.content).toBe("blue");
+        expect((await mq.receiveNonBlocking(agentName("dave")))?.content).toBe("rounded corners");
+      });
+
+      test("unsubscribe stops delivery", async () => {
+        await mq.subscribe(agentName("alice"), ["design"]);
+        await mq.unsubscribe(agentName("alice"), ["design"]);
+        await mq.send(makeMessage("bob", "#design", "green"));
+        expect(await mq.receiveNonBlocking(agentName("alice"))).toBeNull();
+      });
+
+      test("rejects malformed channel names", async () => {
+        expect(mq.send(makeMessage("bob", "#no spaces"))).rejects.toThrow("Invalid channel name");
+        expect(mq.subscribe(agentName("alice"), [""])).rejects.toThrow("Invalid channel name");
+      });
+    });
+
+    describe("session namespaces", () => {
+      test("sessions sharing a server only see their own queues", async () => {
+        const redis = backend.connect();
+        const first = new MessageQueue(redis, { sessionId: s1 });
+        const second = new MessageQueue(redis, { sessionId: s2 });
+        await first.send(makeMessage("main", "bob", "goal one"));
+        await second.send(makeMessage("main", "bob", "goal two"));
+
+        expect((await first.receive(agentName("bob"), 1))?.content).toBe("goal one");
+        expect(await first.receive(agentName("bob"), 1)).toBeNull();
+        expect((await second.receive(agentName("bob"), 1))?.content).toBe("goal two");
+      });
+
+      test("flushAll leaves other sessions' keys alone", async () => {
+        const redis = backend.connect();
+        const first = new MessageQueue(redis, { sessionId: s1 });
+        const second = new MessageQueue(redis, { sessionId: s2 });
+        await first.send(makeMessage("main", "bob", "stale"));
+        await second.send(makeMessage("main", "bob", "live"));
+
+        expect(await first.flushAll()).toBe(1);
+        expect((await second.receiveNonBlocking(agentName("bob")))?.content).toBe("live");
+      });
+
+      test("listSessions summarizes every namespace, newest first", async () => {
+        const redis = backend.connect();
+        const older = new MessageQueue(redis, { sessionId: s1 });
+        const newer = new MessageQueue(redis, { sessionId: s2 });
+        await older.writeSessionInfo({ workspace: "/ci/a", goal: "A", startTime: 1000 });
+        await newer.writeSessionInfo({ workspace: "/ci/b", goal: "B", startTime: 2000 });
+        await older.send(makeMessage("main", "bob", "one"));
+        await older.send(makeMessage("bob", "alice", "two"));
+        await older.receive(agentName("alice"), 1);
+        await older.subscribe(agentName("alice"), ["design"]);
+        // Keys outside any session are not listed
+        await mq.send(makeMessage("main", "bob", "legacy"));
+
+        // A shared server may hold other sessions
+        const sessions = (await newer.listSessions()).filter((s) => s.sessionId.startsWith(prefix));
+        expect(sessions.map((s) => s.sessionId)).toEqual([s2, s1]);
+        expect(sessions[0]).toEqual({
+          sessionId: s2,
+          info: { workspace: "/ci/b", goal: "B", startTime: 2000 },
+          agents: [],
+          queued: 0,
+          channels: [],
+        });
+        expect(sessions[1]).toMatchObject({
+          agents: [agentName("alice"), agentName("bob")],
+          queued: 1,
+          channels: ["design"],
+        });
+      });
+    });
+
+    describe("flushAll", () => {
+      test("removes all queue keys", async () => {
+        await mq.send(makeMessage("bob", "alice", "msg1"));
+        await mq.send(makeMessage("bob", "charlie", "msg2"));
+
+        const flushed = await mq.flushAll();
+        expect(flushed).toBe(2);
+
+        // Queues should be empty
+        const aliceMsg = await mq.receiveNonBlocking(agentName("alice"));
+        const charlieMsg = await mq.receiveNonBlocking(agentName("charlie"));
+        expect(aliceMsg).toBeNull();
+        expect(charlieMsg).toBeNull();
+      });
+
+      test("also removes unacknowledged messages", async () => {
+        await mq.send(makeMessage("bob", "alice", "in progress"));
+        await mq.receive(agentName("alice"), 1);
+
+        expect(await mq.flushAll()).toBe(1);
+        expect(await mq.requeueUnacked(agentName("alice"))).toBe(0);
+      });
+
+      test("also removes channel subscriptions and history", async () => {
+        await mq.subscribe(agentName("alice"), ["design"]);
+        await mq.send(makeMessage("bob", "#design", "blue"));
+        await mq.receiveNonBlocking(agentName("alice"));
+
+        expect(await mq.flushAll()).toBe(2);
+        expect(await mq.subscribe(agentName("carol"), ["design"], { history: true })).toBe(0);
+      });
+
+      test("also removes dead-letter queues", async () => {
+        await mq.send(makeMessage("carol", "alice", "hopeless"));
+        const received = await mq.receive(agentName("alice"), 1);
+        await mq.deadLetter(agentName("alice"), received!, "boom");
+
+        expect(await mq.flushAll()).toBe(1);
+        expect(await mq.deadLetters(agentName("alice"))).toEqual([]);
+      });
+
+      test("returns 0 when no queues exist", async () => {
+        const flushed = await mq.flushAll();
+        expect(flushed).toBe(0);
+      });
+    });
+
+    describe("takeCancel", () => {
+      test("removes the cancel message and leaves the rest in order", async () => {
+        await mq.send(makeMessage("bob", "alice", "first"));
+        await mq.send({ ...makeMessage("bob", "alice", "stop"), type: "cancel" });
+        await mq.send(makeMessage("bob", "alice", "second"));
+
+        const cancel = await mq.takeCancel(agentName("alice"));
+        expect(cancel?.type).toBe("cancel");
+        expect(cancel?.content).toBe("stop");
+
+        expect((await mq.receiveNonBlocking(agentName("alice")))?.content).toBe("first");
+        expect((await mq.receiveNonBlocking(agentName("alice")))?.content).toBe("second");
+        expect(await mq.receiveNonBlocking(agentName("alice"))).toBeNull();
+      });
+
+      test("returns null when no cancel is queued", async () => {
+        await mq.send(makeMessage("bob", "alice", "work"));
+        expect(await mq.takeCancel(agentName("alice"))).toBeNull();
+        expect((await mq.receiveNonBlocking(agentName("alice")))?.content).toBe("work");
+      });
+    });
   });
+}
 
-  test("returns 0 when no queues exist", async () => {
-    const flushed = await mq.flushAll();
-    expect(flushed).toBe(0);
+describe("queueLimitFromEnv", () => {
+  test("needs a depth and defaults to rejecting", () => {
+    expect(queueLimitFromEnv({})).toBeUndefined();
+    expect(queueLimitFromEnv({ SEALTEAM_QUEUE_DEPTH: "20" })).toEqual({ maxDepth: 20, overflow: "reject" });
+    expect(queueLimitFromEnv({ SEALTEAM_QUEUE_DEPTH: "5", SEALTEAM_QUEUE_OVERFLOW: "coalesce" }))
+      .toEqual({ maxDepth: 5, overflow: "coalesce" });
   });
 });
@@ -1,13 +1,124 @@
 import { RedisClient } from "bun";
 import { readSessionState } from "./state-manager.ts";
-import type { QueueMessage } from "./types.ts";
+import type { DeadLetter, MessagePriority, MessageType, QueueMessage, QueueOverflow } from "./types.ts";
 import { logRetry } from "./logger.ts";
+import { MessageHistory } from "./message-history.ts";
+import { SqliteRedis, sqlitePathFromUrl } from "./sqlite-redis.ts";
 
 const MQ_MAX_RETRIES = 3;
 const MQ_BASE_DELAY_MS = 500;
+// How often request() checks the asker's queue for the reply
+const REQUEST_POLL_MS = 500;
+/** Failed deliveries after which a message is dead-lettered. */
+export const MAX_DELIVERY_ATTEMPTS = 3;
 
-function queueKey(name: string): string {
-  return `queue:${name}`;
+/** Lanes of an agent's queue, in the order they are received. */
+export const PRIORITIES: MessagePriority[] = ["control", "normal", "bulk"];
+
+/**
+ * Prefix of every Valkey key a session uses, so several sessions can
+ * share one server. Without a session ID keys are not namespaced.
+ */
+export function sessionNamespace(sessionId?: string): string {
+  return sessionId ? `session:${sessionId}:` : "";
+}
+
+/** Short random ID for a new session's namespace. */
+export function newSessionId(): string {
+  return crypto.randomUUID().slice(0, 8);
+}
+
+/**
+ * Lane a message is delivered in. Cancels always go to "control", so an
+ * agent sees them before any queued work; otherwise an explicit
+ * `priority` wins, then messages from the leader are "control" too.
+ * Anything else gets `fallback`.
+ */
+export function messagePriority(
+  message: QueueMessage,
+  fallback: MessagePriority = "normal",
+): MessagePriority {
+  if (message.type === "cancel") return "control";
+  if (message.priority) return message.priority;
+  if (message.from === "bob") return "control";
+  return fallback;
+}
+
+/**
+ * How many messages may wait in an agent's normal and bulk lanes, and
+ * what happens to a message sent to a full queue: "reject" fails the
+ * send, "coalesce" merges it into the sender's newest waiting message
+ * of the same type (and rejects if there is none).
+ */
+export interface QueueLimit {
+  maxDepth: number;
+  overflow: QueueOverflow;
+}
+
+/**
+ * Queue limit from SEALTEAM_QUEUE_DEPTH and SEALTEAM_QUEUE_OVERFLOW
+ * (default "reject"); undefined when no depth is set.
+ */
+export function queueLimitFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): QueueLimit | undefined {
+  const maxDepth = Number(env.SEALTEAM_QUEUE_DEPTH) || undefined;
+  if (!maxDepth) return undefined;
+  return { maxDepth, overflow: env.SEALTEAM_QUEUE_OVERFLOW === "coalesce" ? "coalesce" : "reject" };
+}
+
+// Types a full queue still accepts: they end work, report a failure or
+// answer an asker who is blocked waiting
+const UNLIMITED_TYPES: MessageType[] = ["cancel", "complete", "error", "reply", "all-complete"];
+
+/**
+ * Raised by `send` when recipients' queues are full under the "reject"
+ * policy, or under "coalesce" with nothing to merge into. Fan-out copies
+ * still reach every recipient not named here.
+ */
+export class QueueFullError extends Error {
+  constructor(
+    readonly agents: string[],
+    readonly maxDepth: number,
+  ) {
+    super(
+      `Queue full for ${agents.join(", ")} (${maxDepth} messages waiting); ` +
+        "wait for them to catch up, or send fewer, larger messages",
+    );
+    this.name = "QueueFullError";
+  }
+}
+
+// Messages each channel retains for late subscribers
+const CHANNEL_HISTORY_LIMIT = 200;
+const CHANNEL_NAME = /^[a-z0-9][a-z0-9_-]*$/i;
+
+/**
+ * Channel name of a "#channel" recipient, or null for any other
+ * recipient. Throws on a malformed channel name.
+ */
+export function parseChannel(to: string): string | null {
+  if (!to.startsWith("#")) return null;
+  return channelName(to);
+}
+
+// Accepts "design" or "#design"
+function channelName(channel: string): string {
+  const name = channel.replace(/^#/, "");
+  if (!CHANNEL_NAME.test(name)) {
+    throw new Error(`Invalid channel name "${channel}": use letters, digits, "-" and "_"`);
+  }
+  return name;
+}
+
+// A payload that is not JSON, or not a message, is poison
+function parseMessage(raw: string): QueueMessage | null {
+  try {
+    const value = JSON.parse(raw) as QueueMessage | null;
+    return typeof value?.id === "string" ? value : null;
+  } catch {
+    return null;
+  }
 }
 
 function sleep(ms: number): Promise<void> {
@@ -15,34 +126,144 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Minimal interface for the Redis operations MessageQueue uses.
+ * Minimal interface for the Redis operations MessageQueue and
+ * RateLimiter use.
  * Allows injecting a mock for testing without a live Valkey connection.
  */
 export interface RedisLike {
   lpush(key: string, value: string): Promise<number>;
-  brpop(key: string, timeout: number): Promise<[string, string] | null>;
+  rpush(key: string, value: string): Promise<number>;
+  blmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+    timeout: number,
+  ): Promise<string | null>;
+  lmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+  ): Promise<string | null>;
   rpop(key: string): Promise<string | null>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  llen(key: string): Promise<number>;
+  lrem(key: string, count: number, value: string): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<unknown>;
+  sadd(key: string, member: string): Promise<number>;
+  srem(key: string, member: string): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<unknown>;
   keys(pattern: string): Promise<string[]>;
   del(key: string): Promise<number>;
+  /** Raw command, e.g. EVAL for the rate limiter's script. */
+  send(command: string, args: string[]): Promise<unknown>;
   close(): void;
 }
 
+/**
+ * Open the store behind a queue URL: a SQLite file on this machine for
+ * sqlite:// and file:// URLs (see SqliteRedis), else a Valkey server.
+ */
+export function connectRedis(url?: string): RedisLike {
+  const path = url ? sqlitePathFromUrl(url) : null;
+  if (path) return new SqliteRedis(path);
+  return new RedisClient(url) as unknown as RedisLike;
+}
+
+/** What `sealteam sessions` shows about a session besides its keys. */
+export interface SessionInfo {
+  workspace: string;
+  goal: string;
+  startTime: number;
+}
+
+/** A session namespace found on the server. */
+export interface SessionSummary {
+  sessionId: string;
+  /** Missing if the session was started without recording it. */
+  info?: SessionInfo;
+  /** Agents with a queue or processing list, sorted by name. */
+  agents: string[];
+  /** Messages waiting in all lanes of all queues. */
+  queued: number;
+  channels: string[];
+}
+
+export interface MessageQueueOptions {
+  /** Log every send and consume to this messages.jsonl file. */
+  historyPath?: string;
+  /** Namespace every key under this session (see sessionNamespace). */
+  sessionId?: string;
+  /** Failed deliveries before a message is dead-lettered (default MAX_DELIVERY_ATTEMPTS). */
+  maxAttempts?: number;
+  /** Depth limit of every agent's queue; unlimited when unset. */
+  queueLimit?: QueueLimit;
+}
+
 export class MessageQueue {
   private redis: RedisLike;
+  private history?: MessageHistory;
+  private namespace: string;
+  readonly maxAttempts: number;
+  private queueLimit?: QueueLimit;
+  // Received messages awaiting ack, by id: where they sit and as what
+  private unacked = new Map<string, { key: string; raw: string }>();
+  // Dead-lettered by this queue and not yet reported (see drainDeadLetters)
+  private pendingDeadLetters: DeadLetter[] = [];
 
-  constructor(valkeyUrlOrClient?: string | RedisLike) {
+  constructor(
+    valkeyUrlOrClient?: string | RedisLike,
+    options: MessageQueueOptions = {},
+  ) {
     if (typeof valkeyUrlOrClient === "object" && valkeyUrlOrClient !== null) {
       this.redis = valkeyUrlOrClient;
     } else {
-      this.redis = new RedisClient(valkeyUrlOrClient) as unknown as RedisLike;
+      this.redis = connectRedis(valkeyUrlOrClient);
     }
+    if (options.historyPath) {
+      this.history = new MessageHistory(options.historyPath);
+    }
+    this.namespace = sessionNamespace(options.sessionId);
+    this.maxAttempts = options.maxAttempts ?? MAX_DELIVERY_ATTEMPTS;
+    this.queueLimit = options.queueLimit;
+  }
+
+  // The normal lane keeps the plain queue key
+  private queueKey(name: string, priority: MessagePriority = "normal"): string {
+    const lane = priority === "normal" ? "" : `:${priority}`;
+    return `${this.namespace}queue:${name}${lane}`;
+  }
+
+  /** Messages an agent has received but not yet acknowledged. */
+  private processingKey(name: string): string {
+    return `${this.namespace}processing:${name}`;
+  }
+
+  /** Messages given up on, newest first. */
+  private deadLetterKey(name: string): string {
+    return `${this.namespace}dlq:${name}`;
+  }
+
+  private channelSubscribersKey(channel: string): string {
+    return `${this.namespace}channel:${channel}:subscribers`;
+  }
+
+  private channelHistoryKey(channel: string): string {
+    return `${this.namespace}channel:${channel}:history`;
   }
 
   /**
    * Send a message with retry. Routes based on `message.to`:
-   * - "shared" → fan-out to all active agents (except sender)
-   * - "main"   → push to queue:main
-   * - other    → push to queue:{name}
+   * - "shared"   → fan-out to all active agents (except sender)
+   * - "#channel" → fan-out to the channel's subscribers (except sender)
+   * - "main"     → push to queue:main
+   * - other      → push to queue:{name}
+   * Each message lands in the recipient's lane for its priority (see
+   * messagePriority); fan-out copies default to the "bulk" lane.
+   * Throws QueueFullError when the queue limit turns recipients away.
    */
   async send(
     message: QueueMessage,
@@ -58,10 +279,104 @@ export class MessageQueue {
       return;
     }
 
-    await this.withRetry("send", async () => {
-      const key = queueKey(message.to);
-      await this.redis.lpush(key, JSON.stringify(message));
-    });
+    const channel = parseChannel(message.to);
+    if (channel) {
+      await this.sendChannel(message, channel);
+      return;
+    }
+
+    await this.deliver("send", message);
+  }
+
+  /**
+   * Push a message onto its recipient's queue, in the lane for its
+   * priority, and log it. A full queue coalesces or rejects it (see
+   * QueueLimit).
+   */
+  private async deliver(
+    operation: string,
+    message: QueueMessage,
+    fallback: MessagePriority = "normal",
+  ): Promise<void> {
+    const priority = messagePriority(message, fallback);
+    const key = this.queueKey(message.to, priority);
+    let delivered: QueueMessage = { ...message, priority };
+    if (this.queueLimit && this.isLimited(delivered)) {
+      const limit = this.queueLimit;
+      const admitted = await this.withRetry(operation, () => this.admit(key, delivered, limit));
+      if (!admitted) throw new QueueFullError([message.to], limit.maxDepth);
+      delivered = admitted;
+    }
+    await this.withRetry(operation, () => this.redis.lpush(key, JSON.stringify(delivered)));
+    this.history?.recordSent(delivered);
+  }
+
+  // The control lane, main, and messages an agent queues for itself are
+  // never limited
+  private isLimited(message: QueueMessage): boolean {
+    return message.priority !== "control" &&
+      message.to !== "main" &&
+      message.to !== message.from &&
+      !UNLIMITED_TYPES.includes(message.type);
+  }
+
+  /**
+   * The message to push onto the lane at `key`: itself while its
+   * recipient's queue has room, otherwise merged under "coalesce", or
+   * null when it is turned away. The check and the push are separate
+   * commands, so concurrent senders can overshoot the limit slightly.
+   */
+  private async admit(key: string, message: QueueMessage, limit: QueueLimit): Promise<QueueMessage | null> {
+    const [normal, bulk] = await Promise.all([
+      this.redis.llen(this.queueKey(message.to, "normal")),
+      this.redis.llen(this.queueKey(message.to, "bulk")),
+    ]);
+    if (normal + bulk < limit.maxDepth) return message;
+    return limit.overflow === "coalesce" ? this.coalesce(key, message) : null;
+  }
+
+  /**
+   * Take the sender's newest message of the same type (and channel) out
+   * of the lane at `key` and return it merged with `message`, to be
+   * pushed in its place. Returns null if there is none to merge into;
+   * payloads and questions are never merged.
+   */
+  private async coalesce(key: string, message: QueueMessage): Promise<QueueMessage | null> {
+    if (message.payload || message.correlationId) return null;
+    for (const raw of await this.redis.lrange(key, 0, -1)) {
+      const waiting = parseMessage(raw);
+      if (
+        !waiting || waiting.from !== message.from || waiting.type !== message.type ||
+        waiting.channel !== message.channel || waiting.payload || waiting.correlationId
+      ) {
+        continue;
+      }
+      // Consumed since the scan: the queue has room again
+      if (await this.redis.lrem(key, 1, raw) === 0) return message;
+      return {
+        ...message,
+        content: `${waiting.content}\n\n${message.content}`,
+        coalesced: (waiting.coalesced ?? 1) + 1,
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Deliver fan-out copies, then report every recipient whose full
+   * queue turned its copy away.
+   */
+  private async deliverAll(operation: string, copies: QueueMessage[]): Promise<void> {
+    const results = await Promise.allSettled(
+      copies.map((copy) => this.deliver(operation, copy, "bulk")),
+    );
+    const full: string[] = [];
+    for (const result of results) {
+      if (result.status === "fulfilled") continue;
+      if (!(result.reason instanceof QueueFullError)) throw result.reason;
+      full.push(...result.reason.agents);
+    }
+    if (full.length > 0) throw new QueueFullError(full, this.queueLimit!.maxDepth);
   }
 
   /**
@@ -83,58 +398,334 @@ export class MessageQueue {
       (a) => a.status === "running" && a.config.name !== message.from,
     );
 
-    const promises = activeAgents.map((agent) => {
-      const copy: QueueMessage = { ...message, to: agent.config.name };
-      return this.withRetry("send-shared", () =>
-        this.redis.lpush(
-          queueKey(agent.config.name),
-          JSON.stringify(copy),
-        ),
-      );
+    await this.deliverAll(
+      "send-shared",
+      activeAgents.map((agent) => ({ ...message, to: agent.config.name })),
+    );
+  }
+
+  /**
+   * Publish to a channel: retain the message in the channel's history
+   * and push a copy, marked with the channel, to every subscriber
+   * except the sender.
+   */
+  private async sendChannel(message: QueueMessage, channel: string): Promise<void> {
+    const published: QueueMessage = { ...message, channel };
+    const subscribers = await this.withRetry("send-channel", async () => {
+      const historyKey = this.channelHistoryKey(channel);
+      await this.redis.lpush(historyKey, JSON.stringify(published));
+      await this.redis.ltrim(historyKey, 0, CHANNEL_HISTORY_LIMIT - 1);
+      return this.redis.smembers(this.channelSubscribersKey(channel));
     });
 
-    await Promise.all(promises);
+    await this.deliverAll(
+      "send-channel",
+      subscribers
+        .filter((name) => name !== message.from)
+        .map((name) => ({ ...published, to: name })),
+    );
+  }
+
+  /**
+   * Subscribe an agent to channels ("design" or "#design"). With
+   * `history`, each channel's retained messages (up to the last
+   * CHANNEL_HISTORY_LIMIT, oldest first) are also pushed to the agent's
+   * queue, until the queue limit is reached. A message published while
+   * subscribing may arrive twice.
+   * Returns the number of retained messages delivered.
+   */
+  async subscribe(
+    agentName: string,
+    channels: string[],
+    options: { history?: boolean } = {},
+  ): Promise<number> {
+    let replayed = 0;
+    for (const channel of channels.map(channelName)) {
+      const retained = await this.withRetry("subscribe", async () => {
+        await this.redis.sadd(this.channelSubscribersKey(channel), agentName);
+        return options.history ? this.redis.lrange(this.channelHistoryKey(channel), 0, -1) : [];
+      });
+      // LPUSH keeps the newest first; deliver the oldest first
+      for (const raw of retained.reverse()) {
+        const message = JSON.parse(raw) as QueueMessage;
+        if (message.from === agentName) continue;
+        try {
+          await this.deliver("subscribe", { ...message, to: agentName }, "bulk");
+        } catch (err) {
+          // The rest of the history would be turned away too
+          if (err instanceof QueueFullError) break;
+          throw err;
+        }
+        replayed++;
+      }
+    }
+    return replayed;
+  }
+
+  async unsubscribe(agentName: string, channels: string[]): Promise<void> {
+    for (const channel of channels.map(channelName)) {
+      await this.withRetry("unsubscribe", () =>
+        this.redis.srem(this.channelSubscribersKey(channel), agentName),
+      );
+    }
   }
 
   /**
-   * Blocking pop from an agent's personal queue with retry.
-   * Returns null if no message arrives within `timeoutSeconds`.
+   * Blocking receive from an agent's personal queue with retry: the
+   * oldest message of the highest non-empty lane. When every lane is
+   * empty it waits on the normal lane; control and bulk messages that
+   * arrive meanwhile are taken once the wait ends, so callers should
+   * keep `timeoutSeconds` short.
+   * The message moves to the agent's processing list and stays there
+   * until `ack`, so a crash before then does not lose it (see
+   * requeueUnacked). Returns null if no message arrives within
+   * `timeoutSeconds`, and also when the message taken was unparseable
+   * and went to the dead-letter queue instead.
    */
   async receive(
     agentName: string,
     timeoutSeconds: number = 5,
   ): Promise<QueueMessage | null> {
     return this.withRetry("receive", async () => {
-      const key = queueKey(agentName);
-      const result = await this.redis.brpop(key, timeoutSeconds);
-      if (!result) return null;
-      // brpop returns [key, value]
-      return JSON.parse(result[1]) as QueueMessage;
+      const key = this.processingKey(agentName);
+      let raw = await this.moveFirst(agentName, key);
+      if (!raw) {
+        raw = await this.redis.blmove(
+          this.queueKey(agentName), key, "RIGHT", "LEFT", timeoutSeconds,
+        ) ?? await this.moveFirst(agentName, key);
+      }
+      if (!raw) return null;
+      const message = parseMessage(raw);
+      if (!message) {
+        await this.pushDeadLetter({ agent: agentName, reason: "unparseable payload", at: Date.now(), raw });
+        await this.redis.lrem(key, 1, raw);
+        return null;
+      }
+      this.unacked.set(message.id, { key, raw });
+      this.history?.recordConsumed(message, agentName);
+      return message;
+    });
+  }
+
+  /**
+   * Receive up to `limit` more messages waiting in one lane that match,
+   * oldest first, leaving the others in place. Like `receive`, each is
+   * tracked on the processing list until `ack`. Lets an agent handle a
+   * run of related messages in one iteration.
+   */
+  async receiveBatch(
+    agentName: string,
+    lane: MessagePriority,
+    match: (message: QueueMessage) => boolean,
+    limit: number,
+  ): Promise<QueueMessage[]> {
+    if (limit <= 0) return [];
+    return this.withRetry("receiveBatch", async () => {
+      const key = this.queueKey(agentName, lane);
+      const processing = this.processingKey(agentName);
+      const raw = await this.redis.lrange(key, 0, -1);
+      const batch: QueueMessage[] = [];
+      // LPUSH puts the newest message first; scan from the oldest
+      for (let i = raw.length - 1; i >= 0 && batch.length < limit; i--) {
+        const message = parseMessage(raw[i]!);
+        if (!message || !match(message)) continue;
+        // On the processing list before it leaves the lane, so a crash
+        // in between redelivers it rather than losing it
+        await this.redis.lpush(processing, raw[i]!);
+        if (await this.redis.lrem(key, 1, raw[i]!) === 0) {
+          await this.redis.lrem(processing, 1, raw[i]!);
+          continue;
+        }
+        this.unacked.set(message.id, { key: processing, raw: raw[i]! });
+        this.history?.recordConsumed(message, agentName);
+        batch.push(message);
+      }
+      return batch;
+    });
+  }
+
+  /**
+   * Acknowledge a message returned by `receive` once it has been fully
+   * handled, removing it from the processing list. Returns false if this
+   * queue holds no unacknowledged message with that id.
+   */
+  async ack(messageId: string): Promise<boolean> {
+    const entry = this.unacked.get(messageId);
+    if (!entry) return false;
+    await this.withRetry("ack", () => this.redis.lrem(entry.key, 1, entry.raw));
+    this.unacked.delete(messageId);
+    return true;
+  }
+
+  /**
+   * Move messages a previous run of the agent received but never
+   * acknowledged back onto their lanes, to be received next in their
+   * original order. Each counts as a failed delivery; a message that
+   * reaches `maxAttempts` goes to the dead-letter queue instead. Call at
+   * agent startup, before the first receive, or after a failed iteration
+   * to give back what it did not acknowledge. Returns the number of
+   * messages redelivered.
+   */
+  async requeueUnacked(agentName: string): Promise<number> {
+    return this.withRetry("requeueUnacked", async () => {
+      const key = this.processingKey(agentName);
+      let count = 0;
+      // The processing list holds the newest first; moving newest-first
+      // onto the receiving end leaves the oldest to be received first
+      for (;;) {
+        const [raw] = await this.redis.lrange(key, 0, 0);
+        if (raw === undefined) return count;
+        const message = parseMessage(raw);
+        const attempts = (message?.attempts ?? 0) + 1;
+        if (message) this.unacked.delete(message.id);
+        if (!message) {
+          await this.pushDeadLetter({ agent: agentName, reason: "unparseable payload", at: Date.now(), raw });
+        } else if (attempts >= this.maxAttempts) {
+          await this.pushDeadLetter({
+            agent: agentName,
+            reason: `delivered ${attempts} times without being acknowledged`,
+            at: Date.now(),
+            message: { ...message, attempts },
+          });
+        } else {
+          const lane = this.queueKey(agentName, message.priority ?? "normal");
+          await this.redis.rpush(lane, JSON.stringify({ ...message, attempts }));
+          count++;
+        }
+        // Removed only once it is safe elsewhere
+        await this.redis.lrem(key, 1, raw);
+      }
+    });
+  }
+
+  /**
+   * Give up on a message returned by `receive`: keep it in the agent's
+   * dead-letter queue with `reason`, and acknowledge it.
+   */
+  async deadLetter(agentName: string, message: QueueMessage, reason: string): Promise<void> {
+    await this.withRetry("deadLetter", () =>
+      this.pushDeadLetter({ agent: agentName, reason, at: Date.now(), message }),
+    );
+    await this.ack(message.id);
+  }
+
+  /** An agent's dead-letter queue, oldest first. Kept until flushAll. */
+  async deadLetters(agentName: string): Promise<DeadLetter[]> {
+    return this.withRetry("deadLetters", async () => {
+      const raw = await this.redis.lrange(this.deadLetterKey(agentName), 0, -1);
+      return raw.reverse().map((r) => JSON.parse(r) as DeadLetter);
     });
   }
 
   /**
-   * Non-blocking pop from an agent's personal queue with retry.
-   * Returns null immediately if the queue is empty.
+   * Messages this queue dead-lettered since the last call, so the agent
+   * can tell its leader.
+   */
+  drainDeadLetters(): DeadLetter[] {
+    return this.pendingDeadLetters.splice(0);
+  }
+
+  /**
+   * Non-blocking pop from an agent's personal queue with retry, in lane
+   * order. Returns null immediately if the queue is empty. The message is
+   * not tracked for acknowledgement; use `receive` for at-least-once
+   * delivery.
    */
   async receiveNonBlocking(
     agentName: string,
   ): Promise<QueueMessage | null> {
     return this.withRetry("receiveNonBlocking", async () => {
-      const key = queueKey(agentName);
-      const result = await this.redis.rpop(key);
-      if (!result) return null;
-      return JSON.parse(result) as QueueMessage;
+      for (const priority of PRIORITIES) {
+        const result = await this.redis.rpop(this.queueKey(agentName, priority));
+        if (!result) continue;
+        const message = parseMessage(result);
+        if (!message) {
+          await this.pushDeadLetter({ agent: agentName, reason: "unparseable payload", at: Date.now(), raw: result });
+          continue;
+        }
+        this.history?.recordConsumed(message, agentName);
+        return message;
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Messages waiting in an agent's queue, without consuming them: one
+   * lane, or every lane in the order `receive` would take them. Oldest
+   * first within a lane.
+   */
+  async peek(agentName: string, priority?: MessagePriority): Promise<QueueMessage[]> {
+    return this.withRetry("peek", async () => {
+      const messages: QueueMessage[] = [];
+      for (const lane of priority ? [priority] : PRIORITIES) {
+        // LPUSH puts the newest message first; poison is left to receive
+        const raw = await this.redis.lrange(this.queueKey(agentName, lane), 0, -1);
+        for (const r of raw.reverse()) {
+          const message = parseMessage(r);
+          if (message) messages.push(message);
+        }
+      }
+      return messages;
     });
   }
 
   /**
-   * Delete all queue:* keys to prevent stale messages from previous runs.
-   * Should be called at session startup before sending any messages.
+   * Remove and return the oldest cancel message in an agent's control
+   * lane, leaving other messages in place. Lets an agent notice a cancel
+   * while it is busy with a model call.
+   */
+  async takeCancel(agentName: string): Promise<QueueMessage | null> {
+    return this.takeFirst("takeCancel", agentName, (m) => m.type === "cancel", ["control"]);
+  }
+
+  /**
+   * Send a question to one agent and wait up to `timeoutMs` for the
+   * reply: a "reply" message carrying the same correlationId. Messages
+   * that arrive at the asker meanwhile stay queued. Returns null on
+   * timeout; a late reply is then received like any other message.
+   */
+  async request(
+    message: QueueMessage,
+    timeoutMs: number,
+    pollMs: number = REQUEST_POLL_MS,
+  ): Promise<QueueMessage | null> {
+    if (message.to === "shared" || message.to === "main") {
+      throw new Error(`request needs a single agent as recipient, got "${message.to}"`);
+    }
+    const correlationId = message.correlationId ?? crypto.randomUUID();
+    const replyTo = message.replyTo ?? message.from;
+    await this.send({ ...message, correlationId, replyTo });
+
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+      const reply = await this.takeFirst(
+        "takeReply",
+        replyTo,
+        (m) => m.type === "reply" && m.correlationId === correlationId,
+      );
+      if (reply) return reply;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      await sleep(Math.min(pollMs, remaining));
+    }
+  }
+
+  /**
+   * Delete this session's queue:*, processing:*, channel:* and dlq:* keys
+   * and its info, to prevent stale messages and subscriptions from previous runs.
+   * Keys of other sessions are left alone. Should be called at session
+   * startup before sending any messages, and when the session completes.
    */
   async flushAll(): Promise<number> {
     return this.withRetry("flushAll", async () => {
-      const keys = await this.redis.keys("queue:*");
+      const keys = [
+        ...(await this.redis.keys(`${this.namespace}queue:*`)),
+        ...(await this.redis.keys(`${this.namespace}processing:*`)),
+        ...(await this.redis.keys(`${this.namespace}channel:*`)),
+        ...(await this.redis.keys(`${this.namespace}dlq:*`)),
+        ...(this.namespace ? await this.redis.keys(`${this.namespace}info`) : []),
+      ];
       if (keys.length === 0) return 0;
       for (const key of keys) {
         await this.redis.del(key);
@@ -143,6 +734,53 @@ export class MessageQueue {
     });
   }
 
+  /**
+   * Record the session's workspace and goal for `sealteam sessions`.
+   * Deleted by flushAll with the rest of the namespace.
+   */
+  async writeSessionInfo(info: SessionInfo): Promise<void> {
+    await this.withRetry("writeSessionInfo", () =>
+      this.redis.set(`${this.namespace}info`, JSON.stringify(info)),
+    );
+  }
+
+  /**
+   * Every session namespace on the server, newest first. A session is
+   * listed while any of its keys remain: from startup until it completes,
+   * or indefinitely if it crashed or was interrupted.
+   */
+  async listSessions(): Promise<SessionSummary[]> {
+    return this.withRetry("listSessions", async () => {
+      const byId = new Map<string, SessionSummary>();
+      for (const key of await this.redis.keys("session:*")) {
+        const [, sessionId, kind, name] = key.split(":");
+        if (!sessionId || !kind) continue;
+        let summary = byId.get(sessionId);
+        if (!summary) {
+          summary = { sessionId, agents: [], queued: 0, channels: [] };
+          byId.set(sessionId, summary);
+        }
+        if (kind === "info") {
+          const raw = await this.redis.get(key);
+          if (raw) summary.info = JSON.parse(raw) as SessionInfo;
+        } else if ((kind === "queue" || kind === "processing") && name) {
+          if (!summary.agents.includes(name)) summary.agents.push(name);
+          if (kind === "queue") {
+            summary.queued += (await this.redis.lrange(key, 0, -1)).length;
+          }
+        } else if (kind === "channel" && name && !summary.channels.includes(name)) {
+          summary.channels.push(name);
+        }
+      }
+      const sessions = [...byId.values()];
+      for (const summary of sessions) {
+        summary.agents.sort();
+        summary.channels.sort();
+      }
+      return sessions.sort((a, b) => (b.info?.startTime ?? 0) - (a.info?.startTime ?? 0));
+    });
+  }
+
   /**
    * Close the Redis connection.
    */
@@ -150,6 +788,52 @@ export class MessageQueue {
     this.redis.close();
   }
 
+  private async pushDeadLetter(letter: DeadLetter): Promise<void> {
+    await this.redis.lpush(this.deadLetterKey(letter.agent), JSON.stringify(letter));
+    this.pendingDeadLetters.push(letter);
+  }
+
+  /**
+   * Move the oldest message of the highest non-empty lane to `destination`
+   * without blocking. Returns it raw, or null if every lane is empty.
+   */
+  private async moveFirst(agentName: string, destination: string): Promise<string | null> {
+    for (const priority of PRIORITIES) {
+      const raw = await this.redis.lmove(this.queueKey(agentName, priority), destination, "RIGHT", "LEFT");
+      if (raw) return raw;
+    }
+    return null;
+  }
+
+  /**
+   * Remove and return the first message in `lanes` that matches, in
+   * receive order, leaving the others in place.
+   */
+  private async takeFirst(
+    operation: string,
+    agentName: string,
+    match: (message: QueueMessage) => boolean,
+    lanes: MessagePriority[] = PRIORITIES,
+  ): Promise<QueueMessage | null> {
+    return this.withRetry(operation, async () => {
+      for (const priority of lanes) {
+        const key = this.queueKey(agentName, priority);
+        const raw = await this.redis.lrange(key, 0, -1);
+        // LPUSH puts the newest message first; scan from the oldest
+        for (let i = raw.length - 1; i >= 0; i--) {
+          const message = parseMessage(raw[i]!);
+          if (!message || !match(message)) continue;
+          // Another reader may have popped it since the scan
+          const removed = await this.redis.lrem(key, 1, raw[i]!);
+          if (removed === 0) return null;
+          this.history?.recordConsumed(message, agentName);
+          return message;
+        }
+      }
+      return null;
+    });
+  }
+
   /**
    * Execute a Valkey operation with exponential backoff retry.
    */
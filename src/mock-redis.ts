@@ -1,28 +1,66 @@
 import type { RedisLike } from "./message-queue.ts";
+import { TOKEN_BUCKET_SCRIPT, evalTokenBucket } from "./rate-limiter.ts";
+import type { BucketState } from "./rate-limiter.ts";
 
 /**
- * In-memory mock of the Redis operations used by MessageQueue.
+ * In-memory mock of the Redis operations used by MessageQueue and
+ * RateLimiter.
  * Use this in tests instead of connecting to a real Valkey server.
  */
+export interface MockRedisOptions {
+  /**
+   * Make blmove wait for a push (up to its timeout) instead of returning
+   * null at once. Needed when several agents share one MockRedis, so an
+   * idle agent does not spin and starve the others.
+   */
+  blocking?: boolean;
+}
+
 export class MockRedis implements RedisLike {
   private data = new Map<string, string[]>();
+  private strings = new Map<string, string>();
+  private sets = new Map<string, Set<string>>();
+  private waiters = new Map<string, (() => void)[]>();
+  private buckets = new Map<string, BucketState>();
+  private blocking: boolean;
+
+  constructor(options: MockRedisOptions = {}) {
+    this.blocking = options.blocking ?? false;
+  }
 
   async lpush(key: string, value: string): Promise<number> {
-    let list = this.data.get(key);
-    if (!list) {
-      list = [];
-      this.data.set(key, list);
+    return this.push(key, value, "LEFT");
+  }
+
+  async rpush(key: string, value: string): Promise<number> {
+    return this.push(key, value, "RIGHT");
+  }
+
+  async blmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+    timeout: number,
+  ): Promise<string | null> {
+    if (this.blocking && !this.data.get(source)?.length) {
+      await this.waitForPush(source, timeout * 1000);
     }
-    list.unshift(value);
-    return list.length;
+    return this.lmove(source, destination, from, to);
   }
 
-  async brpop(key: string, _timeout: number): Promise<[string, string] | null> {
-    const list = this.data.get(key);
+  async lmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+  ): Promise<string | null> {
+    const list = this.data.get(source);
     if (!list || list.length === 0) return null;
-    const value = list.pop()!;
-    if (list.length === 0) this.data.delete(key);
-    return [key, value];
+    const value = from === "LEFT" ? list.shift()! : list.pop()!;
+    if (list.length === 0) this.data.delete(source);
+    this.push(destination, value, to);
+    return value;
   }
 
   async rpop(key: string): Promise<string | null> {
@@ -33,16 +71,139 @@ export class MockRedis implements RedisLike {
     return value;
   }
 
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.data.get(key) ?? [];
+    const end = stop < 0 ? list.length + stop + 1 : stop + 1;
+    return list.slice(start < 0 ? Math.max(0, list.length + start) : start, end);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.data.get(key)?.length ?? 0;
+  }
+
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    const list = this.data.get(key);
+    if (!list) return 0;
+    let removed = 0;
+    for (let i = 0; i < list.length && (count === 0 || removed < Math.abs(count)); ) {
+      if (list[i] === value) {
+        list.splice(i, 1);
+        removed++;
+      } else {
+        i++;
+      }
+    }
+    if (list.length === 0) this.data.delete(key);
+    return removed;
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<string> {
+    const list = this.data.get(key);
+    if (list) {
+      const kept = await this.lrange(key, start, stop);
+      if (kept.length === 0) {
+        this.data.delete(key);
+      } else {
+        list.splice(0, list.length, ...kept);
+      }
+    }
+    return "OK";
+  }
+
+  async sadd(key: string, member: string): Promise<number> {
+    let set = this.sets.get(key);
+    if (!set) {
+      set = new Set();
+      this.sets.set(key, set);
+    }
+    if (set.has(member)) return 0;
+    set.add(member);
+    return 1;
+  }
+
+  async srem(key: string, member: string): Promise<number> {
+    const set = this.sets.get(key);
+    if (!set?.delete(member)) return 0;
+    if (set.size === 0) this.sets.delete(key);
+    return 1;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return [...(this.sets.get(key) ?? [])];
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.strings.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    this.strings.set(key, value);
+    return "OK";
+  }
+
   async keys(pattern: string): Promise<string[]> {
     const regex = new RegExp("^" + pattern.replace(/\*/g, ".*") + "$");
-    return [...this.data.keys()].filter((k) => regex.test(k));
+    return [...this.data.keys(), ...this.sets.keys(), ...this.strings.keys()]
+      .filter((k) => regex.test(k));
   }
 
   async del(key: string): Promise<number> {
-    return this.data.delete(key) ? 1 : 0;
+    const deleted = this.data.delete(key) || this.sets.delete(key) || this.strings.delete(key);
+    return deleted ? 1 : 0;
+  }
+
+  /**
+   * Supports EVAL of the rate limiter's token-bucket script only, running
+   * its TypeScript twin. Bucket TTLs are not modelled.
+   */
+  async send(command: string, args: string[]): Promise<unknown> {
+    if (command !== "EVAL" || args[0] !== TOKEN_BUCKET_SCRIPT) {
+      throw new Error(`MockRedis: unsupported command ${command}`);
+    }
+    return evalTokenBucket(
+      args,
+      (key) => this.buckets.get(key) ?? null,
+      (key, state) => this.buckets.set(key, state),
+    );
   }
 
   close(): void {
     // no-op
   }
+
+  private push(key: string, value: string, side: "LEFT" | "RIGHT"): number {
+    let list = this.data.get(key);
+    if (!list) {
+      list = [];
+      this.data.set(key, list);
+    }
+    if (side === "LEFT") {
+      list.unshift(value);
+    } else {
+      list.push(value);
+    }
+    const length = list.length;
+    this.wake(key);
+    return length;
+  }
+
+  private waitForPush(key: string, timeoutMs: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        const list = this.waiters.get(key) ?? [];
+        this.waiters.set(key, list.filter((w) => w !== done));
+        resolve();
+      };
+      const timer = setTimeout(done, timeoutMs);
+      const list = this.waiters.get(key) ?? [];
+      list.push(done);
+      this.waiters.set(key, list);
+    });
+  }
+
+  private wake(key: string): void {
+    // Wake one waiter, like a real BLMOVE serving the longest-blocked client
+    this.waiters.get(key)?.[0]?.();
+  }
 }
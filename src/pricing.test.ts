@@ -0,0 +1,44 @@
+import { test, expect, describe } from "bun:test";
+import { computeCost, formatCost, getModelPrice } from "./pricing.ts";
+
+describe("getModelPrice", () => {
+  test("matches dated snapshots by longest prefix", () => {
+    expect(getModelPrice("claude-sonnet-4-6-20260101")).toEqual({ input: 3, output: 15 });
+    expect(getModelPrice("claude-opus-4-1-20250805")).toEqual({ input: 15, output: 75 });
+    expect(getModelPrice("openai:gpt-4o-mini-2024-07-18")!.input).toBe(0.15);
+  });
+
+  test("local models are free and unknown models are unpriced", () => {
+    expect(getModelPrice("local:llama3")).toEqual({ input: 0, output: 0 });
+    expect(getModelPrice("openai:some-new-model")).toBeUndefined();
+  });
+});
+
+describe("computeCost", () => {
+  test("prices input, output and cache tokens per million", () => {
+    const cost = computeCost("claude-sonnet-4-6", {
+      input: 1_000_000,
+      output: 100_000,
+      cacheRead: 1_000_000,
+      cacheWrite: 100_000,
+    });
+    // $3 input + $1.50 output + $0.30 cache read + $0.375 cache write
+    expect(cost).toBeCloseTo(5.175, 9);
+  });
+
+  test("uses a model's own cache price when listed", () => {
+    expect(computeCost("openai:gpt-4o", { input: 0, output: 0, cacheRead: 1_000_000 })).toBe(1.25);
+  });
+
+  test("unpriced models cost nothing", () => {
+    expect(computeCost("fake", { input: 1000, output: 1000 })).toBe(0);
+  });
+});
+
+describe("formatCost", () => {
+  test("shows cents from a dollar up and four decimals below", () => {
+    expect(formatCost(12.345)).toBe("$12.35");
+    expect(formatCost(0.01234)).toBe("$0.0123");
+    expect(formatCost(0)).toBe("$0.0000");
+  });
+});
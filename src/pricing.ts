@@ -0,0 +1,81 @@
+import type { TokenUsage } from "./types.ts";
+import { parseModelSpec } from "./providers/provider.ts";
+
+/**
+ * Price of a model in USD per million tokens. Cache prices default to
+ * the Anthropic rates relative to input (see CACHE_READ_RATE and
+ * CACHE_WRITE_RATE).
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+/** Cache reads are billed at 10% of the input price. */
+export const CACHE_READ_RATE = 0.1;
+/** Cache writes (5-minute TTL) are billed at 125% of the input price. */
+export const CACHE_WRITE_RATE = 1.25;
+
+// List prices, keyed by model name without provider prefix. Dated
+// snapshots ("claude-sonnet-4-6-20260101") match by longest prefix.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  "claude-opus-4-6": { input: 5, output: 25 },
+  "claude-opus-4-5": { input: 5, output: 25 },
+  "claude-opus-4-1": { input: 15, output: 75 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4-6": { input: 3, output: 15 },
+  "claude-sonnet-4-5": { input: 3, output: 15 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-haiku-4-5": { input: 1, output: 5 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  "gpt-4.1": { input: 2, output: 8, cacheRead: 0.5 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+};
+
+// Providers that run on the user's own hardware
+const FREE_PROVIDERS = new Set(["local"]);
+
+/**
+ * Look up the price of a model spec. Returns a zero price for local
+ * models and undefined for models missing from the table.
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const spec = parseModelSpec(model);
+  if (FREE_PROVIDERS.has(spec.provider)) {
+    return { input: 0, output: 0 };
+  }
+  let best: string | undefined;
+  for (const name of Object.keys(MODEL_PRICES)) {
+    if (spec.model.startsWith(name) && (!best || name.length > best.length)) {
+      best = name;
+    }
+  }
+  return best ? MODEL_PRICES[best] : undefined;
+}
+
+/**
+ * USD cost of a call's token usage. Unpriced models cost 0.
+ */
+export function computeCost(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  const cacheRead = price.cacheRead ?? price.input * CACHE_READ_RATE;
+  const cacheWrite = price.cacheWrite ?? price.input * CACHE_WRITE_RATE;
+  return (
+    usage.input * price.input +
+    usage.output * price.output +
+    (usage.cacheRead ?? 0) * cacheRead +
+    (usage.cacheWrite ?? 0) * cacheWrite
+  ) / 1_000_000;
+}
+
+/**
+ * Format a USD amount for logs and reports: cents for larger sums,
+ * four decimals below a dollar so small runs are not shown as $0.00.
+ */
+export function formatCost(usd: number): string {
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+}
@@ -0,0 +1,170 @@
+import { test, expect, describe, spyOn } from "bun:test";
+import Anthropic from "@anthropic-ai/sdk";
+import { AnthropicProvider, toAnthropicParams } from "./anthropic.ts";
+import type { ProviderRequest } from "./provider.ts";
+import { getTextContent } from "../claude-client.ts";
+import type { MessageParam, ToolUnion } from "../claude-client.ts";
+
+const TOOLS = [
+  { name: "bash", description: "Run a command", input_schema: { type: "object" } },
+  { name: "git", description: "Run git", input_schema: { type: "object" } },
+] as ToolUnion[];
+
+function request(messages: MessageParam[], extra: Partial<ProviderRequest> = {}): ProviderRequest {
+  return { model: "claude-sonnet-4-6", systemPrompt: "sys", messages, maxTokens: 100, ...extra };
+}
+
+describe("toAnthropicParams", () => {
+  test("marks the system prompt and the last tool as cacheable", () => {
+    const params = toAnthropicParams(request([{ role: "user", content: "hi" }], { tools: TOOLS }));
+
+    expect(params.system).toEqual([{ type: "text", text: "sys", cache_control: { type: "ephemeral" } }]);
+    expect(params.tools![0]).not.toHaveProperty("cache_control");
+    expect(params.tools![1]).toMatchObject({ name: "git", cache_control: { type: "ephemeral" } });
+    expect(TOOLS[1]).not.toHaveProperty("cache_control");
+  });
+
+  test("puts a breakpoint on the last message of the stable prefix", () => {
+    const messages: MessageParam[] = [
+      { role: "user", content: "iteration 1 input" },
+      { role: "assistant", content: [{ type: "text", text: "iteration 1 output" }] },
+      { role: "user", content: "current" },
+    ];
+
+    const params = toAnthropicParams(request(messages, { cachePrefixLength: 2 }));
+
+    expect(params.messages[1]!.content).toEqual([
+      { type: "text", text: "iteration 1 output", cache_control: { type: "ephemeral" } },
+    ]);
+    expect(params.messages[0]!.content).toBe("iteration 1 input");
+    expect(params.messages[2]!.content).toBe("current");
+    // The caller's messages are not mutated
+    expect(messages[1]!.content).toEqual([{ type: "text", text: "iteration 1 output" }]);
+  });
+
+  test("converts string content to a text block for the breakpoint", () => {
+    const params = toAnthropicParams(request([{ role: "user", content: "hi" }], { cachePrefixLength: 1 }));
+    expect(params.messages[0]!.content).toEqual([
+      { type: "text", text: "hi", cache_control: { type: "ephemeral" } },
+    ]);
+  });
+
+  test("enables thinking on top of max_tokens when a budget is given", () => {
+    const messages: MessageParam[] = [{ role: "user", content: "hi" }];
+    const params = toAnthropicParams(request(messages, { thinkingBudget: 4096 }));
+    expect(params.thinking).toEqual({ type: "enabled", budget_tokens: 4096 });
+    expect(params.max_tokens).toBe(4196);
+
+    const plain = toAnthropicParams(request(messages));
+    expect(plain.thinking).toBeUndefined();
+    expect(plain.max_tokens).toBe(100);
+  });
+
+  test("uses adaptive thinking on models that take it", () => {
+    const messages: MessageParam[] = [{ role: "user", content: "hi" }];
+    const params = toAnthropicParams(request(messages, { model: "claude-opus-4-6", thinkingBudget: 4096 }));
+    expect(params.thinking).toEqual({ type: "adaptive" });
+    expect(params.max_tokens).toBe(4196);
+  });
+
+  test("leaves messages alone without a prefix", () => {
+    const messages: MessageParam[] = [{ role: "user", content: "hi" }];
+    expect(toAnthropicParams(request(messages)).messages).toBe(messages);
+    expect(toAnthropicParams(request(messages, { cachePrefixLength: 5 })).messages).toBe(messages);
+  });
+});
+
+// ─── Against the SDK ─────────────────────────────────────────────
+
+const REPLY = {
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  model: "claude-opus-4-6",
+  content: [{ type: "text", text: "ok" }],
+  stop_reason: "end_turn",
+  stop_sequence: null,
+  usage: { input_tokens: 10, output_tokens: 5 },
+};
+
+function sse(events: object[]): string {
+  return events.map((e) => `event: ${(e as { type: string }).type}\ndata: ${JSON.stringify(e)}\n\n`).join("");
+}
+
+/** A real SDK client whose HTTP requests are answered locally and recorded. */
+function sdkClient(bodies: Record<string, unknown>[]): Anthropic {
+  return new Anthropic({
+    apiKey: "test-key",
+    fetch: (async (_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string) as Record<string, unknown>;
+      bodies.push(body);
+      if (!body.stream) return Response.json(REPLY);
+      return new Response(sse([
+        { type: "message_start", message: { ...REPLY, content: [], stop_reason: null, usage: { input_tokens: 10, output_tokens: 0 } } },
+        { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+        { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "ok" } },
+        { type: "content_block_stop", index: 0 },
+        { type: "message_delta", delta: { stop_reason: "end_turn", stop_sequence: null }, usage: { output_tokens: 5 } },
+        { type: "message_stop" },
+      ]), { headers: { "content-type": "text/event-stream" } });
+    }) as unknown as typeof fetch,
+  });
+}
+
+describe("AnthropicProvider.createMessage", () => {
+  test("streams a leader plan call the SDK would refuse to send unstreamed", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+    const provider = new AnthropicProvider(sdkClient(bodies));
+
+    // The leader's plan step: default max tokens plus its thinking budget
+    const plan = request([{ role: "user", content: "plan" }], {
+      model: "claude-opus-4-6", maxTokens: 16384, thinkingBudget: 8192,
+    });
+    expect(() => new Anthropic({ apiKey: "test-key" }).calculateNonstreamingTimeout(toAnthropicParams(plan).max_tokens))
+      .toThrow("Streaming is required");
+    const message = await provider.createMessage(plan);
+
+    expect(getTextContent(message)).toBe("ok");
+    expect(bodies[0]).toMatchObject({ stream: true, max_tokens: 24576, thinking: { type: "adaptive" } });
+    expect(warn).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  test("sends short calls without thinking unstreamed", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    const provider = new AnthropicProvider(sdkClient(bodies));
+
+    const message = await provider.createMessage(request([{ role: "user", content: "hi" }], { maxTokens: 16384 }));
+
+    expect(getTextContent(message)).toBe("ok");
+    expect(bodies[0]!.stream).toBeUndefined();
+  });
+});
+
+describe("AnthropicProvider defaults", () => {
+  test("leaves retries to ClaudeClient: an overloaded API is called once", async () => {
+    let hits = 0;
+    const server = Bun.serve({
+      port: 0,
+      fetch: () => {
+        hits++;
+        return Response.json({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }, { status: 529 });
+      },
+    });
+    const saved = { key: process.env.ANTHROPIC_API_KEY, url: process.env.ANTHROPIC_BASE_URL };
+    process.env.ANTHROPIC_API_KEY = "test-key";
+    process.env.ANTHROPIC_BASE_URL = `http://localhost:${server.port}`;
+    try {
+      const provider = new AnthropicProvider();
+      await expect(provider.createMessage(request([{ role: "user", content: "hi" }]))).rejects.toMatchObject({ status: 529 });
+      expect(hits).toBe(1);
+    } finally {
+      server.stop(true);
+      for (const [name, value] of [["ANTHROPIC_API_KEY", saved.key], ["ANTHROPIC_BASE_URL", saved.url]] as const) {
+        if (value === undefined) delete process.env[name];
+        else process.env[name] = value;
+      }
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import Anthropic from "@anthropic-ai/sdk";
+import type { Message, MessageParam, ToolUnion } from "../claude-client.ts";
+import { CallAbortedError } from "./provider.ts";
+import type { LLMProvider, ProviderRequest, StreamHandlers } from "./provider.ts";
+
+/**
+ * Provider backed by the Anthropic Messages API.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = "anthropic";
+  private client: Anthropic;
+
+  constructor(client?: Anthropic) {
+    // Anthropic SDK reads ANTHROPIC_API_KEY from env automatically. Its own
+    // retries are off: ClaudeClient.call retries and falls back by itself,
+    // and must see a 529 at once to move on to the next model.
+    this.client = client ?? new Anthropic({ maxRetries: 0 });
+  }
+
+  /**
+   * Thinking calls, and calls whose max_tokens the SDK expects to take
+   * longer than its non-streaming timeout (it refuses to send those),
+   * are streamed and collected into the final message.
+   */
+  async createMessage(request: ProviderRequest, signal?: AbortSignal): Promise<Message> {
+    const params = toAnthropicParams(request);
+    if (params.thinking || this.requiresStreaming(params.max_tokens)) {
+      return this.client.messages.stream(params, { signal }).finalMessage();
+    }
+    return this.client.messages.create(params, { signal });
+  }
+
+  private requiresStreaming(maxTokens: number): boolean {
+    try {
+      this.client.calculateNonstreamingTimeout(maxTokens);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+
+  async stream(
+    request: ProviderRequest,
+    handlers: StreamHandlers,
+    signal?: AbortSignal,
+  ): Promise<Message> {
+    const stream = this.client.messages.stream(toAnthropicParams(request), { signal });
+    let streamedChars = 0;
+
+    stream.on("text", (delta) => {
+      streamedChars += delta.length;
+      handlers.onText?.(delta);
+    });
+    stream.on("thinking", (delta) => {
+      streamedChars += delta.length;
+      handlers.onThinking?.(delta);
+    });
+    stream.on("inputJson", (partialJson) => {
+      streamedChars += partialJson.length;
+      handlers.onToolInputDelta?.(partialJson);
+    });
+    stream.on("streamEvent", (event) => {
+      if (event.type === "content_block_start" && event.content_block.type === "tool_use") {
+        handlers.onToolUseStart?.(event.content_block.name);
+      }
+    });
+
+    try {
+      return await stream.finalMessage();
+    } catch (err) {
+      if (!signal?.aborted) throw err;
+      // Output tokens are only reported at the end of the stream
+      const usage = stream.currentMessage?.usage;
+      throw new CallAbortedError({
+        input: usage?.input_tokens ?? 0,
+        output: Math.max(usage?.output_tokens ?? 0, Math.ceil(streamedChars / 4)),
+      });
+    }
+  }
+}
+
+const EPHEMERAL: Anthropic.Messages.CacheControlEphemeral = { type: "ephemeral" };
+
+// Models that take adaptive thinking; the SDK warns that a fixed budget is deprecated for them
+const ADAPTIVE_THINKING_MODELS = new Set(["claude-opus-4-6"]);
+
+/**
+ * Build Messages API params with prompt-cache breakpoints on the system
+ * prompt, the last tool definition and the last message of the stable
+ * prefix. That is three of the four breakpoints the API allows. A
+ * thinking budget enables extended thinking and is added to max_tokens,
+ * which must exceed it. Models that think adaptively decide how much of
+ * it to use themselves.
+ */
+export function toAnthropicParams(
+  request: ProviderRequest,
+): Anthropic.Messages.MessageCreateParamsNonStreaming {
+  const {
+    model, systemPrompt, messages, tools, toolChoice, maxTokens, cachePrefixLength = 0, thinkingBudget,
+  } = request;
+  return {
+    model,
+    max_tokens: maxTokens + (thinkingBudget ?? 0),
+    ...(thinkingBudget ? { thinking: thinkingConfig(model, thinkingBudget) } : {}),
+    system: [{ type: "text", text: systemPrompt, cache_control: EPHEMERAL }],
+    messages: markCachePrefix(messages, cachePrefixLength),
+    tools: tools && tools.length > 0
+      ? [...tools.slice(0, -1), { ...tools[tools.length - 1]!, cache_control: EPHEMERAL } as ToolUnion]
+      : undefined,
+    ...(toolChoice ? { tool_choice: toolChoice } : {}),
+  };
+}
+
+function thinkingConfig(model: string, budget: number): Anthropic.Messages.ThinkingConfigParam {
+  return ADAPTIVE_THINKING_MODELS.has(model)
+    ? { type: "adaptive" }
+    : { type: "enabled", budget_tokens: budget };
+}
+
+function markCachePrefix(messages: MessageParam[], prefixLength: number): MessageParam[] {
+  if (prefixLength <= 0 || prefixLength > messages.length) return messages;
+  const index = prefixLength - 1;
+  const target = messages[index]!;
+
+  let content: Anthropic.Messages.ContentBlockParam[];
+  if (typeof target.content === "string") {
+    content = [{ type: "text", text: target.content, cache_control: EPHEMERAL }];
+  } else {
+    const last = target.content[target.content.length - 1];
+    // Thinking blocks cannot carry a breakpoint
+    if (!last || last.type === "thinking" || last.type === "redacted_thinking") return messages;
+    content = [...target.content.slice(0, -1), { ...last, cache_control: EPHEMERAL }];
+  }
+
+  const marked = [...messages];
+  marked[index] = { ...target, content };
+  return marked;
+}
@@ -0,0 +1,113 @@
+import type { Message } from "../claude-client.ts";
+import type { TokenUsage } from "../types.ts";
+import { CallAbortedError, makeMessage, textBlock, toolUseBlock } from "./provider.ts";
+import type { LLMProvider, ProviderRequest, StreamHandlers } from "./provider.ts";
+
+export type FakeResponse =
+  | Message
+  | ((request: ProviderRequest) => Message | Promise<Message>);
+
+/**
+ * Scripted provider for running the life loop offline. Responses are
+ * consumed in order; every request is recorded for assertions.
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name: string;
+  readonly requests: ProviderRequest[] = [];
+  private responses: FakeResponse[] = [];
+
+  constructor(responses: FakeResponse[] = [], name: string = "fake") {
+    this.name = name;
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Queue one or more responses for subsequent calls.
+   */
+  enqueue(...responses: FakeResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Number of queued responses not yet consumed.
+   */
+  remaining(): number {
+    return this.responses.length;
+  }
+
+  async createMessage(request: ProviderRequest, signal?: AbortSignal): Promise<Message> {
+    this.requests.push(request);
+    const next = this.responses.shift();
+    if (!next) {
+      throw new Error(
+        `FakeProvider: no response scripted for call ${this.requests.length}. ` +
+        `System prompt starts with: "${request.systemPrompt.slice(0, 80)}..."`,
+      );
+    }
+    const response = Promise.resolve(typeof next === "function" ? next(request) : next);
+    if (!signal) return response;
+
+    // A pending scripted response can be aborted like a real call
+    return new Promise<Message>((resolve, reject) => {
+      const onAbort = () => reject(new CallAbortedError({ input: 0, output: 0 }));
+      if (signal.aborted) return onAbort();
+      signal.addEventListener("abort", onAbort, { once: true });
+      response.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+  }
+
+  /**
+   * Deliver each scripted response as one delta per content block.
+   */
+  async stream(
+    request: ProviderRequest,
+    handlers: StreamHandlers,
+    signal?: AbortSignal,
+  ): Promise<Message> {
+    const message = await this.createMessage(request, signal);
+    for (const block of message.content) {
+      if (block.type === "thinking") {
+        handlers.onThinking?.(block.thinking);
+      } else if (block.type === "text") {
+        handlers.onText?.(block.text);
+      } else if (block.type === "tool_use") {
+        handlers.onToolUseStart?.(block.name);
+        handlers.onToolInputDelta?.(JSON.stringify(block.input));
+      }
+    }
+    return message;
+  }
+}
+
+// ─── Response Builders ───────────────────────────────────────────
+
+export function fakeText(
+  text: string,
+  tokens: TokenUsage = { input: 100, output: 50 },
+): Message {
+  return makeMessage({
+    model: "fake",
+    content: [textBlock(text)],
+    stopReason: "end_turn",
+    inputTokens: tokens.input,
+    outputTokens: tokens.output,
+    cacheReadTokens: tokens.cacheRead,
+    cacheWriteTokens: tokens.cacheWrite,
+  });
+}
+
+export function fakeToolUse(
+  name: string,
+  input: Record<string, unknown>,
+  tokens: TokenUsage = { input: 100, output: 50 },
+): Message {
+  return makeMessage({
+    model: "fake",
+    content: [toolUseBlock(name, input)],
+    stopReason: "tool_use",
+    inputTokens: tokens.input,
+    outputTokens: tokens.output,
+    cacheReadTokens: tokens.cacheRead,
+    cacheWriteTokens: tokens.cacheWrite,
+  });
+}
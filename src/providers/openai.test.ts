@@ -0,0 +1,203 @@
+import { test, expect, describe } from "bun:test";
+import {
+  OpenAICompatibleProvider,
+  toOpenAIMessages,
+  toOpenAITools,
+  toOpenAIToolChoice,
+  fromOpenAIResponse,
+} from "./openai.ts";
+import { ProviderHttpError } from "./provider.ts";
+import type { MessageParam, ToolUnion, ToolUseBlock } from "../claude-client.ts";
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+describe("toOpenAIMessages", () => {
+  test("prepends the system prompt and passes plain strings through", () => {
+    const out = toOpenAIMessages("be brief", [
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "hello" },
+    ]);
+    expect(out).toEqual([
+      { role: "system", content: "be brief" },
+      { role: "user", content: "hi" },
+      { role: "assistant", content: "hello" },
+    ]);
+  });
+
+  test("maps tool_use and tool_result blocks to tool calls and tool messages", () => {
+    const messages: MessageParam[] = [
+      { role: "user", content: "list files" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Running ls" },
+          { type: "tool_use", id: "tu_1", name: "bash", input: { command: "ls" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "tu_1", content: "a.txt" }],
+      },
+    ];
+
+    const out = toOpenAIMessages("sys", messages);
+    expect(out[2]).toEqual({
+      role: "assistant",
+      content: "Running ls",
+      tool_calls: [
+        { id: "tu_1", type: "function", function: { name: "bash", arguments: '{"command":"ls"}' } },
+      ],
+    });
+    expect(out[3]).toEqual({ role: "tool", tool_call_id: "tu_1", content: "a.txt" });
+    expect(out).toHaveLength(4);
+  });
+});
+
+describe("toOpenAITools", () => {
+  test("converts custom tools and drops server tools", () => {
+    const tools = [
+      {
+        name: "bash",
+        description: "Run a command",
+        input_schema: { type: "object", properties: { command: { type: "string" } } },
+      },
+      { type: "web_search_20250305", name: "web_search" },
+    ] as ToolUnion[];
+
+    const out = toOpenAITools(tools);
+    expect(out).toHaveLength(1);
+    expect(out[0]!.function.name).toBe("bash");
+    expect(out[0]!.function.parameters).toEqual({
+      type: "object",
+      properties: { command: { type: "string" } },
+    });
+  });
+});
+
+describe("toOpenAIToolChoice", () => {
+  test("maps forced, any and auto choices", () => {
+    expect(toOpenAIToolChoice({ type: "tool", name: "submit_plan" })).toEqual({
+      type: "function",
+      function: { name: "submit_plan" },
+    });
+    expect(toOpenAIToolChoice({ type: "any" })).toBe("required");
+    expect(toOpenAIToolChoice({ type: "auto" })).toBe("auto");
+  });
+});
+
+describe("fromOpenAIResponse", () => {
+  test("maps text, tool calls, finish reason and usage", () => {
+    const msg = fromOpenAIResponse({
+      id: "chatcmpl-1",
+      model: "gpt-x",
+      choices: [{
+        message: {
+          content: "Let me check",
+          tool_calls: [
+            { id: "call_1", type: "function", function: { name: "read-file", arguments: '{"path":"a.txt"}' } },
+          ],
+        },
+        finish_reason: "tool_calls",
+      }],
+      usage: { prompt_tokens: 12, completion_tokens: 7 },
+    });
+
+    expect(msg.stop_reason).toBe("tool_use");
+    expect(msg.usage.input_tokens).toBe(12);
+    expect(msg.usage.output_tokens).toBe(7);
+    expect(msg.content[0]!.type).toBe("text");
+    const toolUse = msg.content[1] as ToolUseBlock;
+    expect(toolUse.id).toBe("call_1");
+    expect(toolUse.name).toBe("read-file");
+    expect(toolUse.input).toEqual({ path: "a.txt" });
+  });
+
+  test("reports cached prompt tokens separately from uncached input", () => {
+    const msg = fromOpenAIResponse({
+      id: "x",
+      model: "m",
+      choices: [{ message: { content: "ok" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 1200, completion_tokens: 5, prompt_tokens_details: { cached_tokens: 1024 } },
+    });
+    expect(msg.usage.input_tokens).toBe(176);
+    expect(msg.usage.cache_read_input_tokens).toBe(1024);
+  });
+
+  test("keeps unparseable tool arguments as raw text", () => {
+    const msg = fromOpenAIResponse({
+      id: "x",
+      model: "m",
+      choices: [{
+        message: {
+          content: null,
+          tool_calls: [{ id: "c", type: "function", function: { name: "bash", arguments: "{oops" } }],
+        },
+        finish_reason: "tool_calls",
+      }],
+    });
+    expect((msg.content[0] as ToolUseBlock).input).toEqual({ _raw: "{oops" });
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  test("posts to /chat/completions with bearer auth", async () => {
+    let capturedUrl = "";
+    let capturedInit: RequestInit | undefined;
+    const fetchFn = (async (url: string, init?: RequestInit) => {
+      capturedUrl = url;
+      capturedInit = init;
+      return jsonResponse({
+        id: "r1",
+        model: "gpt-x",
+        choices: [{ message: { content: "ok" }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 3, completion_tokens: 1 },
+      });
+    }) as unknown as typeof fetch;
+
+    const provider = new OpenAICompatibleProvider({
+      name: "openai",
+      baseUrl: "https://gateway.internal/v1/",
+      apiKey: "sk-test",
+      fetchFn,
+    });
+    const msg = await provider.createMessage({
+      model: "gpt-x",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+      maxTokens: 100,
+    });
+
+    expect(capturedUrl).toBe("https://gateway.internal/v1/chat/completions");
+    const headers = capturedInit!.headers as Record<string, string>;
+    expect(headers.authorization).toBe("Bearer sk-test");
+    const body = JSON.parse(capturedInit!.body as string);
+    expect(body.model).toBe("gpt-x");
+    expect(body.max_tokens).toBe(100);
+    expect(body.tools).toBeUndefined();
+    expect(msg.stop_reason).toBe("end_turn");
+    expect(msg.content[0]).toEqual({ type: "text", text: "ok", citations: null });
+  });
+
+  test("throws ProviderHttpError with status on failure", async () => {
+    const fetchFn = (async () => jsonResponse({ error: "slow down" }, 429)) as unknown as typeof fetch;
+    const provider = new OpenAICompatibleProvider({ name: "local", baseUrl: "http://x/v1", fetchFn });
+
+    try {
+      await provider.createMessage({
+        model: "llama",
+        systemPrompt: "s",
+        messages: [{ role: "user", content: "hi" }],
+        maxTokens: 10,
+      });
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(ProviderHttpError);
+      expect((err as ProviderHttpError).status).toBe(429);
+    }
+  });
+});
@@ -0,0 +1,273 @@
+import type {
+  Message,
+  MessageParam,
+  ContentBlock,
+  ToolUnion,
+  ToolChoice,
+} from "../claude-client.ts";
+import {
+  ProviderHttpError,
+  makeMessage,
+  textBlock,
+  toolUseBlock,
+} from "./provider.ts";
+import type { LLMProvider, ProviderRequest } from "./provider.ts";
+
+// ─── OpenAI Chat Completions wire types (subset) ─────────────────
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export type OpenAIMessage =
+  | { role: "system"; content: string }
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+export interface OpenAITool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export type OpenAIToolChoice =
+  | "auto"
+  | "none"
+  | "required"
+  | { type: "function"; function: { name: string } };
+
+interface OpenAIChatResponse {
+  id: string;
+  model: string;
+  choices: {
+    message: { content: string | null; tool_calls?: OpenAIToolCall[] };
+    finish_reason: string | null;
+  }[];
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    prompt_tokens_details?: { cached_tokens?: number };
+  };
+}
+
+export interface OpenAIProviderOptions {
+  /** Provider prefix, e.g. "openai" or "local". */
+  name: string;
+  /** Base URL of the API, including the version segment (…/v1). */
+  baseUrl: string;
+  apiKey?: string;
+  /** Injectable fetch for tests. */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * Provider for any OpenAI-compatible Chat Completions endpoint
+ * (OpenAI itself, internal gateways, llama.cpp, Ollama, vLLM, ...).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string;
+  private baseUrl: string;
+  private apiKey?: string;
+  private fetchFn: typeof fetch;
+
+  constructor(options: OpenAIProviderOptions) {
+    this.name = options.name;
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    this.fetchFn = options.fetchFn ?? fetch;
+  }
+
+  async createMessage(request: ProviderRequest, signal?: AbortSignal): Promise<Message> {
+    const tools = toOpenAITools(request.tools ?? []);
+    const body = {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      messages: toOpenAIMessages(request.systemPrompt, request.messages),
+      ...(tools.length > 0 ? { tools } : {}),
+      ...(tools.length > 0 && request.toolChoice
+        ? { tool_choice: toOpenAIToolChoice(request.toolChoice) }
+        : {}),
+    };
+
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const res = await this.fetchFn(`${this.baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new ProviderHttpError(
+        res.status,
+        `${this.name} API error ${res.status}: ${text.slice(0, 500)}`,
+        res.headers,
+      );
+    }
+
+    return fromOpenAIResponse((await res.json()) as OpenAIChatResponse);
+  }
+}
+
+// ─── Translation ─────────────────────────────────────────────────
+
+/**
+ * Convert canonical messages to Chat Completions messages. Tool results
+ * become "tool" role messages placed directly after the assistant turn
+ * that requested them, as the OpenAI API requires.
+ */
+export function toOpenAIMessages(
+  systemPrompt: string,
+  messages: MessageParam[],
+): OpenAIMessage[] {
+  const out: OpenAIMessage[] = [{ role: "system", content: systemPrompt }];
+
+  for (const msg of messages) {
+    if (typeof msg.content === "string") {
+      out.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    if (msg.role === "assistant") {
+      const texts: string[] = [];
+      const toolCalls: OpenAIToolCall[] = [];
+      for (const block of msg.content) {
+        if (block.type === "text") {
+          texts.push(block.text);
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+        }
+        // thinking, server tool blocks etc. have no OpenAI equivalent
+      }
+      out.push({
+        role: "assistant",
+        content: texts.length > 0 ? texts.join("\n") : null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    const texts: string[] = [];
+    for (const block of msg.content) {
+      if (block.type === "tool_result") {
+        out.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: toolResultText(block.content),
+        });
+      } else if (block.type === "text") {
+        texts.push(block.text);
+      }
+    }
+    if (texts.length > 0) {
+      out.push({ role: "user", content: texts.join("\n") });
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Convert tool definitions. Server-side Anthropic tools (web search,
+ * web fetch) have no input_schema and are dropped.
+ */
+export function toOpenAITools(tools: ToolUnion[]): OpenAITool[] {
+  const out: OpenAITool[] = [];
+  for (const tool of tools) {
+    if (!("input_schema" in tool)) continue;
+    out.push({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: "description" in tool ? tool.description : undefined,
+        parameters: tool.input_schema as Record<string, unknown>,
+      },
+    });
+  }
+  return out;
+}
+
+/**
+ * Convert a tool choice: "any" is OpenAI's "required", and a named tool
+ * becomes a function choice.
+ */
+export function toOpenAIToolChoice(choice: ToolChoice): OpenAIToolChoice {
+  switch (choice.type) {
+    case "auto":
+    case "none":
+      return choice.type;
+    case "any":
+      return "required";
+    case "tool":
+      return { type: "function", function: { name: choice.name } };
+  }
+}
+
+export function fromOpenAIResponse(res: OpenAIChatResponse): Message {
+  const choice = res.choices[0];
+  const content: ContentBlock[] = [];
+
+  if (choice?.message.content) {
+    content.push(textBlock(choice.message.content));
+  }
+  for (const call of choice?.message.tool_calls ?? []) {
+    let input: unknown;
+    try {
+      input = JSON.parse(call.function.arguments || "{}");
+    } catch {
+      input = { _raw: call.function.arguments };
+    }
+    content.push(toolUseBlock(call.function.name, input, call.id));
+  }
+
+  // OpenAI caches prompt prefixes automatically; cached tokens are part of prompt_tokens
+  const cached = res.usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return makeMessage({
+    id: res.id,
+    model: res.model,
+    content,
+    stopReason: mapFinishReason(choice?.finish_reason ?? null),
+    inputTokens: (res.usage?.prompt_tokens ?? 0) - cached,
+    outputTokens: res.usage?.completion_tokens ?? 0,
+    cacheReadTokens: cached || undefined,
+  });
+}
+
+function mapFinishReason(reason: string | null): Message["stop_reason"] {
+  switch (reason) {
+    case "tool_calls":
+    case "function_call":
+      return "tool_use";
+    case "length":
+      return "max_tokens";
+    case "content_filter":
+      return "refusal";
+    default:
+      return "end_turn";
+  }
+}
+
+function toolResultText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((b: { type?: string; text?: string }) => (b.type === "text" ? b.text ?? "" : ""))
+      .join("\n");
+  }
+  return content == null ? "" : JSON.stringify(content);
+}
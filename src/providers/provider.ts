@@ -0,0 +1,162 @@
+import type {
+  Message,
+  MessageParam,
+  ContentBlock,
+  ToolUnion,
+  ToolChoice,
+} from "../claude-client.ts";
+import type { TokenUsage } from "../types.ts";
+
+/**
+ * A single completion request in provider-neutral form. Messages, tools and
+ * responses use the Anthropic shapes re-exported from claude-client.ts;
+ * providers for other APIs translate to and from them.
+ */
+export interface ProviderRequest {
+  model: string;
+  systemPrompt: string;
+  messages: MessageParam[];
+  tools?: ToolUnion[];
+  /** Whether and which tool the model must call; omit for auto. */
+  toolChoice?: ToolChoice;
+  maxTokens: number;
+  /**
+   * Number of leading messages that stay identical across calls.
+   * Providers with explicit prompt caching mark them (with the system
+   * prompt and tools) as cacheable.
+   */
+  cachePrefixLength?: number;
+  /**
+   * Extended-thinking budget in tokens, on top of maxTokens. Providers
+   * without extended thinking ignore it.
+   */
+  thinkingBudget?: number;
+}
+
+/**
+ * Callbacks for incremental output while a response streams in.
+ */
+export interface StreamHandlers {
+  onText?: (delta: string) => void;
+  /** A chunk of extended-thinking text. */
+  onThinking?: (delta: string) => void;
+  /** A tool_use block started. */
+  onToolUseStart?: (name: string) => void;
+  /** A chunk of the current tool_use block's input JSON. */
+  onToolInputDelta?: (partialJson: string) => void;
+}
+
+export interface LLMProvider {
+  /** Provider prefix used in model specs, e.g. "openai" in "openai:gpt-4o". */
+  readonly name: string;
+  createMessage(request: ProviderRequest, signal?: AbortSignal): Promise<Message>;
+  /**
+   * Stream a response, reporting deltas as they arrive. Optional;
+   * providers without it are called through createMessage.
+   * Must throw CallAbortedError when `signal` aborts the stream.
+   */
+  stream?(
+    request: ProviderRequest,
+    handlers: StreamHandlers,
+    signal?: AbortSignal,
+  ): Promise<Message>;
+}
+
+/**
+ * HTTP error raised by non-SDK providers. Carries `status` so the
+ * ClaudeClient retry logic treats it the same as Anthropic SDK errors.
+ */
+export class ProviderHttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly headers?: Headers,
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/**
+ * Raised when a call is aborted through its AbortSignal. `usage` holds
+ * the tokens consumed before the abort (output is estimated when the
+ * API had not reported it yet) so budgets still account for them.
+ */
+export class CallAbortedError extends Error {
+  constructor(public readonly usage: TokenUsage) {
+    super("Model call aborted");
+    this.name = "CallAbortedError";
+  }
+}
+
+// ─── Model Specs ─────────────────────────────────────────────────
+
+export const DEFAULT_PROVIDER = "anthropic";
+
+export interface ModelSpec {
+  provider: string;
+  model: string;
+}
+
+/**
+ * Split a model spec into provider and model name.
+ * "openai:gpt-4o" → { provider: "openai", model: "gpt-4o" }
+ * "claude-sonnet-4-6" → { provider: "anthropic", model: "claude-sonnet-4-6" }
+ */
+export function parseModelSpec(spec: string): ModelSpec {
+  const sep = spec.indexOf(":");
+  if (sep <= 0) {
+    return { provider: DEFAULT_PROVIDER, model: spec };
+  }
+  return { provider: spec.slice(0, sep), model: spec.slice(sep + 1) };
+}
+
+// ─── Response Construction ───────────────────────────────────────
+
+/**
+ * Build a Message in the canonical shape. Used by providers that
+ * translate foreign responses and by the scripted fake provider.
+ */
+export function makeMessage(params: {
+  model: string;
+  content: ContentBlock[];
+  stopReason?: Message["stop_reason"];
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  id?: string;
+}): Message {
+  return {
+    id: params.id ?? `msg_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+    type: "message",
+    role: "assistant",
+    model: params.model,
+    container: null,
+    content: params.content,
+    stop_reason: params.stopReason ?? "end_turn",
+    stop_sequence: null,
+    usage: {
+      input_tokens: params.inputTokens ?? 0,
+      output_tokens: params.outputTokens ?? 0,
+      cache_creation_input_tokens: params.cacheWriteTokens ?? null,
+      cache_read_input_tokens: params.cacheReadTokens ?? null,
+      cache_creation: null,
+      server_tool_use: null,
+      inference_geo: null,
+      service_tier: null,
+    },
+  };
+}
+
+export function textBlock(text: string): ContentBlock {
+  return { type: "text", text, citations: null };
+}
+
+export function toolUseBlock(
+  name: string,
+  input: unknown,
+  id: string = `toolu_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+): ContentBlock {
+  return { type: "tool_use", id, name, input, caller: { type: "direct" } };
+}
@@ -0,0 +1,140 @@
+import { test, expect, describe } from "bun:test";
+import {
+  LEADER_RESERVE,
+  RateLimiter,
+  rateLimitsFromEnv,
+  takeTokens,
+} from "./rate-limiter.ts";
+import { MockRedis } from "./mock-redis.ts";
+import { ClaudeClient } from "./claude-client.ts";
+import { FakeProvider, fakeText } from "./providers/fake.ts";
+import { CallAbortedError } from "./providers/provider.ts";
+
+/** A clock the test moves by hand. */
+function manualClock(start = 1_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe("takeTokens", () => {
+  test("starts full, refills linearly and never exceeds capacity", () => {
+    const bucket = [{ capacity: 60, cost: 60 }];
+    const first = takeTokens([null], bucket, 0, 0, false);
+    expect(first).toEqual({ waitMs: 0, states: [{ tokens: 0, ts: 0 }] });
+
+    // One token per second at 60 per minute
+    expect(takeTokens(first.states!, [{ capacity: 60, cost: 1 }], 500, 0, false).waitMs).toBe(500);
+    const later = takeTokens(first.states!, [{ capacity: 60, cost: 0 }], 600_000, 0, false);
+    expect(later.states![0]!.tokens).toBe(60);
+  });
+
+  test("takes from every bucket or none", () => {
+    const saved = [{ tokens: 10, ts: 0 }, { tokens: 0, ts: 0 }];
+    const result = takeTokens(saved, [{ capacity: 60, cost: 1 }, { capacity: 600, cost: 100 }], 0, 0, false);
+    expect(result.states).toBeUndefined();
+    expect(result.waitMs).toBe(10_000);
+  });
+
+  test("caps an oversized cost at the bucket size and leaves debt", () => {
+    const result = takeTokens([null], [{ capacity: 100, cost: 250 }], 0, 0, false);
+    expect(result.states![0]!.tokens).toBe(-150);
+  });
+});
+
+describe("RateLimiter", () => {
+  test("limits requests per minute across limiters sharing a store", async () => {
+    const redis = new MockRedis();
+    const clock = manualClock();
+    const a = new RateLimiter(redis, { rpm: 2 }, "high", clock.now);
+    const b = new RateLimiter(redis, { rpm: 2 }, "high", clock.now);
+
+    expect(await a.tryAcquire(0)).toBe(0);
+    expect(await b.tryAcquire(0)).toBe(0);
+    expect(await a.tryAcquire(0)).toBe(30_000);
+
+    clock.advance(30_000);
+    expect(await b.tryAcquire(0)).toBe(0);
+  });
+
+  test("sessions on one server have separate buckets", async () => {
+    const redis = new MockRedis();
+    const clock = manualClock();
+    const first = new RateLimiter(redis, { rpm: 1 }, "high", clock.now, "s1");
+    const second = new RateLimiter(redis, { rpm: 1 }, "high", clock.now, "s2");
+
+    expect(await first.tryAcquire(0)).toBe(0);
+    expect(await second.tryAcquire(0)).toBe(0);
+    expect(await first.tryAcquire(0)).toBeGreaterThan(0);
+  });
+
+  test("workers leave the leader's reserve untouched", async () => {
+    const redis = new MockRedis();
+    const clock = manualClock();
+    const worker = new RateLimiter(redis, { tpm: 1000 }, "normal", clock.now);
+    const leader = new RateLimiter(redis, { tpm: 1000 }, "high", clock.now);
+
+    expect(await worker.tryAcquire(1000 * (1 - LEADER_RESERVE))).toBe(0);
+    expect(await worker.tryAcquire(1)).toBeGreaterThan(0);
+    expect(await leader.tryAcquire(1000 * LEADER_RESERVE)).toBe(0);
+  });
+
+  test("settle corrects the token bucket by the estimate's error", async () => {
+    const redis = new MockRedis();
+    const clock = manualClock();
+    const limiter = new RateLimiter(redis, { tpm: 1000 }, "high", clock.now);
+
+    await limiter.tryAcquire(100);
+    await limiter.settle(800); // the call used 900 tokens, not 100
+    expect(await limiter.tryAcquire(200)).toBe(6_000);
+    await limiter.settle(-500);
+    expect(await limiter.tryAcquire(200)).toBe(0);
+  });
+
+  test("acquire waits for tokens and stops when aborted", async () => {
+    const redis = new MockRedis();
+    // 60000 per minute refills one token per millisecond
+    const limiter = new RateLimiter(redis, { tpm: 60_000 }, "high");
+    await limiter.tryAcquire(60_000);
+
+    expect(await limiter.acquire(20)).toBeGreaterThanOrEqual(15);
+
+    const controller = new AbortController();
+    const pending = limiter.acquire(60_000, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CallAbortedError);
+  });
+
+  test("ClaudeClient reserves an estimate and settles actual usage", async () => {
+    const redis = new MockRedis();
+    const clock = manualClock();
+    const limiter = new RateLimiter(redis, { rpm: 10, tpm: 10_000 }, "high", clock.now);
+    const fake = new FakeProvider([fakeText("ok", { input: 3000, output: 1000 })]);
+    const client = new ClaudeClient({ providers: { anthropic: fake }, rateLimiter: limiter });
+
+    await client.call({
+      model: "claude-sonnet-4-6",
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "hi" }],
+    });
+
+    // 4000 tokens used, so 6000 are left in the bucket
+    expect(await limiter.tryAcquire(6000)).toBe(0);
+    expect(await limiter.tryAcquire(1)).toBeGreaterThan(0);
+  });
+});
+
+describe("rateLimitsFromEnv", () => {
+  test("reads either limit and ignores unset or invalid values", () => {
+    expect(rateLimitsFromEnv({})).toBeUndefined();
+    expect(rateLimitsFromEnv({ SEALTEAM_RPM: "50" })).toEqual({ rpm: 50, tpm: undefined });
+    expect(rateLimitsFromEnv({ SEALTEAM_RPM: "x", SEALTEAM_TPM: "40000" })).toEqual({
+      rpm: undefined,
+      tpm: 40000,
+    });
+  });
+});
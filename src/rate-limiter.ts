@@ -0,0 +1,271 @@
+import { connectRedis, sessionNamespace } from "./message-queue.ts";
+import type { RedisLike } from "./message-queue.ts";
+import { CallAbortedError } from "./providers/provider.ts";
+import { logRateLimitWait } from "./logger.ts";
+
+/** Session-wide API limits, shared by every agent process. */
+export interface RateLimits {
+  /** Requests per minute. */
+  rpm?: number;
+  /** Tokens (input + output) per minute. */
+  tpm?: number;
+}
+
+/**
+ * "high" may drain a bucket completely; "normal" must leave
+ * LEADER_RESERVE of it, so the leader always has headroom.
+ */
+export type RatePriority = "high" | "normal";
+
+/** Share of each bucket that only high-priority callers may use. */
+export const LEADER_RESERVE = 0.2;
+/** Longest single sleep while waiting for tokens; re-checks after. */
+const MAX_WAIT_SLICE_MS = 5_000;
+// Buckets refill within a minute; idle ones are left to expire
+const BUCKET_TTL_MS = 120_000;
+
+const BUCKET_KEYS = { rpm: "ratelimit:requests", tpm: "ratelimit:tokens" } as const;
+
+// ─── Token Bucket ────────────────────────────────────────────────
+
+/** Saved state of one bucket. */
+export interface BucketState {
+  tokens: number;
+  /** Time of the last update, ms since the epoch. */
+  ts: number;
+}
+
+export interface BucketRequest {
+  /** Bucket size; it refills from empty in one minute. */
+  capacity: number;
+  /** Tokens to take; negative returns tokens (see settle). */
+  cost: number;
+}
+
+/**
+ * Refill the buckets to `now` and take `cost` from each, all or nothing.
+ * Returns the new states, or the milliseconds until every bucket can
+ * cover its cost. A cost larger than a bucket is capped at the bucket
+ * size and leaves it in debt. `force` takes the cost regardless, for
+ * settling the difference between estimated and actual usage.
+ *
+ * TOKEN_BUCKET_SCRIPT is the same algorithm in Lua, run atomically by
+ * Valkey; MockRedis and SqliteRedis run this function instead.
+ */
+export function takeTokens(
+  saved: (BucketState | null)[],
+  requests: BucketRequest[],
+  now: number,
+  reserve: number,
+  force: boolean,
+): { waitMs: number; states?: BucketState[] } {
+  let waitMs = 0;
+  const levels = requests.map(({ capacity, cost }, i) => {
+    const rate = capacity / 60_000;
+    const state = saved[i] ?? { tokens: capacity, ts: now };
+    const tokens = Math.min(capacity, state.tokens + Math.max(0, now - state.ts) * rate);
+    const need = Math.min(cost, capacity * (1 - reserve)) + capacity * reserve;
+    if (tokens < need) {
+      waitMs = Math.max(waitMs, Math.ceil((need - tokens) / rate));
+    }
+    return tokens;
+  });
+  if (waitMs > 0 && !force) {
+    return { waitMs };
+  }
+  const states = requests.map(({ capacity, cost }, i) => ({
+    tokens: Math.min(capacity, levels[i]! - cost),
+    ts: now,
+  }));
+  return { waitMs: 0, states };
+}
+
+/**
+ * KEYS: one hash per bucket. ARGV: now, reserve, force ("1" or "0"),
+ * then capacity and cost for each bucket. Returns 0 when the tokens were
+ * taken, else the milliseconds to wait.
+ */
+export const TOKEN_BUCKET_SCRIPT = `
+local now = tonumber(ARGV[1])
+local reserve = tonumber(ARGV[2])
+local force = ARGV[3] == "1"
+local levels = {}
+local wait = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[2 + i * 2])
+  local cost = tonumber(ARGV[3 + i * 2])
+  local rate = capacity / 60000
+  local saved = redis.call("HMGET", key, "tokens", "ts")
+  local tokens = tonumber(saved[1]) or capacity
+  local ts = tonumber(saved[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate)
+  local need = math.min(cost, capacity * (1 - reserve)) + capacity * reserve
+  if tokens < need then
+    wait = math.max(wait, math.ceil((need - tokens) / rate))
+  end
+  levels[i] = tokens
+end
+if wait > 0 and not force then
+  return wait
+end
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[2 + i * 2])
+  local cost = tonumber(ARGV[3 + i * 2])
+  redis.call("HSET", key, "tokens", tostring(math.min(capacity, levels[i] - cost)), "ts", tostring(now))
+  redis.call("PEXPIRE", key, ${BUCKET_TTL_MS})
+end
+return 0
+`;
+
+/**
+ * Run an EVAL of TOKEN_BUCKET_SCRIPT (`args` as passed to the EVAL
+ * command) with takeTokens, for stores without Lua. `load` and `save`
+ * read and write a bucket's state. Returns what the script returns.
+ */
+export function evalTokenBucket(
+  args: string[],
+  load: (key: string) => BucketState | null,
+  save: (key: string, state: BucketState) => void,
+): number {
+  const keys = args.slice(2, 2 + Number(args[1]));
+  const [now, reserve, force, ...rest] = args.slice(2 + keys.length);
+  const requests = keys.map((_, i) => ({
+    capacity: Number(rest[i * 2]),
+    cost: Number(rest[i * 2 + 1]),
+  }));
+  const result = takeTokens(
+    keys.map(load),
+    requests,
+    Number(now),
+    Number(reserve),
+    force === "1",
+  );
+  result.states?.forEach((state, i) => save(keys[i]!, state));
+  return result.waitMs;
+}
+
+// ─── Limiter ─────────────────────────────────────────────────────
+
+/**
+ * Token-bucket limiter for requests and tokens per minute, shared by all
+ * agent processes through Valkey. Each call acquires one request and its
+ * estimated tokens before it is sent, and settles the estimate against
+ * the actual usage afterwards.
+ */
+export class RateLimiter {
+  private redis: RedisLike;
+  private limits: RateLimits;
+  private priority: RatePriority;
+  private now: () => number;
+  private namespace: string;
+
+  /** `sessionId` keeps the buckets apart from other sessions' (see sessionNamespace). */
+  constructor(
+    valkeyUrlOrClient: string | RedisLike,
+    limits: RateLimits,
+    priority: RatePriority = "normal",
+    now: () => number = Date.now,
+    sessionId?: string,
+  ) {
+    if (typeof valkeyUrlOrClient === "object" && valkeyUrlOrClient !== null) {
+      this.redis = valkeyUrlOrClient;
+    } else {
+      this.redis = connectRedis(valkeyUrlOrClient);
+    }
+    this.limits = limits;
+    this.priority = priority;
+    this.now = now;
+    this.namespace = sessionNamespace(sessionId);
+  }
+
+  /**
+   * Wait until a request with `tokens` estimated tokens fits the limits,
+   * then take them. Returns the time spent waiting. An aborted `signal`
+   * stops the wait with CallAbortedError.
+   */
+  async acquire(tokens: number, signal?: AbortSignal): Promise<number> {
+    const start = this.now();
+    for (;;) {
+      if (signal?.aborted) {
+        throw new CallAbortedError({ input: 0, output: 0 });
+      }
+      const waitMs = await this.tryAcquire(tokens);
+      if (waitMs === 0) return this.now() - start;
+      logRateLimitWait(this.priority, waitMs);
+      await sleep(Math.min(waitMs, MAX_WAIT_SLICE_MS), signal);
+    }
+  }
+
+  /**
+   * Take one request and `tokens` tokens if they fit, without waiting.
+   * Returns 0 on success, else the milliseconds until they would fit.
+   */
+  async tryAcquire(tokens: number): Promise<number> {
+    return this.take(1, tokens, false);
+  }
+
+  /**
+   * Correct the token bucket by the difference between a call's actual
+   * and estimated tokens (negative returns tokens).
+   */
+  async settle(tokenDelta: number): Promise<void> {
+    if (tokenDelta !== 0 && this.limits.tpm) {
+      await this.take(0, tokenDelta, true);
+    }
+  }
+
+  close(): void {
+    this.redis.close();
+  }
+
+  private async take(requests: number, tokens: number, force: boolean): Promise<number> {
+    const keys: string[] = [];
+    const args: string[] = [];
+    if (this.limits.rpm) {
+      keys.push(this.namespace + BUCKET_KEYS.rpm);
+      args.push(String(this.limits.rpm), String(requests));
+    }
+    if (this.limits.tpm) {
+      keys.push(this.namespace + BUCKET_KEYS.tpm);
+      args.push(String(this.limits.tpm), String(tokens));
+    }
+    if (keys.length === 0) return 0;
+
+    const reserve = this.priority === "high" ? 0 : LEADER_RESERVE;
+    const result = await this.redis.send("EVAL", [
+      TOKEN_BUCKET_SCRIPT,
+      String(keys.length),
+      ...keys,
+      String(this.now()),
+      String(reserve),
+      force ? "1" : "0",
+      ...args,
+    ]);
+    return Number(result);
+  }
+}
+
+/**
+ * Read SEALTEAM_RPM and SEALTEAM_TPM, as set by the main process.
+ * Returns undefined when neither limit is set.
+ */
+export function rateLimitsFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): RateLimits | undefined {
+  const rpm = Number(env.SEALTEAM_RPM) || undefined;
+  const tpm = Number(env.SEALTEAM_TPM) || undefined;
+  return rpm || tpm ? { rpm, tpm } : undefined;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+}
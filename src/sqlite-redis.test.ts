@@ -0,0 +1,59 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { SqliteRedis, sqlitePathFromUrl } from "./sqlite-redis.ts";
+import { MessageQueue, connectRedis } from "./message-queue.ts";
+import { RateLimiter } from "./rate-limiter.ts";
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = `/tmp/sealteam-sqlite-test-${crypto.randomUUID()}`;
+});
+
+afterEach(async () => {
+  await Bun.$`rm -rf ${tmpDir}`.quiet();
+});
+
+describe("sqlitePathFromUrl", () => {
+  test("accepts sqlite:// and file:// URLs only", () => {
+    expect(sqlitePathFromUrl("sqlite://./workspace/queue.db")).toBe("./workspace/queue.db");
+    expect(sqlitePathFromUrl("file:///tmp/queue.db")).toBe("/tmp/queue.db");
+    expect(sqlitePathFromUrl("valkey://localhost:6379")).toBeNull();
+  });
+
+  test("connectRedis opens a SQLite store for those URLs", () => {
+    const redis = connectRedis(`sqlite://${tmpDir}/queue.db`);
+    expect(redis).toBeInstanceOf(SqliteRedis);
+    redis.close();
+  });
+});
+
+describe("SqliteRedis", () => {
+  test("a blocking move wakes for a push from another process", async () => {
+    const path = `${tmpDir}/queue.db`;
+    const mq = new MessageQueue(`sqlite://${path}`);
+    const pushed = Bun.spawn([
+      process.execPath,
+      "-e",
+      `import { SqliteRedis } from "${import.meta.dir}/sqlite-redis.ts";
+       await Bun.sleep(200);
+       const redis = new SqliteRedis("${path}");
+       await redis.lpush("queue:alice", JSON.stringify({ id: "1", from: "bob", to: "alice", type: "task", content: "from afar", timestamp: 0 }));
+       redis.close();`,
+    ]);
+
+    const received = await mq.receive("alice", 10);
+    await pushed.exited;
+    mq.close();
+
+    expect(received?.content).toBe("from afar");
+  });
+
+  test("runs the rate limiter's token bucket", async () => {
+    const redis = new SqliteRedis(`${tmpDir}/queue.db`);
+    const limiter = new RateLimiter(redis, { rpm: 1 }, "high", () => 1_000_000);
+
+    expect(await limiter.tryAcquire(0)).toBe(0);
+    expect(await limiter.tryAcquire(0)).toBe(60_000);
+    limiter.close();
+  });
+});
@@ -0,0 +1,254 @@
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { RedisLike } from "./message-queue.ts";
+import { TOKEN_BUCKET_SCRIPT, evalTokenBucket } from "./rate-limiter.ts";
+import type { BucketState } from "./rate-limiter.ts";
+
+// How often a blocking blmove re-checks its source list
+const BLOCK_POLL_MS = 50;
+// How long a write waits for another process's transaction
+const BUSY_TIMEOUT_MS = 5_000;
+
+// A list is its rows ordered by seq; LEFT is the lowest seq
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS lists (
+  key TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  value TEXT NOT NULL,
+  PRIMARY KEY (key, seq)
+);
+CREATE TABLE IF NOT EXISTS sets (
+  key TEXT NOT NULL,
+  member TEXT NOT NULL,
+  PRIMARY KEY (key, member)
+);
+CREATE TABLE IF NOT EXISTS strings (
+  key TEXT PRIMARY KEY,
+  value TEXT NOT NULL
+);
+`;
+
+/**
+ * Database path of a sqlite:// or file:// URL, e.g. "sqlite://./queue.db"
+ * or "file:///tmp/queue.db"; null for any other URL.
+ */
+export function sqlitePathFromUrl(url: string): string | null {
+  const match = /^(?:sqlite|file):\/\/(.+)$/.exec(url);
+  return match ? match[1]! : null;
+}
+
+/**
+ * The Redis operations MessageQueue and RateLimiter use, kept in a SQLite
+ * file so agent processes on one machine can share queues without a
+ * Valkey server. Every read-modify-write runs in an immediate
+ * transaction, which makes it atomic across processes; blocking moves
+ * poll the source list.
+ */
+export class SqliteRedis implements RedisLike {
+  private db: Database;
+
+  constructor(path: string) {
+    mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path, { create: true });
+    this.db.run(`PRAGMA busy_timeout = ${BUSY_TIMEOUT_MS}`);
+    this.db.run("PRAGMA journal_mode = WAL");
+    this.db.run(SCHEMA);
+  }
+
+  async lpush(key: string, value: string): Promise<number> {
+    return this.db.transaction(() => this.push(key, value, "LEFT")).immediate();
+  }
+
+  async rpush(key: string, value: string): Promise<number> {
+    return this.db.transaction(() => this.push(key, value, "RIGHT")).immediate();
+  }
+
+  async blmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+    timeout: number,
+  ): Promise<string | null> {
+    // A timeout of 0 blocks indefinitely, as in Redis
+    const deadline = timeout > 0 ? Date.now() + timeout * 1000 : Infinity;
+    for (;;) {
+      const value = await this.lmove(source, destination, from, to);
+      if (value !== null) return value;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return null;
+      await Bun.sleep(Math.min(BLOCK_POLL_MS, remaining));
+    }
+  }
+
+  async lmove(
+    source: string,
+    destination: string,
+    from: "LEFT" | "RIGHT",
+    to: "LEFT" | "RIGHT",
+  ): Promise<string | null> {
+    return this.db.transaction(() => {
+      const value = this.pop(source, from);
+      if (value !== null) this.push(destination, value, to);
+      return value;
+    }).immediate();
+  }
+
+  async rpop(key: string): Promise<string | null> {
+    return this.db.transaction(() => this.pop(key, "RIGHT")).immediate();
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.values(key);
+    const end = stop < 0 ? list.length + stop + 1 : stop + 1;
+    return list.slice(start < 0 ? Math.max(0, list.length + start) : start, end);
+  }
+
+  async llen(key: string): Promise<number> {
+    return this.length(key);
+  }
+
+  async lrem(key: string, count: number, value: string): Promise<number> {
+    return this.db.transaction(() => {
+      // Positive counts remove from the head, negative from the tail
+      const order = count < 0 ? "DESC" : "ASC";
+      const rows = this.db
+        .query(`SELECT seq FROM lists WHERE key = ? AND value = ? ORDER BY seq ${order}`)
+        .all(key, value) as { seq: number }[];
+      const removed = count === 0 ? rows : rows.slice(0, Math.abs(count));
+      const remove = this.db.query("DELETE FROM lists WHERE key = ? AND seq = ?");
+      for (const { seq } of removed) remove.run(key, seq);
+      return removed.length;
+    }).immediate();
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<string> {
+    this.db.transaction(() => {
+      const seqs = (this.db
+        .query("SELECT seq FROM lists WHERE key = ? ORDER BY seq")
+        .all(key) as { seq: number }[]).map((row) => row.seq);
+      const end = stop < 0 ? seqs.length + stop + 1 : stop + 1;
+      const kept = new Set(seqs.slice(start < 0 ? Math.max(0, seqs.length + start) : start, end));
+      const remove = this.db.query("DELETE FROM lists WHERE key = ? AND seq = ?");
+      for (const seq of seqs) {
+        if (!kept.has(seq)) remove.run(key, seq);
+      }
+    }).immediate();
+    return "OK";
+  }
+
+  async sadd(key: string, member: string): Promise<number> {
+    return this.db
+      .query("INSERT OR IGNORE INTO sets (key, member) VALUES (?, ?)")
+      .run(key, member).changes;
+  }
+
+  async srem(key: string, member: string): Promise<number> {
+    return this.db
+      .query("DELETE FROM sets WHERE key = ? AND member = ?")
+      .run(key, member).changes;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    return (this.db
+      .query("SELECT member FROM sets WHERE key = ?")
+      .all(key) as { member: string }[]).map((row) => row.member);
+  }
+
+  async get(key: string): Promise<string | null> {
+    const row = this.db.query("SELECT value FROM strings WHERE key = ?").get(key) as
+      | { value: string }
+      | null;
+    return row?.value ?? null;
+  }
+
+  async set(key: string, value: string): Promise<string> {
+    this.db.query("INSERT OR REPLACE INTO strings (key, value) VALUES (?, ?)").run(key, value);
+    return "OK";
+  }
+
+  /** Redis glob patterns are SQLite GLOB patterns too. */
+  async keys(pattern: string): Promise<string[]> {
+    return (this.db
+      .query(
+        `SELECT key FROM lists WHERE key GLOB ?1
+         UNION SELECT key FROM sets WHERE key GLOB ?1
+         UNION SELECT key FROM strings WHERE key GLOB ?1`,
+      )
+      .all(pattern) as { key: string }[]).map((row) => row.key);
+  }
+
+  async del(key: string): Promise<number> {
+    return this.db.transaction(() => {
+      let deleted = 0;
+      for (const table of ["lists", "sets", "strings"]) {
+        deleted += this.db.query(`DELETE FROM ${table} WHERE key = ?`).run(key).changes;
+      }
+      return deleted > 0 ? 1 : 0;
+    }).immediate();
+  }
+
+  /**
+   * Supports EVAL of the rate limiter's token-bucket script only, running
+   * its TypeScript twin in a transaction. Bucket TTLs are not modelled.
+   */
+  async send(command: string, args: string[]): Promise<unknown> {
+    if (command !== "EVAL" || args[0] !== TOKEN_BUCKET_SCRIPT) {
+      throw new Error(`SqliteRedis: unsupported command ${command}`);
+    }
+    return this.db.transaction(() =>
+      evalTokenBucket(
+        args,
+        (key) => {
+          const row = this.db.query("SELECT value FROM strings WHERE key = ?").get(key) as
+            | { value: string }
+            | null;
+          return row ? (JSON.parse(row.value) as BucketState) : null;
+        },
+        (key, state) => {
+          this.db
+            .query("INSERT OR REPLACE INTO strings (key, value) VALUES (?, ?)")
+            .run(key, JSON.stringify(state));
+        },
+      ),
+    ).immediate();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  // Callers hold a transaction, so the seq read and insert are atomic
+  private push(key: string, value: string, side: "LEFT" | "RIGHT"): number {
+    const { low, high } = this.db
+      .query("SELECT MIN(seq) AS low, MAX(seq) AS high FROM lists WHERE key = ?")
+      .get(key) as { low: number | null; high: number | null };
+    const seq = low === null || high === null ? 0 : side === "LEFT" ? low - 1 : high + 1;
+    this.db.query("INSERT INTO lists (key, seq, value) VALUES (?, ?, ?)").run(key, seq, value);
+    return this.length(key);
+  }
+
+  private pop(key: string, side: "LEFT" | "RIGHT"): string | null {
+    const order = side === "LEFT" ? "ASC" : "DESC";
+    const row = this.db
+      .query(`SELECT seq, value FROM lists WHERE key = ? ORDER BY seq ${order} LIMIT 1`)
+      .get(key) as { seq: number; value: string } | null;
+    if (!row) return null;
+    this.db.query("DELETE FROM lists WHERE key = ? AND seq = ?").run(key, row.seq);
+    return row.value;
+  }
+
+  private values(key: string): string[] {
+    return (this.db
+      .query("SELECT value FROM lists WHERE key = ? ORDER BY seq")
+      .all(key) as { value: string }[]).map((row) => row.value);
+  }
+
+  private length(key: string): number {
+    const { n } = this.db.query("SELECT COUNT(*) AS n FROM lists WHERE key = ?").get(key) as {
+      n: number;
+    };
+    return n;
+  }
+}
@@ -6,6 +6,8 @@ import {
   writeSessionState,
   readSessionState,
   ensureDirectories,
+  writeAgentUsage,
+  readAgentUsage,
 } from "./state-manager.ts";
 import type { IterationState, SessionState } from "./types.ts";
 
@@ -203,3 +205,14 @@ test("writeSessionState overwrites existing session", async () => {
   expect(read!.goal).toBe("Goal 2");
   expect(read!.status).toBe("completed");
 });
+
+test("writeAgentUsage and readAgentUsage round-trip", async () => {
+  const agentDir = `${tmpDir}/alice`;
+  expect(await readAgentUsage(agentDir)).toBeNull();
+
+  const usage = { input: 100, output: 50, cacheRead: 400, cacheWrite: 0, cost: 0.0012 };
+  await writeAgentUsage(agentDir, usage);
+  expect(await readAgentUsage(agentDir)).toEqual(usage);
+  // Stored beside the iteration states, which getLastCompletedStep ignores
+  expect(await getLastCompletedStep(agentDir)).toBeNull();
+});
@@ -2,6 +2,7 @@ import type {
   IterationState,
   SessionState,
   StepType,
+  TokenUsage,
 } from "./types.ts";
 
 const STEP_ORDER: StepType[] = ["plan", "execute", "plan-execute", "reflect"];
@@ -118,3 +119,33 @@ export async function readSessionState(
     return null;
   }
 }
+
+// ─── Agent Usage ─────────────────────────────────────────────────
+
+function usageFilePath(agentDir: string): string {
+  return `${agentDir}/state/usage.json`;
+}
+
+/**
+ * Persist an agent's cumulative token usage and cost. Written by the
+ * agent after every model call and read by the main process to track
+ * session spend.
+ */
+export async function writeAgentUsage(
+  agentDir: string,
+  usage: Required<TokenUsage>,
+): Promise<void> {
+  await Bun.$`mkdir -p ${agentDir}/state`.quiet();
+  await Bun.write(usageFilePath(agentDir), JSON.stringify(usage, null, 2));
+}
+
+export async function readAgentUsage(
+  agentDir: string,
+): Promise<Required<TokenUsage> | null> {
+  try {
+    const text = await Bun.file(usageFilePath(agentDir)).text();
+    return JSON.parse(text) as Required<TokenUsage>;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+import { test, expect, describe } from "bun:test";
+import {
+  PLAN_SCHEMA,
+  REFLECT_OUTPUT,
+  REFLECT_SCHEMA,
+  parseJsonText,
+  repairPrompt,
+  validateStructured,
+} from "./structured-output.ts";
+import type { PlanOutput } from "./types.ts";
+
+describe("validateStructured", () => {
+  test("accepts a valid plan and drops unknown fields", () => {
+    const { value, errors } = validateStructured<PlanOutput>(PLAN_SCHEMA, {
+      plan: "Write the file",
+      complexity: "simple",
+      steps: ["write"],
+      mood: "upbeat",
+    });
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ plan: "Write the file", complexity: "simple", steps: ["write"] });
+  });
+
+  test("repairs near misses", () => {
+    const { value, errors } = validateStructured(REFLECT_SCHEMA, {
+      decision: " Continue ",
+      summary: JSON.stringify({ iteration: "2", plan: "p", outcome: "o", filesChanged: "a.ts" }),
+      nextMessage: null,
+    });
+    expect(errors).toEqual([]);
+    expect(value).toEqual({
+      decision: "continue",
+      summary: { iteration: 2, plan: "p", outcome: "o", filesChanged: ["a.ts"] },
+    });
+  });
+
+  test("accepts booleans sent as text", () => {
+    const schema = { type: "object", properties: { done: { type: "boolean" } } } as const;
+    expect(validateStructured(schema, { done: " True " })).toEqual({ value: { done: true }, errors: [] });
+    expect(validateStructured(schema, { done: "yes" }).errors).toEqual([
+      '$.done: expected a boolean, got text "yes"',
+    ]);
+  });
+
+  test("parses a JSON object sent as text in a code block", () => {
+    const text = '```json\n{"plan": "p", "complexity": "complex"}\n```';
+    const { value, errors } = validateStructured<PlanOutput>(PLAN_SCHEMA, text);
+    expect(errors).toEqual([]);
+    expect(value.complexity).toBe("complex");
+  });
+
+  test("reports every problem with its path", () => {
+    const { errors } = validateStructured(REFLECT_SCHEMA, {
+      decision: "keep going",
+      summary: { plan: "p", iteration: 1.5 },
+    });
+    expect(errors).toEqual([
+      '$.decision: must be one of "continue", "complete", "error", got "keep going"',
+      "$.summary.iteration: expected an integer, got 1.5",
+      "$.summary.outcome: required",
+    ]);
+  });
+
+  test("rejects prose instead of an object", () => {
+    const { errors } = validateStructured(PLAN_SCHEMA, "I think we should write the file.");
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toStartWith("$: expected an object, got text");
+  });
+});
+
+describe("parseJsonText", () => {
+  test("returns undefined for text that is not JSON", () => {
+    expect(parseJsonText("not json")).toBeUndefined();
+    expect(parseJsonText(' {"a": 1} ')).toEqual({ a: 1 });
+  });
+});
+
+describe("repairPrompt", () => {
+  test("lists the errors and names the tool", () => {
+    const prompt = repairPrompt(REFLECT_OUTPUT, ["$.decision: required"]);
+    expect(prompt).toContain("- $.decision: required");
+    expect(prompt).toContain("Call submit_reflection again");
+  });
+});
@@ -0,0 +1,260 @@
+import type { IterationSummary, PlanOutput, ReflectDecision } from "./types.ts";
+import type { Tool } from "./claude-client.ts";
+
+// ─── Schemas ─────────────────────────────────────────────────────
+
+/**
+ * The subset of JSON Schema the plan and reflect outputs need. The same
+ * object is sent to the model as a tool's input_schema and used to
+ * validate what comes back.
+ */
+export interface JsonSchema {
+  type: "object" | "array" | "string" | "number" | "integer" | "boolean";
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+// One schema per field of T: adding a field to the type without adding
+// it here is a compile error.
+export type PropertiesOf<T> = { [K in keyof Required<T>]: JsonSchema };
+
+export const STRING_LIST: JsonSchema = { type: "array", items: { type: "string" } };
+
+const PLAN_PROPERTIES: PropertiesOf<PlanOutput> = {
+  plan: { type: "string", description: "What you will do this iteration" },
+  reasoning: { type: "string", description: "Why this is the right approach" },
+  complexity: {
+    type: "string",
+    enum: ["simple", "complex"],
+    description: '"simple" for a single straightforward action, otherwise "complex"',
+  },
+  steps: { ...STRING_LIST, description: "Ordered steps of the plan" },
+};
+
+const SUMMARY_PROPERTIES: PropertiesOf<IterationSummary> = {
+  iteration: { type: "integer" },
+  plan: { type: "string", description: "1-2 sentence summary of what was intended" },
+  outcome: { type: "string", description: "1-2 sentence summary of what actually happened" },
+  filesChanged: STRING_LIST,
+  decisions: { ...STRING_LIST, description: "Key decisions made" },
+};
+
+const REFLECT_PROPERTIES: PropertiesOf<ReflectDecision> = {
+  decision: { type: "string", enum: ["continue", "complete", "error"] },
+  summary: {
+    type: "object",
+    properties: SUMMARY_PROPERTIES,
+    required: ["plan", "outcome"] satisfies (keyof IterationSummary)[],
+  },
+  nextMessage: {
+    type: "string",
+    description: "If continuing, what to work on next (sent to your own queue)",
+  },
+  errorDetails: { type: "string", description: "If error, describe what went wrong" },
+  selfRecoveryAttempt: { type: "integer" },
+};
+
+export const PLAN_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: PLAN_PROPERTIES,
+  required: ["plan", "complexity"] satisfies (keyof PlanOutput)[],
+};
+
+export const REFLECT_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: REFLECT_PROPERTIES,
+  required: ["decision", "summary"] satisfies (keyof ReflectDecision)[],
+};
+
+// ─── Output Tools ────────────────────────────────────────────────
+
+/**
+ * A step output the model submits by calling a dedicated tool.
+ */
+export interface StructuredOutputSpec {
+  tool: Tool;
+  schema: JsonSchema;
+}
+
+export const PLAN_OUTPUT: StructuredOutputSpec = {
+  tool: {
+    name: "submit_plan",
+    description: "Submit your plan for this iteration.",
+    input_schema: PLAN_SCHEMA as Tool["input_schema"],
+  },
+  schema: PLAN_SCHEMA,
+};
+
+export const REFLECT_OUTPUT: StructuredOutputSpec = {
+  tool: {
+    name: "submit_reflection",
+    description: "Submit your reflection on this iteration and the decision for what happens next.",
+    input_schema: REFLECT_SCHEMA as Tool["input_schema"],
+  },
+  schema: REFLECT_SCHEMA,
+};
+
+/**
+ * Raised when a step's output is still invalid after the repair attempts.
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly step: string,
+    readonly errors: string[],
+  ) {
+    super(`Invalid ${step} output: ${errors.join("; ")}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+// ─── Validation and Repair ───────────────────────────────────────
+
+export interface ValidationResult<T> {
+  /** The repaired value; only meaningful when errors is empty. */
+  value: T;
+  errors: string[];
+}
+
+/**
+ * Check a value against a schema, repairing what can be repaired without
+ * guessing: JSON sent as a string (optionally in a code block) is parsed,
+ * enum values are trimmed and lowercased, numeric strings become numbers,
+ * "true" and "false" become booleans and a lone string becomes a
+ * one-item list. Unknown properties and
+ * nulls for optional fields are dropped. Everything else is reported as
+ * an error with its path.
+ */
+export function validateStructured<T>(schema: JsonSchema, raw: unknown): ValidationResult<T> {
+  const errors: string[] = [];
+  const value = coerce(schema, raw, "$", errors);
+  return { value: value as T, errors };
+}
+
+function coerce(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  switch (schema.type) {
+    case "object":
+      return coerceObject(schema, value, path, errors);
+    case "array":
+      return coerceArray(schema, value, path, errors);
+    case "string":
+      return coerceString(schema, value, path, errors);
+    case "number":
+    case "integer":
+      return coerceNumber(schema, value, path, errors);
+    case "boolean":
+      return coerceBoolean(value, path, errors);
+  }
+}
+
+function coerceObject(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value === "string") {
+    value = parseJsonText(value) ?? value;
+  }
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    errors.push(`${path}: expected an object, got ${describeValue(value)}`);
+    return value;
+  }
+
+  const input = value as Record<string, unknown>;
+  const out: Record<string, unknown> = {};
+  for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+    if (input[key] === undefined || input[key] === null) continue;
+    out[key] = coerce(propSchema, input[key], `${path}.${key}`, errors);
+  }
+  for (const key of schema.required ?? []) {
+    if (out[key] === undefined) {
+      errors.push(`${path}.${key}: required`);
+    }
+  }
+  return out;
+}
+
+function coerceArray(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value === "string") {
+    const parsed = parseJsonText(value);
+    value = Array.isArray(parsed) ? parsed : [value];
+  }
+  if (!Array.isArray(value)) {
+    errors.push(`${path}: expected an array, got ${describeValue(value)}`);
+    return value;
+  }
+  const items = schema.items;
+  return items ? value.map((item, i) => coerce(items, item, `${path}[${i}]`, errors)) : value;
+}
+
+function coerceString(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value === "number" || typeof value === "boolean") {
+    value = String(value);
+  }
+  if (typeof value !== "string") {
+    errors.push(`${path}: expected a string, got ${describeValue(value)}`);
+    return value;
+  }
+  if (schema.enum) {
+    const normalized = value.trim().toLowerCase();
+    if (!schema.enum.includes(normalized)) {
+      errors.push(`${path}: must be one of ${schema.enum.map((e) => `"${e}"`).join(", ")}, got "${value}"`);
+    }
+    return normalized;
+  }
+  return value;
+}
+
+function coerceNumber(schema: JsonSchema, value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value === "string" && value.trim() !== "") {
+    const n = Number(value);
+    if (Number.isFinite(n)) value = n;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push(`${path}: expected a number, got ${describeValue(value)}`);
+    return value;
+  }
+  if (schema.type === "integer" && !Number.isInteger(value)) {
+    errors.push(`${path}: expected an integer, got ${value}`);
+  }
+  return value;
+}
+
+function coerceBoolean(value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === "true" || normalized === "false") value = normalized === "true";
+  }
+  if (typeof value !== "boolean") {
+    errors.push(`${path}: expected a boolean, got ${describeValue(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Parse JSON from model text, unwrapping a markdown code block.
+ */
+export function parseJsonText(text: string): unknown {
+  const match = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    return JSON.parse(match ? match[1]!.trim() : text.trim());
+  } catch {
+    return undefined;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `text "${value.slice(0, 60)}"`;
+  return typeof value;
+}
+
+/**
+ * Message asking the model to resubmit after a failed validation.
+ */
+export function repairPrompt(spec: StructuredOutputSpec, errors: string[]): string {
+  return [
+    `Your output did not match the ${spec.tool.name} schema:`,
+    ...errors.map((e) => `- ${e}`),
+    `Call ${spec.tool.name} again with corrected input.`,
+  ].join("\n");
+}
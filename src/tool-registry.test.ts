@@ -18,7 +18,7 @@ afterEach(async () => {
 });
 
 describe("ToolRegistry", () => {
-  test("loadBuiltins registers all 8 tools", () => {
+  test("loadBuiltins registers all 13 tools", () => {
     const registry = new ToolRegistry();
     registry.loadBuiltins();
 
@@ -30,9 +30,12 @@ describe("ToolRegistry", () => {
     expect(tools).toContain("web-fetch");
     expect(tools).toContain("git");
     expect(tools).toContain("send-message");
+    expect(tools).toContain("ask-agent");
+    expect(tools).toContain("subscribe");
     expect(tools).toContain("spawn-agent");
+    expect(tools).toContain("merge-agent");
     expect(tools).toContain("create-tool");
-    expect(tools).toHaveLength(10);
+    expect(tools).toHaveLength(13);
   });
 
   test("getToolDefinitions filters by tool names", () => {
@@ -234,6 +237,6 @@ describe("ToolRegistry", () => {
 
     // No registry.json exists — should not throw
     await registry.scanDynamic(tmpDir);
-    expect(registry.listTools()).toHaveLength(10); // just builtins
+    expect(registry.listTools()).toHaveLength(13); // just builtins
   });
 });
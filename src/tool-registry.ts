@@ -7,6 +7,8 @@ import type { ToolUnion } from "./claude-client.ts";
 import type { Tool } from "@anthropic-ai/sdk/resources/messages/messages";
 import type { MessageQueue } from "./message-queue.ts";
 import type { SpawnContext } from "./tools/spawn-agent.ts";
+import { MergeCoordinator } from "./merge-coordinator.ts";
+import type { MergeCoordinatorOptions } from "./merge-coordinator.ts";
 
 import * as bashTool from "./tools/bash.ts";
 import * as readFileTool from "./tools/read-file.ts";
@@ -15,7 +17,10 @@ import * as webSearchTool from "./tools/web-search.ts";
 import * as webFetchTool from "./tools/web-fetch.ts";
 import * as gitTool from "./tools/git.ts";
 import * as sendMessageTool from "./tools/send-message.ts";
+import * as askAgentTool from "./tools/ask-agent.ts";
+import * as subscribeTool from "./tools/subscribe.ts";
 import * as spawnAgentTool from "./tools/spawn-agent.ts";
+import * as mergeAgentTool from "./tools/merge-agent.ts";
 import * as createToolTool from "./tools/create-tool.ts";
 import * as parseCsvTool from "./tools/parse-csv.ts";
 
@@ -59,14 +64,17 @@ export class ToolRegistry {
     this.builtinTools.set("web-fetch", webFetchTool);
     this.builtinTools.set("git", gitTool);
     this.builtinTools.set("send-message", sendMessageTool);
+    this.builtinTools.set("ask-agent", askAgentTool);
+    this.builtinTools.set("subscribe", subscribeTool);
     this.builtinTools.set("spawn-agent", spawnAgentTool);
+    this.builtinTools.set("merge-agent", mergeAgentTool);
     this.builtinTools.set("create-tool", createToolTool);
     this.builtinTools.set("parse-csv", parseCsvTool);
   }
 
   /**
-   * Bind context-dependent tools (git, send-message, spawn-agent) to
-   * a specific agent's environment. Call this after loadBuiltins().
+   * Bind context-dependent tools (git, send-message, ask-agent, subscribe, spawn-agent,
+   * merge-agent) to a specific agent's environment. Call this after loadBuiltins().
    */
   bindAgentContext(params: {
     agentName: string;
@@ -74,6 +82,7 @@ export class ToolRegistry {
     messageQueue: MessageQueue;
     workspacePath: string;
     spawnContext?: SpawnContext;
+    mergeContext?: MergeCoordinatorOptions;
   }): void {
     // Bind bash tool to agent's working directory
     this.builtinTools.set("bash", {
@@ -109,6 +118,18 @@ export class ToolRegistry {
       ),
     });
 
+    // Bind ask-agent to agent's name and queue
+    this.builtinTools.set("ask-agent", {
+      definition: askAgentTool.definition,
+      handler: askAgentTool.createHandler(params.agentName, params.messageQueue),
+    });
+
+    // Bind subscribe to agent's name and queue
+    this.builtinTools.set("subscribe", {
+      definition: subscribeTool.definition,
+      handler: subscribeTool.createHandler(params.agentName, params.messageQueue),
+    });
+
     // Bind spawn-agent if context provided (leader only)
     if (params.spawnContext) {
       this.builtinTools.set("spawn-agent", {
@@ -117,6 +138,14 @@ export class ToolRegistry {
       });
     }
 
+    // Bind merge-agent if context provided (leader only)
+    if (params.mergeContext) {
+      this.builtinTools.set("merge-agent", {
+        definition: mergeAgentTool.definition,
+        handler: mergeAgentTool.createHandler(new MergeCoordinator(params.mergeContext)),
+      });
+    }
+
     // Bind parse-csv to agent's working directory
     this.builtinTools.set("parse-csv", {
       definition: parseCsvTool.definition,
@@ -0,0 +1,55 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { definition, createHandler } from "./ask-agent.ts";
+import { MessageQueue } from "../message-queue.ts";
+import { MockRedis } from "../mock-redis.ts";
+
+const prefix = `test-${crypto.randomUUID().slice(0, 8)}`;
+let mq: MessageQueue;
+
+beforeEach(() => {
+  mq = new MessageQueue(new MockRedis());
+});
+
+afterEach(() => {
+  mq.close();
+});
+
+describe("ask-agent tool", () => {
+  test("definition has correct name", () => {
+    expect(definition.name).toBe("ask-agent");
+  });
+
+  test("sends a question and returns the reply", async () => {
+    const asker = `${prefix}-alice`;
+    const answerer = `${prefix}-bob`;
+    const handler = createHandler(asker, mq);
+
+    const pending = handler({ to: answerer, question: "What does GET /items return?" });
+    const question = await mq.receive(answerer, 1);
+    expect(question!.type).toBe("question");
+    expect(question!.replyTo).toBe(asker);
+
+    await mq.send({
+      id: crypto.randomUUID(),
+      from: answerer,
+      to: asker,
+      type: "reply",
+      content: "{id, text, done}[]",
+      timestamp: Date.now(),
+      correlationId: question!.correlationId,
+    });
+    expect(await pending).toBe(`Reply from ${answerer}: {id, text, done}[]`);
+  });
+
+  test("reports a timeout", async () => {
+    const handler = createHandler(`${prefix}-alice`, mq);
+    const result = await handler({ to: `${prefix}-bob`, question: "Hello?", timeoutSeconds: 0.01 });
+    expect(result).toContain("No reply");
+  });
+
+  test("refuses to ask itself or a broadcast queue", async () => {
+    const handler = createHandler(`${prefix}-alice`, mq);
+    expect(await handler({ to: `${prefix}-alice`, question: "?" })).toStartWith("Error");
+    expect(await handler({ to: "shared", question: "?" })).toStartWith("Error");
+  });
+});
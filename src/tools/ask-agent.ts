@@ -0,0 +1,76 @@
+import type { ToolDefinition, QueueMessage } from "../types.ts";
+import type { MessageQueue } from "../message-queue.ts";
+
+const DEFAULT_TIMEOUT_SECONDS = 120;
+const MAX_TIMEOUT_SECONDS = 600;
+
+export const definition: ToolDefinition = {
+  name: "ask-agent",
+  description:
+    "Ask another agent a question and wait for their reply, e.g. to agree on an interface before building against it. Blocks until the reply arrives or the timeout passes. Other messages that arrive meanwhile stay queued for your next iteration.",
+  input_schema: {
+    type: "object",
+    properties: {
+      to: {
+        type: "string",
+        description: "Name of the agent to ask",
+      },
+      question: {
+        type: "string",
+        description: "The question; be specific about what you need back",
+      },
+      timeoutSeconds: {
+        type: "number",
+        description: `How long to wait for the reply (default ${DEFAULT_TIMEOUT_SECONDS}, max ${MAX_TIMEOUT_SECONDS})`,
+      },
+    },
+    required: ["to", "question"],
+  },
+};
+
+/**
+ * Create a handler bound to a specific agent name and message queue.
+ */
+export function createHandler(agentName: string, messageQueue: MessageQueue) {
+  return async (input: Record<string, unknown>): Promise<string> => {
+    const to = input.to as string;
+    const question = input.question as string;
+    const timeoutSeconds = Math.min(
+      Number(input.timeoutSeconds) || DEFAULT_TIMEOUT_SECONDS,
+      MAX_TIMEOUT_SECONDS,
+    );
+
+    if (to === agentName) {
+      return "Error: you cannot ask yourself.";
+    }
+    if (to === "shared" || to === "main") {
+      return `Error: ask-agent needs a single agent name; use send-message to reach "${to}".`;
+    }
+
+    const message: QueueMessage = {
+      id: crypto.randomUUID(),
+      from: agentName,
+      to,
+      type: "question",
+      content: question,
+      timestamp: Date.now(),
+    };
+    const reply = await messageQueue.request(message, timeoutSeconds * 1000);
+    if (!reply) {
+      return `No reply from ${to} within ${timeoutSeconds}s. If they answer later, the reply arrives as a normal message.`;
+    }
+    return `Reply from ${to}: ${reply.content}`;
+  };
+}
+
+/**
+ * Default handler — requires context via createHandler.
+ */
+export async function handler(
+  _input: Record<string, unknown>,
+): Promise<string> {
+  throw new Error(
+    "ask-agent requires a bound handler created via createHandler(). " +
+      "The tool registry should set this up with the agent's message queue.",
+  );
+}
@@ -0,0 +1,70 @@
+import { test, expect, describe } from "bun:test";
+import { definition, createHandler, handler } from "./merge-agent.ts";
+import type { MergeCoordinator, MergeOptions, MergeReport } from "../merge-coordinator.ts";
+
+/** A coordinator that records its calls and answers with `report`. */
+function coordinator(report: MergeReport, calls: [string, MergeOptions][] = []): MergeCoordinator {
+  return {
+    merge: async (agent: string, options: MergeOptions = {}) => {
+      calls.push([agent, options]);
+      return report;
+    },
+  } as unknown as MergeCoordinator;
+}
+
+const CONFLICT: MergeReport = {
+  agent: "alice",
+  ref: "alice/agent/alice",
+  status: "conflict",
+  filesChanged: ["app.ts"],
+  conflicts: [{
+    file: "app.ts",
+    kind: "both modified",
+    regions: 1,
+    hunks: [{ file: "app.ts", line: 1, ours: { text: "a" }, base: null, theirs: { text: "b", agent: "alice" } }],
+  }],
+  sentTo: ["carol"],
+};
+
+describe("merge-agent tool", () => {
+  test("definition has correct name and requires an agent", () => {
+    expect(definition.name).toBe("merge-agent");
+    expect(definition.input_schema.required).toEqual(["agent"]);
+  });
+
+  test("passes the agent, commit and resolve mode to the coordinator", async () => {
+    const calls: [string, MergeOptions][] = [];
+    const merge = createHandler(coordinator(CONFLICT, calls));
+
+    await merge({ agent: "alice", commit: "abc1234", resolve: "owner" });
+    await merge({ agent: "alice", commit: "" });
+
+    expect(calls).toEqual([
+      ["alice", { commit: "abc1234", resolve: "owner" }],
+      ["alice", { commit: undefined, resolve: undefined }],
+    ]);
+  });
+
+  test("returns the coordinator's report as JSON", async () => {
+    const result = await createHandler(coordinator(CONFLICT))({ agent: "alice", resolve: "owner" });
+    expect(JSON.parse(result)).toEqual(CONFLICT);
+  });
+
+  test("rejects a missing agent", async () => {
+    const calls: [string, MergeOptions][] = [];
+    const result = await createHandler(coordinator(CONFLICT, calls))({});
+    expect(result).toBe("Error: agent is required.");
+    expect(calls).toHaveLength(0);
+  });
+
+  test("rejects an invalid resolve mode", async () => {
+    const calls: [string, MergeOptions][] = [];
+    const result = await createHandler(coordinator(CONFLICT, calls))({ agent: "alice", resolve: "theirs" });
+    expect(result).toBe('Error: resolve must be "owner" or "model", got "theirs".');
+    expect(calls).toHaveLength(0);
+  });
+
+  test("default handler throws without a coordinator", async () => {
+    await expect(handler({ agent: "alice" })).rejects.toThrow("createHandler");
+  });
+});
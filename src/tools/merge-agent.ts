@@ -0,0 +1,60 @@
+import type { ToolDefinition } from "../types.ts";
+import type { ConflictResolution, MergeCoordinator } from "../merge-coordinator.ts";
+
+export const definition: ToolDefinition = {
+  name: "merge-agent",
+  description:
+    "Merge an agent's branch into your branch. Fetches it, test-merges it, runs the session's verification command, and commits only if the merge is clean and verification passes; otherwise nothing changes. Returns a JSON report with status merged, up-to-date, conflict, verification-failed or refused, plus the conflicting files or the verification output. Leader-only tool.",
+  input_schema: {
+    type: "object",
+    properties: {
+      agent: {
+        type: "string",
+        description: "Name of the agent whose branch to merge",
+      },
+      commit: {
+        type: "string",
+        description:
+          "Merge this commit of the agent's branch instead of its tip, e.g. the commit from its complete message",
+      },
+      resolve: {
+        type: "string",
+        enum: ["owner", "model"],
+        description:
+          'On conflict: "owner" sends each file owner (per PLAN.md) its conflicting hunks as a review message; "model" has a model merge both sides of every hunk, then verifies and commits with the resolutions recorded. Omit to only report the hunks.',
+      },
+    },
+    required: ["agent"],
+  },
+};
+
+/**
+ * Create a handler bound to the leader's merge coordinator.
+ */
+export function createHandler(coordinator: MergeCoordinator) {
+  return async (input: Record<string, unknown>): Promise<string> => {
+    const agent = input.agent as string;
+    const commit = (input.commit as string | undefined) || undefined;
+    const resolve = input.resolve as ConflictResolution | undefined;
+    if (!agent) {
+      return "Error: agent is required.";
+    }
+    if (resolve !== undefined && resolve !== "owner" && resolve !== "model") {
+      return `Error: resolve must be "owner" or "model", got "${resolve}".`;
+    }
+    const report = await coordinator.merge(agent, { commit, resolve });
+    return JSON.stringify(report, null, 2);
+  };
+}
+
+/**
+ * Default handler — requires context via createHandler.
+ */
+export async function handler(
+  _input: Record<string, unknown>,
+): Promise<string> {
+  throw new Error(
+    "merge-agent requires a bound handler created via createHandler(). " +
+      "The tool registry should set this up for the leader.",
+  );
+}
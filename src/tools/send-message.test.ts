@@ -47,6 +47,41 @@ describe("send-message tool", () => {
     expect(msg!.type).toBe("task");
   });
 
+  test("attaches the correlationId of the question being answered", async () => {
+    const handler = createHandler(`${prefix}-bob`, mq, tmpDir);
+    await handler({ to: `${prefix}-alice`, type: "reply", content: "3000", correlationId: "c-1" });
+
+    const msg = await mq.receiveNonBlocking(`${prefix}-alice`);
+    expect(msg!.type).toBe("reply");
+    expect(msg!.correlationId).toBe("c-1");
+  });
+
+  test("validates the payload of typed messages and renders it as content", async () => {
+    const handler = createHandler(`${prefix}-alice`, mq, tmpDir);
+    const result = await handler({
+      to: `${prefix}-bob`,
+      type: "complete",
+      payload: { summary: "API built", branch: "agent/alice", filesChanged: ["api.ts"] },
+    });
+
+    expect(result).toContain("Message sent");
+    const msg = await mq.receiveNonBlocking(`${prefix}-bob`);
+    expect(msg!.payload).toEqual({ summary: "API built", branch: "agent/alice", filesChanged: ["api.ts"] });
+    expect(msg!.content).toBe("Summary: API built\nBranch: agent/alice\nFiles changed: api.ts");
+  });
+
+  test("rejects typed messages with a missing or invalid payload", async () => {
+    const handler = createHandler(`${prefix}-alice`, mq, tmpDir);
+
+    expect(await handler({ to: `${prefix}-bob`, type: "error", content: "It broke" }))
+      .toBe('Error: type "error" needs a payload.');
+    expect(await handler({ to: `${prefix}-bob`, type: "review", payload: { verdict: "approve" } }))
+      .toBe("Error: invalid review payload:\n- $.comments: required");
+    expect(await handler({ to: `${prefix}-bob`, type: "task" }))
+      .toBe('Error: type "task" needs content.');
+    expect(await mq.receiveNonBlocking(`${prefix}-bob`)).toBeNull();
+  });
+
   test("sends shared message via fan-out", async () => {
     const bobName = `${prefix}-bob`;
     const aliceName = `${prefix}-alice`;
@@ -1,17 +1,18 @@
 import type { ToolDefinition, QueueMessage, MessageType } from "../types.ts";
 import type { MessageQueue } from "../message-queue.ts";
+import { isPayloadType, renderPayload, validatePayload } from "../message-payloads.ts";
 
 export const definition: ToolDefinition = {
   name: "send-message",
   description:
-    'Send a message to another agent\'s queue, the shared queue (all agents), or the main process. Use "shared" to broadcast to all active agents.',
+    'Send a message to another agent\'s queue, a channel, the shared queue (all agents), or the main process. Use "#channel" (e.g. "#api-contracts") to reach only that channel\'s subscribers, and "shared" to broadcast to all active agents.',
   input_schema: {
     type: "object",
     properties: {
       to: {
         type: "string",
         description:
-          'Recipient: an agent name, "shared" for all agents, or "main" for the main process',
+          'Recipient: an agent name, "#channel" for a channel\'s subscribers, "shared" for all agents, or "main" for the main process',
       },
       type: {
         type: "string",
@@ -23,15 +24,28 @@ export const definition: ToolDefinition = {
           "error",
           "cancel",
           "all-complete",
+          "question",
+          "reply",
         ],
         description: "Message type",
       },
       content: {
         type: "string",
-        description: "Message body",
+        description:
+          "Message body; optional for complete, review and error, which default to a rendering of the payload",
+      },
+      payload: {
+        type: "object",
+        description:
+          'Required for complete, review and error. complete: {summary, branch?, commit?, filesChanged?}. review: {verdict: "approve"|"request-changes"|"comment", comments: [{comment, file?, line?}]}. error: {details, recoverable: boolean}',
+      },
+      correlationId: {
+        type: "string",
+        description:
+          'When answering a question, its correlationId (use type "reply"), so the reply reaches the agent waiting for it',
       },
     },
-    required: ["to", "type", "content"],
+    required: ["to", "type"],
   },
 };
 
@@ -46,7 +60,23 @@ export function createHandler(
   return async (input: Record<string, unknown>): Promise<string> => {
     const to = input.to as string;
     const type = input.type as MessageType;
-    const content = input.content as string;
+    let content = input.content as string | undefined;
+    const correlationId = input.correlationId as string | undefined;
+
+    let payload: QueueMessage["payload"];
+    if (isPayloadType(type)) {
+      if (input.payload === undefined || input.payload === null) {
+        return `Error: type "${type}" needs a payload.`;
+      }
+      const { value, errors } = validatePayload(type, input.payload);
+      if (errors.length > 0) {
+        return `Error: invalid ${type} payload:\n${errors.map((e) => `- ${e}`).join("\n")}`;
+      }
+      payload = value;
+      content ??= renderPayload(type, value);
+    } else if (typeof content !== "string") {
+      return `Error: type "${type}" needs content.`;
+    }
 
     const message: QueueMessage = {
       id: crypto.randomUUID(),
@@ -55,6 +85,8 @@ export function createHandler(
       type,
       content,
       timestamp: Date.now(),
+      ...(correlationId ? { correlationId } : {}),
+      ...(payload ? { payload } : {}),
     };
 
     await messageQueue.send(message, workspacePath);
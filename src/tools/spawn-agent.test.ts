@@ -3,7 +3,7 @@ import { definition, createHandler } from "./spawn-agent.ts";
 import type { SpawnContext } from "./spawn-agent.ts";
 import { initRepo, createGitignore, commitAll } from "../git-manager.ts";
 import { readSessionState, writeSessionState } from "../state-manager.ts";
-import type { SessionState } from "../types.ts";
+import type { AgentConfig, SessionState } from "../types.ts";
 
 let tmpDir: string;
 
@@ -159,5 +159,162 @@ describe("spawn-agent tool", () => {
     expect(agent!.config.model).toBe("claude-sonnet-4-6");
     expect(agent!.config.tokenBudget).toBe(50000);
     expect(agent!.config.maxIterations).toBe(25);
+    expect(agent!.config.thinkingBudgets).toBeUndefined();
+  });
+
+  test("passes thinking budgets through to the agent config", async () => {
+    const launched: AgentConfig[] = [];
+    const handler = createHandler({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      defaultModel: "claude-sonnet-4-6",
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      spawnCommand: [],
+      launch: (config) => {
+        launched.push(config);
+        // No such process, so cleanup's kill is a no-op
+        return 999_999_999;
+      },
+    });
+
+    await handler({
+      name: "dana",
+      role: "architect",
+      purpose: "Design the schema",
+      tools: ["write-file"],
+      thinkingBudgets: { plan: 4096 },
+    });
+
+    expect(launched[0]!.thinkingBudgets).toEqual({ plan: 4096 });
+  });
+
+  test("gives workers the session fallback chain unless one is passed", async () => {
+    const launched: AgentConfig[] = [];
+    const handler = createHandler({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      defaultModel: "claude-sonnet-4-6",
+      defaultFallbackModels: ["claude-haiku-4-5"],
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      spawnCommand: [],
+      launch: (config) => {
+        launched.push(config);
+        return 999_999_999;
+      },
+    });
+
+    await handler({ name: "erin", role: "writer", purpose: "Write", tools: ["write-file"] });
+    await handler({
+      name: "finn",
+      role: "writer",
+      purpose: "Write",
+      tools: ["write-file"],
+      fallbackModels: ["openai:gpt-4.1"],
+    });
+
+    expect(launched[0]!.fallbackModels).toEqual(["claude-haiku-4-5"]);
+    expect(launched[1]!.fallbackModels).toEqual(["openai:gpt-4.1"]);
+  });
+
+  test("passes channel subscriptions to the agent config", async () => {
+    const launched: AgentConfig[] = [];
+    const handler = createHandler({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      defaultModel: "claude-sonnet-4-6",
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      spawnCommand: [],
+      launch: (config) => {
+        launched.push(config);
+        return 999_999_999;
+      },
+    });
+
+    await handler({
+      name: "gail",
+      role: "tester",
+      purpose: "Test the API",
+      tools: ["bash"],
+      channels: ["api-contracts"],
+      channelHistory: true,
+    });
+    await handler({ name: "hank", role: "writer", purpose: "Write", tools: ["write-file"] });
+
+    expect(launched[0]).toMatchObject({ channels: ["api-contracts"], channelHistory: true });
+    expect(launched[1]!.channels).toBeUndefined();
+  });
+
+  test("puts the agent in the leader's session namespace", async () => {
+    const launched: AgentConfig[] = [];
+    const handler = createHandler({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      sessionId: "3f9c2a1b",
+      defaultModel: "claude-sonnet-4-6",
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      spawnCommand: [],
+      launch: (config) => {
+        launched.push(config);
+        return 999_999_999;
+      },
+    });
+
+    await handler({ name: "ivan", role: "writer", purpose: "Write", tools: ["write-file"] });
+
+    expect(launched[0]!.sessionId).toBe("3f9c2a1b");
+  });
+
+  test("syncs agents with main only when a sync mode is set", async () => {
+    const launched: AgentConfig[] = [];
+    const context = (sync?: SpawnContext["sync"]): SpawnContext => ({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      defaultModel: "claude-sonnet-4-6",
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      ...(sync ? { sync } : {}),
+      spawnCommand: [],
+      launch: (config) => {
+        launched.push(config);
+        return 999_999_999;
+      },
+    });
+
+    await createHandler(context())({ name: "kim", role: "writer", purpose: "Write", tools: ["write-file"] });
+    await createHandler(context("off"))({ name: "lee", role: "writer", purpose: "Write", tools: ["write-file"] });
+    await createHandler(context("rebase"))({ name: "max", role: "writer", purpose: "Write", tools: ["write-file"] });
+
+    expect(launched.map((c) => c.sync)).toEqual([undefined, undefined, "rebase"]);
+  });
+
+  test("gives the agent a worktree and records it in the session", async () => {
+    const handler = createHandler({
+      workspacePath: tmpDir,
+      valkeyUrl: "valkey://localhost:6379",
+      defaultModel: "claude-sonnet-4-6",
+      defaultBudget: 50000,
+      defaultMaxIterations: 25,
+      maxWorkers: 6,
+      worktrees: true,
+      spawnCommand: [],
+      launch: () => 999_999_999,
+    });
+
+    const result = await handler({ name: "judy", role: "writer", purpose: "Write", tools: ["write-file"] });
+
+    expect(result).toContain('Agent "judy" spawned');
+    const gitFile = await Bun.file(`${tmpDir}/judy/.git`).text();
+    expect(gitFile).toContain(`${tmpDir}/bob/.git/worktrees/judy`);
+    const session = await readSessionState(tmpDir);
+    expect(session!.agents[0]!.worktree).toBe(`${tmpDir}/judy`);
   });
 });
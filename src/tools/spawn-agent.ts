@@ -2,13 +2,14 @@ import type {
   ToolDefinition,
   AgentConfig,
   SessionState,
+  SyncMode,
 } from "../types.ts";
 import {
   readSessionState,
   writeSessionState,
   ensureDirectories,
 } from "../state-manager.ts";
-import { cloneForAgent } from "../git-manager.ts";
+import { addAgentWorktree, cloneForAgent } from "../git-manager.ts";
 
 export const definition: ToolDefinition = {
   name: "spawn-agent",
@@ -51,6 +52,34 @@ export const definition: ToolDefinition = {
         type: "number",
         description: "Maximum loop iterations (default: from config)",
       },
+      thinkingBudgets: {
+        type: "object",
+        properties: {
+          plan: { type: "number" },
+          execute: { type: "number" },
+          "plan-execute": { type: "number" },
+          reflect: { type: "number" },
+        },
+        description:
+          "Extended-thinking token budget per step (minimum 1024), e.g. {\"plan\": 4096} for an agent making design decisions. Thinking counts against tokenBudget. Default: no thinking",
+      },
+      fallbackModels: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Models to switch to, in order, when the agent's model is overloaded or rate limited (default: the session's fallback chain)",
+      },
+      channels: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          'Channels the agent subscribes to, e.g. ["api-contracts"]; it receives messages sent to "#api-contracts"',
+      },
+      channelHistory: {
+        type: "boolean",
+        description:
+          "Also deliver messages published on those channels before the agent started (default: false)",
+      },
     },
     required: ["name", "role", "purpose", "tools"],
   },
@@ -59,11 +88,22 @@ export const definition: ToolDefinition = {
 export interface SpawnContext {
   workspacePath: string;
   valkeyUrl: string;
+  sessionId?: string;
   defaultModel: string;
+  defaultFallbackModels?: string[];
   defaultBudget: number;
   defaultMaxIterations: number;
   maxWorkers: number;
+  /** Give agents worktrees of the leader's repo instead of clones. */
+  worktrees?: boolean;
+  /** How agents sync with main before each iteration (--sync, default "merge"); unset means "off". */
+  sync?: SyncMode;
   spawnCommand: string[];
+  /**
+   * Start the agent and return its PID. Defaults to running
+   * spawnCommand as a subprocess; tests run agents in-process.
+   */
+  launch?: (config: AgentConfig) => number;
 }
 
 /**
@@ -79,6 +119,11 @@ export function createHandler(ctx: SpawnContext) {
     const tokenBudget = (input.tokenBudget as number) || ctx.defaultBudget;
     const maxIterations =
       (input.maxIterations as number) || ctx.defaultMaxIterations;
+    const thinkingBudgets = input.thinkingBudgets as AgentConfig["thinkingBudgets"];
+    const fallbackModels =
+      (input.fallbackModels as string[] | undefined) ?? ctx.defaultFallbackModels;
+    const channels = input.channels as string[] | undefined;
+    const channelHistory = input.channelHistory === true;
 
     // Check worker limit
     const session = await readSessionState(ctx.workspacePath);
@@ -99,33 +144,45 @@ export function createHandler(ctx: SpawnContext) {
       model,
       tokenBudget,
       maxIterations,
+      ...(thinkingBudgets ? { thinkingBudgets } : {}),
+      ...(fallbackModels?.length ? { fallbackModels } : {}),
+      ...(channels?.length ? { channels, channelHistory } : {}),
+      ...(ctx.sync && ctx.sync !== "off" ? { sync: ctx.sync } : {}),
       workspacePath: ctx.workspacePath,
       valkeyUrl: ctx.valkeyUrl,
+      ...(ctx.sessionId ? { sessionId: ctx.sessionId } : {}),
     };
 
-    // Ensure logs directory exists (agent dir is created by git clone)
+    // Ensure logs directory exists (agent dir is created by git clone or worktree add)
     await Bun.$`mkdir -p ${ctx.workspacePath}/logs`.quiet();
 
-    // Clone leader's repo for the agent
+    // Clone leader's repo for the agent, or check its branch out in a worktree
     const leaderDir = `${ctx.workspacePath}/bob`;
     const agentDir = `${ctx.workspacePath}/${name}`;
     try {
-      await cloneForAgent(leaderDir, agentDir, name);
+      if (ctx.worktrees) {
+        await addAgentWorktree(leaderDir, agentDir, name);
+      } else {
+        await cloneForAgent(leaderDir, agentDir, name);
+      }
       // Create state directory inside the clone
       await Bun.$`mkdir -p ${agentDir}/state`.quiet();
     } catch (err) {
-      return `Error cloning repo for agent: ${err instanceof Error ? err.message : String(err)}`;
+      const action = ctx.worktrees ? "creating worktree" : "cloning repo";
+      return `Error ${action} for agent: ${err instanceof Error ? err.message : String(err)}`;
     }
 
     // Spawn the subprocess (inherit stdio so agent logs appear in terminal)
-    const proc = Bun.spawn(ctx.spawnCommand, {
-      env: {
-        ...process.env,
-        AGENT_CONFIG: JSON.stringify(agentConfig),
-      },
-      stdout: "inherit",
-      stderr: "inherit",
-    });
+    const pid = ctx.launch
+      ? ctx.launch(agentConfig)
+      : Bun.spawn(ctx.spawnCommand, {
+          env: {
+            ...process.env,
+            AGENT_CONFIG: JSON.stringify(agentConfig),
+          },
+          stdout: "inherit",
+          stderr: "inherit",
+        }).pid;
 
     // Update session state
     const currentSession =
@@ -141,14 +198,15 @@ export function createHandler(ctx: SpawnContext) {
 
     currentSession.agents.push({
       config: agentConfig,
-      pid: proc.pid,
+      pid,
       status: "running",
       startTime: Date.now(),
+      ...(ctx.worktrees ? { worktree: agentDir } : {}),
     });
 
     await writeSessionState(ctx.workspacePath, currentSession);
 
-    return `Agent "${name}" spawned (PID: ${proc.pid}, role: ${role}, model: ${model})`;
+    return `Agent "${name}" spawned (PID: ${pid}, role: ${role}, model: ${model})`;
   };
 }
 
@@ -0,0 +1,55 @@
+import { test, expect, describe, beforeEach, afterEach } from "bun:test";
+import { definition, createHandler } from "./subscribe.ts";
+import { MessageQueue } from "../message-queue.ts";
+import { MockRedis } from "../mock-redis.ts";
+import type { QueueMessage } from "../types.ts";
+
+const prefix = `test-${crypto.randomUUID().slice(0, 8)}`;
+let mq: MessageQueue;
+
+function publish(from: string, channel: string, content: string): Promise<void> {
+  const message: QueueMessage = {
+    id: crypto.randomUUID(),
+    from,
+    to: `#${channel}`,
+    type: "status",
+    content,
+    timestamp: Date.now(),
+  };
+  return mq.send(message);
+}
+
+beforeEach(() => {
+  mq = new MessageQueue(new MockRedis());
+});
+
+afterEach(() => {
+  mq.close();
+});
+
+describe("subscribe tool", () => {
+  test("definition has correct name", () => {
+    expect(definition.name).toBe("subscribe");
+  });
+
+  test("subscribes with history and unsubscribes", async () => {
+    const agent = `${prefix}-alice`;
+    const handler = createHandler(agent, mq);
+    await publish("bob", "api-contracts", "GET /items");
+
+    const result = await handler({ channels: ["api-contracts"], history: true });
+    expect(result).toContain("Subscribed to api-contracts");
+    expect(result).toContain("1 earlier message");
+    expect((await mq.receiveNonBlocking(agent))?.channel).toBe("api-contracts");
+
+    expect(await handler({ channels: ["api-contracts"], unsubscribe: true })).toStartWith("Unsubscribed");
+    await publish("bob", "api-contracts", "POST /items");
+    expect(await mq.receiveNonBlocking(agent)).toBeNull();
+  });
+
+  test("reports invalid input as an error", async () => {
+    const handler = createHandler(`${prefix}-alice`, mq);
+    expect(await handler({ channels: [] })).toStartWith("Error");
+    expect(await handler({ channels: ["bad name"] })).toContain("Invalid channel name");
+  });
+});
@@ -0,0 +1,68 @@
+import type { ToolDefinition } from "../types.ts";
+import type { MessageQueue } from "../message-queue.ts";
+
+export const definition: ToolDefinition = {
+  name: "subscribe",
+  description:
+    'Subscribe to (or unsubscribe from) message channels. Messages sent to "#channel" reach only its subscribers, so follow just the channels relevant to your work.',
+  input_schema: {
+    type: "object",
+    properties: {
+      channels: {
+        type: "array",
+        items: { type: "string" },
+        description: 'Channel names, e.g. ["api-contracts", "design"]',
+      },
+      history: {
+        type: "boolean",
+        description:
+          "Also deliver messages already published on these channels (default: false)",
+      },
+      unsubscribe: {
+        type: "boolean",
+        description: "Stop receiving these channels instead (default: false)",
+      },
+    },
+    required: ["channels"],
+  },
+};
+
+/**
+ * Create a handler bound to a specific agent name and message queue.
+ */
+export function createHandler(agentName: string, messageQueue: MessageQueue) {
+  return async (input: Record<string, unknown>): Promise<string> => {
+    const channels = input.channels as string[];
+    if (!Array.isArray(channels) || channels.length === 0) {
+      return "Error: channels must list at least one channel name.";
+    }
+
+    try {
+      if (input.unsubscribe === true) {
+        await messageQueue.unsubscribe(agentName, channels);
+        return `Unsubscribed from ${channels.join(", ")}`;
+      }
+      const replayed = await messageQueue.subscribe(agentName, channels, {
+        history: input.history === true,
+      });
+      const history = replayed > 0
+        ? ` ${replayed} earlier message(s) will arrive in your next iterations.`
+        : "";
+      return `Subscribed to ${channels.join(", ")}.${history}`;
+    } catch (err) {
+      return `Error: ${err instanceof Error ? err.message : String(err)}`;
+    }
+  };
+}
+
+/**
+ * Default handler — requires context via createHandler.
+ */
+export async function handler(
+  _input: Record<string, unknown>,
+): Promise<string> {
+  throw new Error(
+    "subscribe requires a bound handler created via createHandler(). " +
+      "The tool registry should set this up with the agent's message queue.",
+  );
+}
@@ -7,7 +7,24 @@ export type MessageType =
   | "complete"
   | "error"
   | "cancel"
-  | "all-complete";
+  | "all-complete"
+  | "question"
+  | "reply";
+
+/**
+ * How a worker brings the leader's main branch into its own at the start
+ * of each iteration (see syncWithMain).
+ */
+export type SyncMode = "off" | "merge" | "rebase";
+
+/** What a full agent queue does with another message (see QueueLimit). */
+export type QueueOverflow = "reject" | "coalesce";
+
+/**
+ * Lane of an agent's queue. Receivers drain "control" (cancels and the
+ * leader's directives) first, then "normal", then "bulk" (fan-out).
+ */
+export type MessagePriority = "control" | "normal" | "bulk";
 
 export interface QueueMessage {
   id: string;
@@ -16,6 +33,85 @@ export interface QueueMessage {
   type: MessageType;
   content: string;
   timestamp: number;
+  /** Pairs a question with its reply (see MessageQueue.request). */
+  correlationId?: string;
+  /** Agent waiting for the reply to this question. */
+  replyTo?: string;
+  /** Channel the message was published on, for copies sent to "#channel". */
+  channel?: string;
+  /** Lane the message was delivered in; resolved on send when unset. */
+  priority?: MessagePriority;
+  /**
+   * Failed deliveries so far: runs that crashed before acknowledging it,
+   * and retries after errors. Unset until the first failure.
+   */
+  attempts?: number;
+  /**
+   * Structured data of "complete", "review" and "error" messages, whose
+   * content is then a prose rendering of it.
+   */
+  payload?: MessagePayload;
+  /**
+   * Number of messages merged into this one because the recipient's
+   * queue was full; their contents are joined in order.
+   */
+  coalesced?: number;
+}
+
+/** Payload of a "complete" message. */
+export interface CompletePayload {
+  summary: string;
+  /** Branch holding the agent's work, e.g. "agent/alice". */
+  branch?: string;
+  /** Commit the branch was at when the agent finished. */
+  commit?: string;
+  filesChanged?: string[];
+  /** Set when the agent stopped because it was cancelled. */
+  cancelled?: boolean;
+}
+
+export type ReviewVerdict = "approve" | "request-changes" | "comment";
+
+export interface ReviewComment {
+  comment: string;
+  file?: string;
+  line?: number;
+}
+
+/** Payload of a "review" message. */
+export interface ReviewPayload {
+  verdict: ReviewVerdict;
+  comments: ReviewComment[];
+}
+
+/** Payload of an "error" message. */
+export interface ErrorPayload {
+  details: string;
+  /** Whether the sender expects to carry on, e.g. after a retry. */
+  recoverable: boolean;
+}
+
+/** The payload each typed message type carries. */
+export interface MessagePayloads {
+  complete: CompletePayload;
+  review: ReviewPayload;
+  error: ErrorPayload;
+}
+
+export type PayloadMessageType = keyof MessagePayloads;
+
+export type MessagePayload = MessagePayloads[PayloadMessageType];
+
+/** A message given up on, kept in its recipient's dead-letter queue. */
+export interface DeadLetter {
+  agent: string;
+  reason: string;
+  /** When it was dead-lettered, ms since the epoch. */
+  at: number;
+  /** Unset if the payload was not a valid message; see `raw`. */
+  message?: QueueMessage;
+  /** The payload as queued, kept only when it could not be parsed. */
+  raw?: string;
 }
 
 // ─── Agent Configuration ─────────────────────────────────────────
@@ -29,8 +125,31 @@ export interface AgentConfig {
   tokenBudget: number;
   maxIterations: number;
   maxToolTurns?: number;
+  /**
+   * Extended-thinking budget in tokens per life-loop step. Steps without
+   * an entry run without thinking. Thinking tokens are billed as output
+   * and count against tokenBudget.
+   */
+  thinkingBudgets?: Partial<Record<StepType, number>>;
+  /**
+   * Models tried in order when `model` is overloaded (529) or stays
+   * rate limited (429), e.g. ["claude-sonnet-4-6", "claude-haiku-4-5"].
+   */
+  fallbackModels?: string[];
+  /** Channels the agent subscribes to at startup, e.g. ["api-contracts"]. */
+  channels?: string[];
+  /** Also deliver messages published on `channels` before the agent started. */
+  channelHistory?: boolean;
+  /**
+   * Sync with main before each iteration. spawn-agent sets it for workers
+   * from --sync (default "merge"); unset means "off", as for the leader,
+   * which owns main.
+   */
+  sync?: SyncMode;
   workspacePath: string;
   valkeyUrl: string;
+  /** Namespace of the session's Valkey keys; unset for older sessions. */
+  sessionId?: string;
 }
 
 // ─── Iteration State ─────────────────────────────────────────────
@@ -38,8 +157,24 @@ export interface AgentConfig {
 export type StepType = "plan" | "execute" | "plan-execute" | "reflect";
 
 export interface TokenUsage {
+  /** Uncached input tokens. */
   input: number;
   output: number;
+  /** Input tokens served from the prompt cache. */
+  cacheRead?: number;
+  /** Input tokens written to the prompt cache. */
+  cacheWrite?: number;
+  /** USD cost of these tokens (0 for unpriced models). */
+  cost?: number;
+}
+
+/** A model call that moved on to the next model of the fallback chain. */
+export interface ModelFallback {
+  from: string;
+  to: string;
+  /** HTTP status that triggered the fallback: 529 or 429. */
+  status: number;
+  timestamp: number;
 }
 
 export interface IterationState {
@@ -50,6 +185,22 @@ export interface IterationState {
   output: unknown;
   tokensUsed: TokenUsage;
   complexity?: "simple" | "complex";
+  /** Fallbacks taken by the step's model calls, if any. */
+  fallbacks?: ModelFallback[];
+  /**
+   * The commit the agent's tree was left at after an execute or
+   * plan-execute step (see commitWithTrailers); unset outside a repo.
+   */
+  commit?: string;
+}
+
+// ─── Plan Output ─────────────────────────────────────────────────
+
+export interface PlanOutput {
+  plan: string;
+  reasoning?: string;
+  complexity: "simple" | "complex";
+  steps?: string[];
 }
 
 // ─── Reflect Output ──────────────────────────────────────────────
@@ -83,15 +234,52 @@ export interface AgentSessionEntry {
   status: AgentStatus;
   startTime: number;
   endTime?: number;
+  /** Cumulative usage and cost, copied from the agent's state/usage.json. */
+  usage?: Required<TokenUsage>;
+  /**
+   * Path of the agent's worktree of the leader's repo; unset for agents
+   * working in a clone.
+   */
+  worktree?: string;
 }
 
+/** CLI settings a session was started with (used to replay it). */
+export type SessionSettings = Pick<
+  CLIOptions,
+  | "workers"
+  | "budget"
+  | "maxIterations"
+  | "leaderModel"
+  | "teamModel"
+  | "fallbackModels"
+  | "leaderThinking"
+  | "maxCost"
+  | "rpm"
+  | "tpm"
+  | "queueDepth"
+  | "queueOverflow"
+  | "verifyCommand"
+  | "worktrees"
+  | "sync"
+>;
+
 export interface SessionState {
   goal: string;
   startTime: number;
   workspace: string;
   valkeyUrl: string;
+  /**
+   * Namespace of the session's Valkey keys, so sessions sharing a server
+   * stay apart. Sessions from before namespacing have none.
+   */
+  sessionId?: string;
   agents: AgentSessionEntry[];
   status: SessionStatus;
+  settings?: SessionSettings;
+  /** Total USD cost of all agents so far. */
+  cost?: number;
+  /** Spend cap in USD; reaching it cancels every agent. */
+  maxCost?: number;
 }
 
 // ─── Tool System ─────────────────────────────────────────────────
@@ -128,5 +316,27 @@ export interface CLIOptions {
   valkeyUrl: string;
   leaderModel: string;
   teamModel: string;
+  /** Fallback chain shared by all agents (see AgentConfig.fallbackModels). */
+  fallbackModels?: string[];
+  /** Leader's thinking budget per step (see AgentConfig.thinkingBudgets). */
+  leaderThinking?: Partial<Record<StepType, number>>;
   resumeFrom?: string;
+  record?: boolean;
+  replayFrom?: string;
+  maxCost?: number;
+  /** Session-wide requests per minute across all agents. */
+  rpm?: number;
+  /** Session-wide tokens per minute across all agents. */
+  tpm?: number;
+  /** Messages that may wait in each agent's queue (see QueueLimit). */
+  queueDepth?: number;
+  queueOverflow?: QueueOverflow;
+  /** Command merge-agent runs before committing a merge (see MergeCoordinator). */
+  verifyCommand?: string;
+  /** Give agents git worktrees of the leader's repo instead of clones. */
+  worktrees?: boolean;
+  /** How workers sync with main before each iteration. */
+  sync?: SyncMode;
+  /** Settings given as command-line flags rather than defaults. */
+  flags?: (keyof SessionSettings)[];
 }